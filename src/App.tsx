@@ -1,13 +1,24 @@
-import { Suspense } from "react";
+import { Suspense, useEffect, useState } from "react";
 import { Navigate, Route, Routes, useRoutes } from "react-router-dom";
 import routes from "tempo-routes";
 import LoginForm from "./components/auth/LoginForm";
 import SignUpForm from "./components/auth/SignUpForm";
 import Dashboard from "./components/pages/dashboard";
+import ProjectsPage from "./components/pages/projects";
+import ProjectDetailPage from "./components/pages/project-detail";
+import DiscoverPage from "./components/pages/discover";
+import PointsPage from "./components/pages/points";
+import ProfilePage from "./components/pages/profile";
+import LeaderboardPage from "./components/pages/leaderboard";
+import BillingPage from "./components/pages/billing";
+import InvoicesPage from "./components/pages/invoices";
+import AdminWebhooksPage from "./components/pages/admin-webhooks";
 import Success from "./components/pages/success";
 import Home from "./components/pages/home";
 import { AuthProvider, useAuth } from "../supabase/auth";
+import { EntitlementsProvider } from "../supabase/entitlements";
 import { Toaster } from "./components/ui/toaster";
+import { fetchIsAdmin } from "./lib/admin";
 
 function PrivateRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
@@ -23,6 +34,31 @@ function PrivateRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+// Signed-in admins only; everyone else goes back to the dashboard. The data
+// behind admin pages is protected by RLS either way.
+function AdminRoute({ children }: { children: React.ReactNode }) {
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    fetchIsAdmin()
+      .then(setIsAdmin)
+      .catch((error) => {
+        console.error("Failed to check admin access:", error);
+        setIsAdmin(false);
+      });
+  }, []);
+
+  if (isAdmin === null) {
+    return <div>Loading...</div>;
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  return <>{children}</>;
+}
+
 function AppRoutes() {
   return (
     <>
@@ -38,10 +74,86 @@ function AppRoutes() {
             </PrivateRoute>
           }
         />
+        <Route
+          path="/dashboard/projects"
+          element={
+            <PrivateRoute>
+              <ProjectsPage />
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/dashboard/projects/:projectId"
+          element={
+            <PrivateRoute>
+              <ProjectDetailPage />
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/dashboard/discover"
+          element={
+            <PrivateRoute>
+              <DiscoverPage />
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/dashboard/points"
+          element={
+            <PrivateRoute>
+              <PointsPage />
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/dashboard/leaderboard"
+          element={
+            <PrivateRoute>
+              <LeaderboardPage />
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/dashboard/billing"
+          element={
+            <PrivateRoute>
+              <BillingPage />
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/dashboard/invoices"
+          element={
+            <PrivateRoute>
+              <InvoicesPage />
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/dashboard/admin/webhooks"
+          element={
+            <PrivateRoute>
+              <AdminRoute>
+                <AdminWebhooksPage />
+              </AdminRoute>
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/dashboard/profile"
+          element={
+            <PrivateRoute>
+              <ProfilePage />
+            </PrivateRoute>
+          }
+        />
         <Route
           path="/success"
           element={
-            <Success />
+            <PrivateRoute>
+              <Success />
+            </PrivateRoute>
           }
         />
       </Routes>
@@ -53,10 +165,12 @@ function AppRoutes() {
 function App() {
   return (
     <AuthProvider>
-      <Suspense fallback={<p>Loading...</p>}>
-        <AppRoutes />
-      </Suspense>
-      <Toaster />
+      <EntitlementsProvider>
+        <Suspense fallback={<p>Loading...</p>}>
+          <AppRoutes />
+        </Suspense>
+        <Toaster />
+      </EntitlementsProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,98 @@
+import {
+  Award,
+  Compass,
+  Ear,
+  Globe,
+  Lock,
+  LucideIcon,
+  MapPin,
+  MessageSquare,
+  MessagesSquare,
+  Rocket,
+  Sparkles,
+  ThumbsUp,
+} from "lucide-react";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { BadgeTier, badgeCatalog } from "@/lib/badges";
+import type { UserBadge } from "@/lib/user-badges";
+
+const badgeIcons: Record<string, LucideIcon> = {
+  Award,
+  Compass,
+  Ear,
+  Globe,
+  MapPin,
+  MessageSquare,
+  MessagesSquare,
+  Rocket,
+  Sparkles,
+  ThumbsUp,
+};
+
+const tierStyles: Record<BadgeTier, string> = {
+  bronze: "bg-amber-100 text-amber-700 ring-amber-200",
+  silver: "bg-slate-100 text-slate-600 ring-slate-300",
+  gold: "bg-yellow-100 text-yellow-600 ring-yellow-300",
+};
+
+interface BadgeShelfProps {
+  earned: UserBadge[];
+}
+
+const BadgeShelf = ({ earned }: BadgeShelfProps) => {
+  const earnedById = new Map(earned.map((badge) => [badge.badge_id, badge]));
+
+  return (
+    <TooltipProvider>
+      <div className="grid grid-cols-3 gap-4 sm:grid-cols-5">
+        {badgeCatalog.map((badge) => {
+          const awarded = earnedById.get(badge.id);
+          const Icon = awarded ? badgeIcons[badge.icon] ?? Award : Lock;
+
+          return (
+            <Tooltip key={badge.id}>
+              <TooltipTrigger asChild>
+                <div className="flex flex-col items-center gap-2 text-center">
+                  <div
+                    className={cn(
+                      "flex h-14 w-14 items-center justify-center rounded-full ring-2",
+                      awarded
+                        ? tierStyles[badge.tier]
+                        : "bg-gray-50 text-gray-300 ring-gray-100",
+                    )}
+                  >
+                    <Icon className="h-6 w-6" />
+                  </div>
+                  <span
+                    className={cn(
+                      "text-xs font-medium",
+                      awarded ? "text-gray-700" : "text-gray-400",
+                    )}
+                  >
+                    {badge.name}
+                  </span>
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{badge.description}</p>
+                {awarded && (
+                  <p className="text-xs text-gray-400">
+                    Earned {new Date(awarded.awarded_at).toLocaleDateString()}
+                  </p>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+    </TooltipProvider>
+  );
+};
+
+export default BadgeShelf;
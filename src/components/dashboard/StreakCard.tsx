@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { Flame, Loader2, Snowflake, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "../../../supabase/auth";
+import {
+  StreakState,
+  addDays,
+  currentStreakOn,
+  emptyStreak,
+  milestoneBonus,
+  streakRules,
+  toLocalDate,
+} from "@/lib/streaks";
+import {
+  StreakDay,
+  browserTimeZone,
+  fetchStreak,
+  fetchStreakDays,
+  fetchUserTimezone,
+  getTimezoneErrorMessage,
+  updateUserTimezone,
+} from "@/lib/user-streaks";
+
+// How far back the heatmap goes
+const HEATMAP_MONTHS = 3;
+
+// Streak days are local calendar dates; show them on the same date locally
+const toCalendarDate = (day: string) => {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date);
+};
+
+const StreakCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [streak, setStreak] = useState<StreakState>(emptyStreak());
+  const [days, setDays] = useState<StreakDay[]>([]);
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingTimeZone, setIsSavingTimeZone] = useState(false);
+
+  const localTimeZone = browserTimeZone();
+  const effectiveTimeZone = timeZone ?? localTimeZone;
+  const today = toLocalDate(new Date(), effectiveTimeZone);
+  const firstMonth = new Date();
+  firstMonth.setDate(1);
+  firstMonth.setMonth(firstMonth.getMonth() - (HEATMAP_MONTHS - 1));
+
+  useEffect(() => {
+    if (!user) return;
+    const since = addDays(today, -HEATMAP_MONTHS * 31);
+
+    Promise.all([
+      fetchStreak(user.id),
+      fetchStreakDays(user.id, since),
+      fetchUserTimezone(user.id),
+    ])
+      .then(([state, streakDays, savedTimeZone]) => {
+        setStreak(state);
+        setDays(streakDays);
+        setTimeZone(savedTimeZone);
+        // Adopt the browser's timezone the first time so days line up with
+        // the user's own calendar
+        if (!savedTimeZone) {
+          updateUserTimezone(localTimeZone)
+            .then(setTimeZone)
+            .catch((error) => console.error("Failed to save timezone:", error));
+        }
+      })
+      .catch((error) => console.error("Failed to load streak:", error))
+      .finally(() => setIsLoading(false));
+  }, [user]);
+
+  const handleUseLocalTimeZone = async () => {
+    setIsSavingTimeZone(true);
+    try {
+      setTimeZone(await updateUserTimezone(localTimeZone));
+      toast({ title: `Streak days now follow ${localTimeZone}` });
+    } catch (error) {
+      console.error("Failed to update timezone:", error);
+      toast({
+        title: "Couldn't update timezone",
+        description: getTimezoneErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingTimeZone(false);
+    }
+  };
+
+  const current = currentStreakOn(streak, today);
+  const nextMilestone = streakRules.milestones.find((m) => m.days > current);
+
+  return (
+    <Card className="border border-gray-200 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-base font-medium">Feedback streak</CardTitle>
+        <Flame className="h-5 w-5 text-orange-500" />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-6 lg:flex-row">
+            <div className="space-y-4 lg:w-56">
+              <div>
+                <div className="text-3xl font-bold text-gray-900">
+                  {current} {current === 1 ? "day" : "days"}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {streak.lastActiveDate === today
+                    ? "You've reviewed today. Nice!"
+                    : "Review a project today to keep it going."}
+                </p>
+              </div>
+              <div className="space-y-2 text-sm text-gray-600">
+                <div className="flex items-center gap-2">
+                  <Trophy className="h-4 w-4 text-amber-500" />
+                  Longest: {streak.longestStreak} days
+                </div>
+                <div className="flex items-center gap-2">
+                  <Snowflake className="h-4 w-4 text-sky-500" />
+                  {streak.freezesAvailable} streak{" "}
+                  {streak.freezesAvailable === 1 ? "freeze" : "freezes"}
+                </div>
+              </div>
+              {nextMilestone && (
+                <p className="rounded-lg bg-orange-50 p-3 text-xs text-orange-700">
+                  {nextMilestone.days - current} more{" "}
+                  {nextMilestone.days - current === 1 ? "day" : "days"} to the{" "}
+                  {nextMilestone.days}-day bonus of{" "}
+                  {milestoneBonus(nextMilestone)} points (×
+                  {nextMilestone.multiplier}).
+                </p>
+              )}
+              <div className="text-xs text-gray-500">
+                Days counted in {effectiveTimeZone}
+                {timeZone && timeZone !== localTimeZone && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 pl-1 text-xs"
+                    disabled={isSavingTimeZone}
+                    onClick={handleUseLocalTimeZone}
+                  >
+                    Use {localTimeZone}
+                  </Button>
+                )}
+              </div>
+            </div>
+            <Calendar
+              numberOfMonths={HEATMAP_MONTHS}
+              defaultMonth={firstMonth}
+              fromMonth={firstMonth}
+              toDate={new Date()}
+              showOutsideDays={false}
+              modifiers={{
+                active: days
+                  .filter((day) => day.kind === "active")
+                  .map((day) => toCalendarDate(day.day)),
+                frozen: days
+                  .filter((day) => day.kind === "frozen")
+                  .map((day) => toCalendarDate(day.day)),
+              }}
+              modifiersClassNames={{
+                active: "bg-orange-500 text-white hover:bg-orange-500",
+                frozen: "bg-sky-100 text-sky-700 hover:bg-sky-100",
+              }}
+              className="rounded-md border border-gray-100"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StreakCard;
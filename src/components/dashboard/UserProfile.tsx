@@ -1,7 +1,50 @@
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
 import { useAuth } from "../../../supabase/auth"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { useToast } from "@/components/ui/use-toast"
+import BadgeShelf from "./BadgeShelf"
+import { UserBadge, fetchUserBadges } from "@/lib/user-badges"
+import { badgeCatalog } from "@/lib/badges"
+import {
+  fetchLeaderboardVisibility,
+  updateLeaderboardVisibility,
+} from "@/lib/leaderboard"
 
 export function UserProfile() {
   const { user, loading } = useAuth()
+  const [badges, setBadges] = useState<UserBadge[]>([])
+  const [badgesLoading, setBadgesLoading] = useState(true)
+  const [showOnLeaderboard, setShowOnLeaderboard] = useState<boolean | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!user) return
+    fetchUserBadges(user.id)
+      .then(setBadges)
+      .catch((error) => console.error("Failed to load badges:", error))
+      .finally(() => setBadgesLoading(false))
+    fetchLeaderboardVisibility(user.id)
+      .then(setShowOnLeaderboard)
+      .catch((error) =>
+        console.error("Failed to load leaderboard visibility:", error),
+      )
+  }, [user])
+
+  const handleLeaderboardVisibility = async (visible: boolean) => {
+    const previous = showOnLeaderboard
+    setShowOnLeaderboard(visible)
+    try {
+      await updateLeaderboardVisibility(visible)
+    } catch (error) {
+      console.error("Failed to update leaderboard visibility:", error)
+      setShowOnLeaderboard(previous)
+      toast({ title: "Couldn't update your privacy setting", variant: "destructive" })
+    }
+  }
 
   if (loading) {
     return <div>Loading...</div>
@@ -12,10 +55,63 @@ export function UserProfile() {
   }
 
   return (
-    <div>
-      <h2>Profile</h2>
-      <p>Name: {user.user_metadata?.full_name}</p>
-      <p>Email: {user.email}</p>
+    <div className="space-y-6">
+      <Card className="border border-gray-200 shadow-sm">
+        <CardContent className="flex items-center gap-4 p-6">
+          <Avatar className="h-16 w-16">
+            <AvatarImage
+              src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${user.email}`}
+              alt={user.email || ""}
+            />
+            <AvatarFallback>{user.email?.[0].toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {user.user_metadata?.full_name || "Profile"}
+            </h2>
+            <p className="text-sm text-gray-500">{user.email}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border border-gray-200 shadow-sm">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base font-medium">Badges</CardTitle>
+          <span className="text-sm text-gray-500">
+            {badges.length} of {badgeCatalog.length} unlocked
+          </span>
+        </CardHeader>
+        <CardContent>
+          {badgesLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <BadgeShelf earned={badges} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border border-gray-200 shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-base font-medium">Privacy</CardTitle>
+        </CardHeader>
+        <CardContent className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="show-on-leaderboard">Show me on public leaderboards</Label>
+            <p className="text-sm text-gray-500">
+              When off, other people won't see your name or rank. You'll still
+              see your own points on the leaderboard.
+            </p>
+          </div>
+          <Switch
+            id="show-on-leaderboard"
+            checked={showOnLeaderboard ?? true}
+            disabled={showOnLeaderboard === null}
+            onCheckedChange={handleLeaderboardVisibility}
+          />
+        </CardContent>
+      </Card>
     </div>
   )
 }
@@ -0,0 +1,41 @@
+import React from "react";
+import TopNavigation from "./TopNavigation";
+import PaymentIssueBanner from "./PaymentIssueBanner";
+import Sidebar from "./Sidebar";
+import TrialBanner from "./TrialBanner";
+
+interface DashboardLayoutProps {
+  children: React.ReactNode;
+  activeItem?: string;
+  aside?: React.ReactNode;
+}
+
+const DashboardLayout = ({
+  children,
+  activeItem = "Dashboard",
+  aside,
+}: DashboardLayoutProps) => {
+  return (
+    <div className="min-h-screen bg-white">
+      <TopNavigation />
+
+      <div className="flex pt-16">
+        <Sidebar activeItem={activeItem} />
+
+        <main className="flex-1 overflow-auto p-6">
+          <PaymentIssueBanner />
+          <TrialBanner />
+          {children}
+        </main>
+
+        {aside && (
+          <div className="w-[280px] border-l border-gray-200 bg-white">
+            <div className="p-4">{aside}</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DashboardLayout;
@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { Progress } from "@/components/ui/progress";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  LevelProgress as Progression,
+  calculateXp,
+  fetchLevels,
+  fetchXpSources,
+  getLevelProgress,
+} from "@/lib/levels";
+import { formatPoints } from "@/lib/points";
+
+interface LevelProgressProps {
+  userId: string;
+}
+
+// Last level the user was shown, so a level-up is celebrated once
+const lastSeenLevelKey = (userId: string) => `last-seen-level:${userId}`;
+
+const LevelProgress = ({ userId }: LevelProgressProps) => {
+  const { toast } = useToast();
+  const [progress, setProgress] = useState<Progression | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([fetchLevels(), fetchXpSources()])
+      .then(([levels, sources]) => {
+        if (cancelled) return;
+        const next = getLevelProgress(calculateXp(sources), levels);
+        setProgress(next);
+        if (!next) return;
+
+        const key = lastSeenLevelKey(userId);
+        const lastSeen = Number(localStorage.getItem(key));
+        if (lastSeen && next.current.level > lastSeen) {
+          toast({
+            title: `🎉 Level up! You're now ${next.current.name}`,
+            description: next.current.perks.length
+              ? `Unlocked: ${next.current.perks.join(", ")}`
+              : `You've reached level ${next.current.level}.`,
+          });
+        }
+        localStorage.setItem(key, String(next.current.level));
+      })
+      .catch((error) => console.error("Failed to load level progress:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  if (!progress) return null;
+
+  const { current, next } = progress;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="hidden md:flex items-center gap-3 px-2">
+            <div className="text-right leading-tight">
+              <div className="text-xs font-medium text-gray-700">
+                Lvl {current.level} · {current.name}
+              </div>
+              <div className="text-[11px] text-gray-500">
+                {formatPoints(progress.xp)} XP
+              </div>
+            </div>
+            <Progress value={progress.percent} className="h-2 w-24" />
+          </div>
+        </TooltipTrigger>
+        <TooltipContent>
+          {next ? (
+            <p>
+              {formatPoints(progress.xpForNextLevel - progress.xpIntoLevel)} XP
+              to {next.name}
+            </p>
+          ) : (
+            <p>Top level reached</p>
+          )}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
+
+export default LevelProgress;
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  Notification,
+  fetchNotifications,
+  markNotificationsRead,
+} from "@/lib/notifications";
+
+interface NotificationsMenuProps {
+  userId: string;
+}
+
+const NotificationsMenu = ({ userId }: NotificationsMenuProps) => {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  useEffect(() => {
+    fetchNotifications(userId)
+      .then(setNotifications)
+      .catch((error) => console.error("Failed to load notifications:", error));
+  }, [userId]);
+
+  const unread = notifications.filter((n) => !n.read_at);
+
+  // Opening the menu counts as reading what's in it
+  const handleOpenChange = (open: boolean) => {
+    if (!open || unread.length === 0) return;
+    const ids = unread.map((n) => n.id);
+    markNotificationsRead(ids)
+      .then(() => {
+        const readAt = new Date().toISOString();
+        setNotifications((current) =>
+          current.map((n) => (ids.includes(n.id) ? { ...n, read_at: readAt } : n)),
+        );
+      })
+      .catch((error) =>
+        console.error("Failed to mark notifications read:", error),
+      );
+  };
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenu onOpenChange={handleOpenChange}>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="relative text-gray-700">
+                <Bell className="h-5 w-5" />
+                {unread.length > 0 && (
+                  <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-4 w-4 flex items-center justify-center">
+                    {unread.length}
+                  </span>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-72">
+              <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {notifications.length === 0 ? (
+                <div className="px-2 py-3 text-sm text-gray-500">
+                  You're all caught up.
+                </div>
+              ) : (
+                notifications.map((notification) => (
+                  <DropdownMenuItem
+                    key={notification.id}
+                    className="flex flex-col items-start gap-0.5 py-2"
+                    onSelect={() =>
+                      notification.link && navigate(notification.link)
+                    }
+                  >
+                    <span
+                      className={
+                        notification.read_at ? "text-gray-700" : "font-medium"
+                      }
+                    >
+                      {notification.title}
+                    </span>
+                    {notification.body && (
+                      <span className="text-xs text-gray-500">
+                        {notification.body}
+                      </span>
+                    )}
+                  </DropdownMenuItem>
+                ))
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Notifications</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
+
+export default NotificationsMenu;
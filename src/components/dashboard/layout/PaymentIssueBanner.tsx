@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useEntitlements } from "../../../../supabase/entitlements";
+import { createPortalSession } from "@/lib/billing";
+import {
+  daysUntilDowngrade,
+  fetchDunningSettings,
+  pastDueStatuses,
+} from "@/lib/dunning";
+
+// Shown on every dashboard page while a subscription payment is failing
+const PaymentIssueBanner = () => {
+  const { subscription } = useEntitlements();
+  const { toast } = useToast();
+
+  const [graceDays, setGraceDays] = useState<number | null>(null);
+  const [isOpeningPortal, setIsOpeningPortal] = useState(false);
+
+  const isPastDue = pastDueStatuses.includes(subscription?.status ?? "");
+
+  useEffect(() => {
+    if (!isPastDue) return;
+    fetchDunningSettings()
+      .then((settings) => setGraceDays(settings?.grace_days ?? null))
+      .catch((error) =>
+        console.error("Failed to load dunning settings:", error),
+      );
+  }, [isPastDue]);
+
+  if (!isPastDue) return null;
+
+  const handleUpdateCard = async () => {
+    setIsOpeningPortal(true);
+    try {
+      window.location.href = await createPortalSession(window.location.href);
+    } catch (error) {
+      console.error("Failed to open billing portal:", error);
+      toast({
+        title: "Couldn't open billing portal",
+        description: "Please try again in a moment.",
+        variant: "destructive",
+      });
+      setIsOpeningPortal(false);
+    }
+  };
+
+  const daysLeft =
+    subscription.past_due_since && graceDays !== null
+      ? daysUntilDowngrade(subscription.past_due_since, graceDays)
+      : null;
+
+  return (
+    <div className="mb-6 flex items-center justify-between gap-3 rounded-lg bg-rose-50 px-4 py-3 text-sm text-rose-800">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        <span>
+          {subscription.downgraded_at
+            ? "We couldn't collect your payment, so paid features are paused."
+            : "Your last payment didn't go through."}{" "}
+          {!subscription.downgraded_at &&
+            daysLeft !== null &&
+            (daysLeft > 0
+              ? `Update your card within ${daysLeft} ${
+                  daysLeft === 1 ? "day" : "days"
+                } to keep your plan.`
+              : "Update your card to keep your plan.")}
+          {subscription.downgraded_at &&
+            "Update your card to restore your plan."}
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="destructive"
+        disabled={isOpeningPortal}
+        onClick={handleUpdateCard}
+      >
+        {isOpeningPortal && (
+          <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+        )}
+        Update card
+      </Button>
+    </div>
+  );
+};
+
+export default PaymentIssueBanner;
@@ -1,4 +1,5 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
@@ -10,7 +11,14 @@ import {
   Settings,
   HelpCircle,
   FolderKanban,
+  Compass,
+  Coins,
+  Trophy,
+  CreditCard,
+  Receipt,
+  Webhook,
 } from "lucide-react";
+import { fetchIsAdmin } from "@/lib/admin";
 
 interface NavItem {
   icon: React.ReactNode;
@@ -26,13 +34,52 @@ interface SidebarProps {
 }
 
 const defaultNavItems: NavItem[] = [
-  { icon: <Home size={18} />, label: "Home" },
-  { icon: <LayoutDashboard size={18} />, label: "Dashboard", isActive: true },
-  { icon: <FolderKanban size={18} />, label: "Projects" },
+  { icon: <Home size={18} />, label: "Home", href: "/" },
+  {
+    icon: <LayoutDashboard size={18} />,
+    label: "Dashboard",
+    href: "/dashboard",
+    isActive: true,
+  },
+  {
+    icon: <FolderKanban size={18} />,
+    label: "Projects",
+    href: "/dashboard/projects",
+  },
+  {
+    icon: <Compass size={18} />,
+    label: "Discover",
+    href: "/dashboard/discover",
+  },
+  { icon: <Coins size={18} />, label: "Points", href: "/dashboard/points" },
+  {
+    icon: <Trophy size={18} />,
+    label: "Leaderboard",
+    href: "/dashboard/leaderboard",
+  },
+  {
+    icon: <CreditCard size={18} />,
+    label: "Billing",
+    href: "/dashboard/billing",
+  },
+  {
+    icon: <Receipt size={18} />,
+    label: "Invoices",
+    href: "/dashboard/invoices",
+  },
   { icon: <Calendar size={18} />, label: "Calendar" },
   { icon: <Users size={18} />, label: "Team" },
 ];
 
+// Shown only to users in admin_users
+const adminNavItems: NavItem[] = [
+  {
+    icon: <Webhook size={18} />,
+    label: "Webhooks",
+    href: "/dashboard/admin/webhooks",
+  },
+];
+
 const defaultBottomItems: NavItem[] = [
   { icon: <Settings size={18} />, label: "Settings" },
   { icon: <HelpCircle size={18} />, label: "Help" },
@@ -43,6 +90,22 @@ const Sidebar = ({
   activeItem = "Dashboard",
   onItemClick = () => {},
 }: SidebarProps) => {
+  const navigate = useNavigate();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  useEffect(() => {
+    fetchIsAdmin()
+      .then(setIsAdmin)
+      .catch((error) => console.error("Failed to check admin access:", error));
+  }, []);
+
+  const handleItemClick = (item: NavItem) => {
+    onItemClick(item.label);
+    if (item.href) {
+      navigate(item.href);
+    }
+  };
+
   return (
     <div className="w-[240px] h-full border-r border-gray-200 bg-white flex flex-col">
       <div className="p-4">
@@ -59,7 +122,7 @@ const Sidebar = ({
               key={item.label}
               variant={item.label === activeItem ? "secondary" : "ghost"}
               className="w-full justify-start gap-2 text-sm h-10"
-              onClick={() => onItemClick(item.label)}
+              onClick={() => handleItemClick(item)}
             >
               {item.icon}
               {item.label}
@@ -67,6 +130,27 @@ const Sidebar = ({
           ))}
         </div>
 
+        {isAdmin && (
+          <>
+            <Separator className="my-4" />
+
+            <div className="space-y-1">
+              <h3 className="text-xs font-medium px-3 py-2 text-gray-500">Admin</h3>
+              {adminNavItems.map((item) => (
+                <Button
+                  key={item.label}
+                  variant={item.label === activeItem ? "secondary" : "ghost"}
+                  className="w-full justify-start gap-2 text-sm h-10"
+                  onClick={() => handleItemClick(item)}
+                >
+                  {item.icon}
+                  {item.label}
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
+
         <Separator className="my-4" />
 
         <div className="space-y-1">
@@ -92,7 +176,7 @@ const Sidebar = ({
             key={item.label}
             variant="ghost"
             className="w-full justify-start gap-2 text-sm h-10 mb-1"
-            onClick={() => onItemClick(item.label)}
+            onClick={() => handleItemClick(item)}
           >
             {item.icon}
             {item.label}
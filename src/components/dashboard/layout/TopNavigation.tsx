@@ -1,5 +1,5 @@
 import React from "react";
-import { Bell, Home, Search, Settings, User } from "lucide-react";
+import { Home, Search, Settings, User } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -19,18 +19,15 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "../../../../supabase/auth";
 import { Link } from "react-router-dom";
+import LevelProgress from "./LevelProgress";
+import NotificationsMenu from "./NotificationsMenu";
 
 interface TopNavigationProps {
   onSearch?: (query: string) => void;
-  notifications?: Array<{ id: string; title: string }>;
 }
 
 const TopNavigation = ({
   onSearch = () => {},
-  notifications = [
-    { id: "1", title: "New project assigned" },
-    { id: "2", title: "Meeting reminder" },
-  ],
 }: TopNavigationProps) => {
   const { user, signOut } = useAuth();
 
@@ -53,36 +50,9 @@ const TopNavigation = ({
       </div>
 
       <div className="flex items-center gap-2">
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button variant="ghost" size="icon" className="relative text-gray-700">
-                    <Bell className="h-5 w-5" />
-                    {notifications.length > 0 && (
-                      <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-4 w-4 flex items-center justify-center">
-                        {notifications.length}
-                      </span>
-                    )}
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end" className="w-64">
-                  <DropdownMenuLabel>Notifications</DropdownMenuLabel>
-                  <DropdownMenuSeparator />
-                  {notifications.map((notification) => (
-                    <DropdownMenuItem key={notification.id} className="py-2">
-                      {notification.title}
-                    </DropdownMenuItem>
-                  ))}
-                </DropdownMenuContent>
-              </DropdownMenu>
-            </TooltipTrigger>
-            <TooltipContent>
-              <p>Notifications</p>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
+        <LevelProgress userId={user.id} />
+
+        <NotificationsMenu userId={user.id} />
 
         <TooltipProvider>
           <Tooltip>
@@ -115,9 +85,11 @@ const TopNavigation = ({
           <DropdownMenuContent align="end" className="w-56">
             <DropdownMenuLabel>My Account</DropdownMenuLabel>
             <DropdownMenuSeparator />
-            <DropdownMenuItem className="py-2">
-              <User className="mr-2 h-4 w-4" />
-              Profile
+            <DropdownMenuItem asChild className="py-2">
+              <Link to="/dashboard/profile">
+                <User className="mr-2 h-4 w-4" />
+                Profile
+              </Link>
             </DropdownMenuItem>
             <DropdownMenuItem className="py-2">
               <Settings className="mr-2 h-4 w-4" />
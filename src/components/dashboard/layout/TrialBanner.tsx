@@ -0,0 +1,39 @@
+import { Link } from "react-router-dom";
+import { Hourglass } from "lucide-react";
+import { useEntitlements } from "../../../../supabase/entitlements";
+import { formatStripeDate, trialDaysRemaining } from "@/lib/billing";
+
+// Counts down the last days of a free trial above every dashboard page
+const TrialBanner = () => {
+  const { subscription } = useEntitlements();
+
+  if (subscription?.status !== "trialing" || !subscription.trial_end) {
+    return null;
+  }
+
+  const daysLeft = trialDaysRemaining(subscription.trial_end);
+
+  return (
+    <div className="mb-6 flex items-center justify-between gap-3 rounded-lg bg-amber-50 px-4 py-3 text-sm text-amber-800">
+      <div className="flex items-center gap-2">
+        <Hourglass className="h-4 w-4" />
+        <span>
+          {daysLeft === 0
+            ? "Your free trial ends today."
+            : `${daysLeft} ${daysLeft === 1 ? "day" : "days"} left in your free trial.`}{" "}
+          {subscription.cancel_at_period_end
+            ? `Your plan ends on ${formatStripeDate(subscription.trial_end)}.`
+            : `Billing starts on ${formatStripeDate(subscription.trial_end)}.`}
+        </span>
+      </div>
+      <Link
+        to="/dashboard/billing"
+        className="font-medium text-amber-900 hover:underline"
+      >
+        Manage billing
+      </Link>
+    </div>
+  );
+};
+
+export default TrialBanner;
@@ -0,0 +1,173 @@
+import React, { useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import {
+  AnnotationDraft,
+  AnnotationKind,
+  MIN_RECT_SIZE,
+  toNormalizedPoint,
+  toNormalizedRect,
+} from "@/lib/annotations";
+
+interface AnnotationCanvasProps {
+  imageUrl: string;
+  annotations: AnnotationDraft[];
+  /** Active drawing tool; leave unset to render annotations read-only. */
+  tool?: AnnotationKind | null;
+  selectedId?: string | null;
+  onCreate?: (annotation: Omit<AnnotationDraft, "id" | "number" | "comment">) => void;
+  onSelect?: (id: string) => void;
+  className?: string;
+}
+
+type Point = { x: number; y: number };
+
+const AnnotationCanvas = ({
+  imageUrl,
+  annotations,
+  tool = null,
+  selectedId = null,
+  onCreate = () => {},
+  onSelect = () => {},
+  className,
+}: AnnotationCanvasProps) => {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+
+  const pointFromEvent = (e: React.PointerEvent) =>
+    toNormalizedPoint(
+      e.clientX,
+      e.clientY,
+      surfaceRef.current!.getBoundingClientRect(),
+    );
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!tool || e.button !== 0) return;
+    const point = pointFromEvent(e);
+
+    if (tool === "pin") {
+      onCreate({ kind: "pin", ...point, width: null, height: null });
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart) {
+      setDragEnd(pointFromEvent(e));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const rect = toNormalizedRect(dragStart, pointFromEvent(e));
+    setDragStart(null);
+    setDragEnd(null);
+
+    if (rect.width >= MIN_RECT_SIZE && rect.height >= MIN_RECT_SIZE) {
+      onCreate({ kind: "rect", ...rect });
+    }
+  };
+
+  const preview =
+    dragStart && dragEnd ? toNormalizedRect(dragStart, dragEnd) : null;
+
+  return (
+    <div
+      className={cn(
+        "relative w-full overflow-hidden rounded-lg border border-gray-200 bg-gray-50 select-none",
+        className,
+      )}
+    >
+      <img
+        src={imageUrl}
+        alt="Project screenshot"
+        className="block w-full h-auto"
+        draggable={false}
+      />
+      <div
+        ref={surfaceRef}
+        className={cn(
+          "absolute inset-0 touch-none",
+          tool && "cursor-crosshair",
+        )}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {annotations.map((annotation) => {
+          const isSelected = annotation.id === selectedId;
+          const marker = (
+            <span
+              className={cn(
+                "flex h-6 w-6 items-center justify-center rounded-full text-xs font-semibold text-white shadow-md ring-2 ring-white",
+                isSelected ? "bg-cyan-600" : "bg-teal-500",
+              )}
+            >
+              {annotation.number}
+            </span>
+          );
+
+          const selectAnnotation = (e: React.PointerEvent) => {
+            e.stopPropagation();
+            onSelect(annotation.id);
+          };
+
+          if (annotation.kind === "rect") {
+            return (
+              <div
+                key={annotation.id}
+                className={cn(
+                  "absolute border-2 rounded-sm",
+                  isSelected
+                    ? "border-cyan-600 bg-cyan-500/15"
+                    : "border-teal-500 bg-teal-500/10",
+                )}
+                style={{
+                  left: `${annotation.x * 100}%`,
+                  top: `${annotation.y * 100}%`,
+                  width: `${(annotation.width ?? 0) * 100}%`,
+                  height: `${(annotation.height ?? 0) * 100}%`,
+                }}
+                onPointerDown={selectAnnotation}
+              >
+                <div className="absolute -top-3 -left-3">{marker}</div>
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={annotation.id}
+              className="absolute -translate-x-1/2 -translate-y-1/2 cursor-pointer"
+              style={{
+                left: `${annotation.x * 100}%`,
+                top: `${annotation.y * 100}%`,
+              }}
+              onPointerDown={selectAnnotation}
+            >
+              {marker}
+            </div>
+          );
+        })}
+
+        {preview && (
+          <div
+            className="absolute border-2 border-dashed border-cyan-500 bg-cyan-500/10 rounded-sm pointer-events-none"
+            style={{
+              left: `${preview.x * 100}%`,
+              top: `${preview.y * 100}%`,
+              width: `${preview.width * 100}%`,
+              height: `${preview.height * 100}%`,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationCanvas;
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { MapPin, Square, Trash2 } from "lucide-react";
+import AnnotationCanvas from "./AnnotationCanvas";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { AnnotationDraft, AnnotationKind, renumber } from "@/lib/annotations";
+
+interface AnnotationEditorProps {
+  imageUrl: string;
+  value: AnnotationDraft[];
+  onChange: (annotations: AnnotationDraft[]) => void;
+}
+
+const tools: { kind: AnnotationKind; label: string; icon: JSX.Element }[] = [
+  { kind: "pin", label: "Pin", icon: <MapPin className="h-4 w-4" /> },
+  { kind: "rect", label: "Area", icon: <Square className="h-4 w-4" /> },
+];
+
+const AnnotationEditor = ({
+  imageUrl,
+  value,
+  onChange,
+}: AnnotationEditorProps) => {
+  const [tool, setTool] = useState<AnnotationKind>("pin");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const handleCreate = (
+    annotation: Omit<AnnotationDraft, "id" | "number" | "comment">,
+  ) => {
+    const id = crypto.randomUUID();
+    onChange(renumber([...value, { ...annotation, id, number: 0, comment: "" }]));
+    setSelectedId(id);
+  };
+
+  const updateComment = (id: string, comment: string) => {
+    onChange(value.map((a) => (a.id === id ? { ...a, comment } : a)));
+  };
+
+  const removeAnnotation = (id: string) => {
+    onChange(renumber(value.filter((a) => a.id !== id)));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          {tools.map((t) => (
+            <Button
+              key={t.kind}
+              type="button"
+              size="sm"
+              variant={tool === t.kind ? "secondary" : "ghost"}
+              className="gap-2"
+              onClick={() => setTool(t.kind)}
+            >
+              {t.icon}
+              {t.label}
+            </Button>
+          ))}
+          <span className="text-xs text-gray-500 ml-2">
+            {tool === "pin"
+              ? "Click the screenshot to drop a pin."
+              : "Drag on the screenshot to highlight an area."}
+          </span>
+        </div>
+        <AnnotationCanvas
+          imageUrl={imageUrl}
+          annotations={value}
+          tool={tool}
+          selectedId={selectedId}
+          onCreate={handleCreate}
+          onSelect={setSelectedId}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-800">
+          Annotations ({value.length})
+        </h3>
+        {value.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Point at what you're talking about, then explain it here.
+          </p>
+        )}
+        {value.map((annotation) => (
+          <div
+            key={annotation.id}
+            className={cn(
+              "rounded-lg border p-3 space-y-2",
+              annotation.id === selectedId
+                ? "border-cyan-300 bg-cyan-50/50"
+                : "border-gray-200",
+            )}
+            onClick={() => setSelectedId(annotation.id)}
+          >
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <span className="flex h-5 w-5 items-center justify-center rounded-full bg-teal-500 text-[11px] text-white">
+                  {annotation.number}
+                </span>
+                {annotation.kind === "pin" ? "Pin" : "Area"}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-gray-500 hover:text-rose-600"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeAnnotation(annotation.id);
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove annotation</span>
+              </Button>
+            </div>
+            <Textarea
+              value={annotation.comment}
+              placeholder="What should the creator know about this spot?"
+              className="min-h-[72px] resize-none text-sm"
+              onChange={(e) => updateComment(annotation.id, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationEditor;
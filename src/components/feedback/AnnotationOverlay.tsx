@@ -0,0 +1,85 @@
+import { useMemo, useState } from "react";
+import AnnotationCanvas from "./AnnotationCanvas";
+import { cn } from "@/lib/utils";
+import { FeedbackAnnotation, toDraft } from "@/lib/annotations";
+
+interface AnnotationOverlayProps {
+  imageUrl: string;
+  annotations: FeedbackAnnotation[];
+}
+
+/**
+ * Creator-facing, read-only view of every reviewer's annotations on an image.
+ * Each reviewer's pins keep their own numbering, so the list is grouped by
+ * reviewer and selecting an entry highlights its marker.
+ */
+const AnnotationOverlay = ({ imageUrl, annotations }: AnnotationOverlayProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const onImage = useMemo(
+    () => annotations.filter((a) => a.image_url === imageUrl),
+    [annotations, imageUrl],
+  );
+  const drafts = useMemo(() => onImage.map(toDraft), [onImage]);
+  const byReviewer = useMemo(() => {
+    const groups = new Map<string, FeedbackAnnotation[]>();
+    onImage.forEach((annotation) => {
+      groups.set(annotation.user_id, [
+        ...(groups.get(annotation.user_id) ?? []),
+        annotation,
+      ]);
+    });
+    return Array.from(groups.values());
+  }, [onImage]);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+      <AnnotationCanvas
+        imageUrl={imageUrl}
+        annotations={drafts}
+        selectedId={selectedId}
+        onSelect={setSelectedId}
+      />
+
+      <div className="space-y-4">
+        {onImage.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No annotations yet. They'll appear here as reviewers point things
+            out.
+          </p>
+        )}
+        {byReviewer.map((group, index) => (
+          <div key={group[0].user_id} className="space-y-2">
+            <h4 className="text-xs font-medium uppercase tracking-wide text-gray-500">
+              Reviewer {index + 1}
+            </h4>
+            {group.map((annotation) => (
+              <button
+                key={annotation.id}
+                type="button"
+                className={cn(
+                  "w-full text-left rounded-lg border p-3 text-sm transition-colors",
+                  annotation.id === selectedId
+                    ? "border-cyan-300 bg-cyan-50/50"
+                    : "border-gray-200 hover:border-gray-300",
+                )}
+                onClick={() => setSelectedId(annotation.id)}
+              >
+                <span className="mr-2 inline-flex h-5 w-5 items-center justify-center rounded-full bg-teal-500 text-[11px] text-white">
+                  {annotation.number}
+                </span>
+                <span className="text-gray-700">
+                  {annotation.comment || (
+                    <em className="text-gray-400">No comment</em>
+                  )}
+                </span>
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationOverlay;
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Loader2, ThumbsDown, ThumbsUp } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { FeedbackWithScores, scoreLabels } from "@/lib/feedback";
+import { scoreFeedbackQuality } from "@/lib/feedback-quality";
+
+interface FeedbackCardProps {
+  feedback: FeedbackWithScores;
+  title: string;
+  rubricSize?: number;
+  annotationCount?: number;
+  /** Shows the helpful/not-helpful buttons while the feedback is unrated. */
+  canRate?: boolean;
+  onRate?: (feedback: FeedbackWithScores, helpful: boolean) => Promise<void>;
+}
+
+const FeedbackCard = ({
+  feedback,
+  title,
+  rubricSize = feedback.feedback_scores.length,
+  annotationCount = 0,
+  canRate = false,
+  onRate = async () => {},
+}: FeedbackCardProps) => {
+  const [pendingRating, setPendingRating] = useState<boolean | null>(null);
+  const isRated = Boolean(feedback.rated_at);
+  const qualityScore =
+    feedback.quality_score ??
+    scoreFeedbackQuality({
+      pros: feedback.pros,
+      cons: feedback.cons,
+      scores: feedback.feedback_scores,
+      rubricSize,
+      annotationCount,
+    }).score;
+
+  const handleRate = async (helpful: boolean) => {
+    setPendingRating(helpful);
+    try {
+      await onRate(feedback, helpful);
+    } finally {
+      setPendingRating(null);
+    }
+  };
+
+  return (
+    <Card className="border border-gray-200 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary" className="text-xs">
+            Quality {qualityScore}
+          </Badge>
+          <span className="text-xs text-gray-500">
+            {new Date(feedback.created_at).toLocaleDateString()}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="space-y-3">
+          {feedback.feedback_scores.map((score) => (
+            <div key={score.id}>
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-700">
+                  {score.dimension_label}
+                </span>
+                <Badge variant="outline" className="text-xs bg-gray-50">
+                  {score.score}/5 · {scoreLabels[score.score]}
+                </Badge>
+              </div>
+              {score.comment && (
+                <p className="mt-1 text-gray-600">{score.comment}</p>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="rounded-lg bg-emerald-50 p-3">
+            <h4 className="mb-1 text-xs font-medium uppercase tracking-wide text-emerald-700">
+              Pros
+            </h4>
+            <p className="whitespace-pre-line text-gray-700">{feedback.pros}</p>
+          </div>
+          <div className="rounded-lg bg-rose-50 p-3">
+            <h4 className="mb-1 text-xs font-medium uppercase tracking-wide text-rose-700">
+              Cons
+            </h4>
+            <p className="whitespace-pre-line text-gray-700">{feedback.cons}</p>
+          </div>
+        </div>
+        {isRated ? (
+          <div className="flex items-center justify-between border-t border-gray-100 pt-3 text-xs text-gray-500">
+            <span className="flex items-center gap-1.5">
+              {feedback.helpful ? (
+                <ThumbsUp className="h-3.5 w-3.5 text-emerald-600" />
+              ) : (
+                <ThumbsDown className="h-3.5 w-3.5 text-gray-400" />
+              )}
+              {feedback.helpful ? "Rated helpful" : "Rated not helpful"}
+            </span>
+            {feedback.points_awarded ? (
+              <Badge className="bg-emerald-100 text-emerald-700 hover:bg-emerald-200">
+                +{feedback.points_awarded} pts
+              </Badge>
+            ) : null}
+          </div>
+        ) : (
+          canRate && (
+            <div className="flex items-center justify-between border-t border-gray-100 pt-3">
+              <span className="text-xs text-gray-500">
+                Was this feedback helpful?
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1.5"
+                  disabled={pendingRating !== null}
+                  onClick={() => handleRate(true)}
+                >
+                  {pendingRating === true ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <ThumbsUp className="h-3.5 w-3.5" />
+                  )}
+                  Helpful
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="gap-1.5 text-gray-600"
+                  disabled={pendingRating !== null}
+                  onClick={() => handleRate(false)}
+                >
+                  {pendingRating === false ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <ThumbsDown className="h-3.5 w-3.5" />
+                  )}
+                  Not helpful
+                </Button>
+              </div>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FeedbackCard;
@@ -0,0 +1,81 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DimensionAverage,
+  FeedbackWithScores,
+  RubricDimension,
+} from "@/lib/feedback";
+
+interface FeedbackComparisonTableProps {
+  rubric: RubricDimension[];
+  feedback: FeedbackWithScores[];
+  averages: DimensionAverage[];
+}
+
+/**
+ * Scores side by side: one row per rubric dimension, one column per reviewer,
+ * with the project-wide average last.
+ */
+const FeedbackComparisonTable = ({
+  rubric,
+  feedback,
+  averages,
+}: FeedbackComparisonTableProps) => {
+  // Dimensions removed from the rubric still show if reviewers scored them
+  const dimensions = [
+    ...rubric,
+    ...averages
+      .filter((a) => !rubric.some((d) => d.key === a.dimension_key))
+      .map((a) => ({ key: a.dimension_key!, label: a.dimension_label! })),
+  ];
+
+  return (
+    <div className="rounded-lg border border-gray-200">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Dimension</TableHead>
+            {feedback.map((item, index) => (
+              <TableHead key={item.id} className="text-center">
+                Reviewer {index + 1}
+              </TableHead>
+            ))}
+            <TableHead className="text-center">Average</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {dimensions.map((dimension) => {
+            const average = averages.find(
+              (a) => a.dimension_key === dimension.key,
+            );
+            return (
+              <TableRow key={dimension.key}>
+                <TableCell className="font-medium">{dimension.label}</TableCell>
+                {feedback.map((item) => (
+                  <TableCell key={item.id} className="text-center">
+                    {item.feedback_scores.find(
+                      (s) => s.dimension_key === dimension.key,
+                    )?.score ?? "–"}
+                  </TableCell>
+                ))}
+                <TableCell className="text-center font-semibold text-teal-600">
+                  {average?.average_score != null
+                    ? Number(average.average_score).toFixed(1)
+                    : "–"}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default FeedbackComparisonTable;
@@ -0,0 +1,198 @@
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  DimensionScoreInput,
+  RubricDimension,
+  scoreLabels,
+} from "@/lib/feedback";
+
+const feedbackSchema = z.object({
+  scores: z.array(
+    z.object({
+      key: z.string(),
+      label: z.string(),
+      score: z.coerce
+        .number({ invalid_type_error: "Pick a score" })
+        .int()
+        .min(1, "Pick a score")
+        .max(5),
+      comment: z.string().trim().max(2000),
+    }),
+  ),
+  pros: z.string().trim().min(10, "Tell the creator what works well"),
+  cons: z.string().trim().min(10, "Tell the creator what could be better"),
+});
+
+type FeedbackFormValues = z.infer<typeof feedbackSchema>;
+
+export interface FeedbackFormSubmission {
+  pros: string;
+  cons: string;
+  scores: DimensionScoreInput[];
+}
+
+interface FeedbackFormProps {
+  rubric: RubricDimension[];
+  onSubmit: (values: FeedbackFormSubmission) => Promise<void>;
+}
+
+const FeedbackForm = ({ rubric, onSubmit }: FeedbackFormProps) => {
+  const form = useForm<FeedbackFormValues>({
+    resolver: zodResolver(feedbackSchema),
+    defaultValues: {
+      scores: rubric.map((dimension) => ({
+        key: dimension.key,
+        label: dimension.label,
+        score: 0,
+        comment: "",
+      })),
+      pros: "",
+      cons: "",
+    },
+  });
+  const { fields } = useFieldArray({ control: form.control, name: "scores" });
+
+  const handleSubmit = async (values: FeedbackFormValues) => {
+    await onSubmit({
+      pros: values.pros,
+      cons: values.cons,
+      scores: values.scores.map(({ key, score, comment }) => ({
+        key,
+        score,
+        comment,
+      })),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <div className="space-y-4">
+          {fields.map((dimension, index) => (
+            <div
+              key={dimension.id}
+              className="rounded-lg border border-gray-200 p-4 space-y-3"
+            >
+              <FormField
+                control={form.control}
+                name={`scores.${index}.score`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium">
+                      {dimension.label}
+                    </FormLabel>
+                    <FormControl>
+                      <RadioGroup
+                        className="flex flex-wrap gap-4"
+                        value={field.value ? String(field.value) : ""}
+                        onValueChange={(value) => field.onChange(Number(value))}
+                      >
+                        {[1, 2, 3, 4, 5].map((score) => {
+                          const id = `${dimension.key}-${score}`;
+                          return (
+                            <div key={score} className="flex items-center gap-1.5">
+                              <RadioGroupItem value={String(score)} id={id} />
+                              <Label
+                                htmlFor={id}
+                                className="text-xs font-normal text-gray-600"
+                              >
+                                {score} · {scoreLabels[score]}
+                              </Label>
+                            </div>
+                          );
+                        })}
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`scores.${index}.comment`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Textarea
+                        placeholder={`Why this score for ${dimension.label.toLowerCase()}?`}
+                        className="min-h-[64px] resize-none text-sm"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="pros"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pros</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="What works well?"
+                    className="min-h-[96px] resize-none"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="cons"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Cons</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="What would you change first?"
+                    className="min-h-[96px] resize-none"
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Specific, actionable points are the most helpful.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Submit feedback
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default FeedbackForm;
@@ -10,7 +10,10 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import {
   CheckCircle2,
   ChevronRight,
@@ -19,51 +22,53 @@ import {
   Sparkles,
   CreditCard,
   Shield,
+  Tag,
 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { useAuth } from "../../../supabase/auth";
+import { useEntitlements } from "../../../supabase/entitlements";
 import { supabase } from "../../../supabase/supabase";
-
-// Define the Plan type
-interface Plan {
-  id: string;
-  object: string;
-  active: boolean;
-  amount: number;
-  currency: string;
-  interval: string;
-  interval_count: number;
-  product: string;
-  created: number;
-  livemode: boolean;
-  [key: string]: any;
-}
+import {
+  BillingInterval,
+  Plan,
+  annualSavingsPercent,
+  fetchPlans,
+  formatCurrency,
+  getCheckoutErrorMessage,
+  getPlanPrice,
+  validatePromoCode,
+} from "@/lib/billing";
+import type { PlanTier } from "@/lib/entitlements";
 
 export default function PricingSection() {
   const { user } = useAuth();
+  const { subscription } = useEntitlements();
   const { toast } = useToast();
 
   const [plans, setPlans] = useState<Plan[]>([]);
+  const [billingInterval, setBillingInterval] =
+    useState<BillingInterval>("month");
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [processingPlanId, setProcessingPlanId] = useState<string | null>(null);
+  const [promoCode, setPromoCode] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<{
+    code: string;
+    description: string;
+  } | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
+
+  // Trials are only offered to first-time subscribers (create-checkout
+  // checks the same)
+  const isTrialEligible = !subscription;
 
   useEffect(() => {
-    fetchPlans();
+    loadPlans();
   }, []);
 
-  const fetchPlans = async () => {
+  const loadPlans = async () => {
     try {
-      // Use the Supabase client to call the Edge Function
-      const { data, error } = await supabase.functions.invoke(
-        "supabase-functions-get-plans",
-      );
-
-      if (error) {
-        throw error;
-      }
-
-      setPlans(data || []);
+      setPlans(await fetchPlans());
       setError("");
     } catch (error) {
       console.error("Failed to fetch plans:", error);
@@ -71,6 +76,33 @@ export default function PricingSection() {
     }
   };
 
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim()) return;
+    setIsCheckingPromo(true);
+    try {
+      const check = await validatePromoCode(promoCode);
+      if (check.valid) {
+        setAppliedPromo({ code: check.code, description: check.description });
+        setPromoCode("");
+      } else {
+        toast({
+          title: "Code not applied",
+          description: check.reason,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Failed to validate promotion code:", error);
+      toast({
+        title: "Couldn't check that code",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCheckingPromo(false);
+    }
+  };
+
   // Handle checkout process
   const handleCheckout = async (priceId: string) => {
     if (!user) {
@@ -89,16 +121,22 @@ export default function PricingSection() {
     setError("");
 
     try {
+      // The code may be limited to some plans
+      if (appliedPromo) {
+        const check = await validatePromoCode(appliedPromo.code, priceId);
+        if (!check.valid) {
+          setError(check.reason);
+          return;
+        }
+      }
+
       const { data, error } = await supabase.functions.invoke(
         "supabase-functions-create-checkout",
         {
           body: {
             price_id: priceId,
-            user_id: user.id,
-            return_url: `${window.location.origin}/dashboard`,
-          },
-          headers: {
-            "X-Customer-Email": user.email || "",
+            return_url: `${window.location.origin}/success`,
+            promotion_code: appliedPromo?.code,
           },
         },
       );
@@ -121,10 +159,12 @@ export default function PricingSection() {
       }
     } catch (error) {
       console.error("Error creating checkout session:", error);
-      setError("Failed to create checkout session. Please try again.");
+      const reason = await getCheckoutErrorMessage(error);
+      setError(reason ?? "Failed to create checkout session. Please try again.");
       toast({
         title: "Checkout failed",
         description:
+          reason ??
           "There was an error creating your checkout session. Please try again.",
         variant: "destructive",
       });
@@ -134,61 +174,29 @@ export default function PricingSection() {
     }
   };
 
-  // Format currency
-  const formatCurrency = (amount: number, currency: string) => {
-    const formatter = new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: currency.toUpperCase(),
-      minimumFractionDigits: 2,
-    });
-
-    return formatter.format(amount / 100);
-  };
-
-  // Plan features
-  const getPlanFeatures = (planType: string) => {
-    const basicFeatures = [
-      "Core application features",
-      "Basic authentication",
-      "1GB storage",
-      "Community support",
-    ];
-
-    const proFeatures = [
-      ...basicFeatures,
-      "Advanced analytics",
-      "Priority support",
-      "10GB storage",
-      "Custom branding",
-    ];
-
-    const enterpriseFeatures = [
-      ...proFeatures,
-      "Dedicated account manager",
-      "Custom integrations",
-      "Unlimited storage",
-      "SLA guarantees",
-    ];
-
-    if (planType.includes("PRO")) return proFeatures;
-    if (planType.includes("ENTERPRISE")) return enterpriseFeatures;
-    return basicFeatures;
-  };
-
-  // Get plan color based on type
-  const getPlanColor = (planType: string) => {
-    if (planType.includes("ENTERPRISE")) return "emerald";
-    if (planType.includes("PRO")) return "cyan";
+  // Get plan color based on tier
+  const getPlanColor = (tier: PlanTier) => {
+    if (tier === "enterprise") return "emerald";
+    if (tier === "pro") return "cyan";
     return "teal";
   };
 
-  // Get plan icon based on type
-  const getPlanIcon = (planType: string) => {
-    if (planType.includes("ENTERPRISE")) return <Shield className="h-5 w-5" />;
-    if (planType.includes("PRO")) return <CreditCard className="h-5 w-5" />;
+  // Get plan icon based on tier
+  const getPlanIcon = (tier: PlanTier) => {
+    if (tier === "enterprise") return <Shield className="h-5 w-5" />;
+    if (tier === "pro") return <CreditCard className="h-5 w-5" />;
     return <Sparkles className="h-5 w-5" />;
   };
 
+  // The best saving any plan offers for paying yearly, for the switch label
+  const bestAnnualSavings = Math.max(
+    0,
+    ...plans.map((plan) => annualSavingsPercent(plan) ?? 0),
+  );
+  const visiblePlans = plans.filter((plan) =>
+    getPlanPrice(plan, billingInterval),
+  );
+
   return (
     <section className="py-20 md:py-32 relative overflow-hidden">
       <div className="absolute inset-0 bg-gradient-to-b from-slate-50 to-white -z-10" />
@@ -210,6 +218,68 @@ export default function PricingSection() {
           </p>
         </div>
 
+        <div className="flex items-center justify-center gap-3 mb-10">
+          <Label htmlFor="billing-interval" className="text-slate-700">
+            Monthly
+          </Label>
+          <Switch
+            id="billing-interval"
+            checked={billingInterval === "year"}
+            onCheckedChange={(checked) =>
+              setBillingInterval(checked ? "year" : "month")
+            }
+          />
+          <Label htmlFor="billing-interval" className="text-slate-700">
+            Annual
+          </Label>
+          {bestAnnualSavings > 0 && (
+            <Badge className="bg-emerald-100 text-emerald-700 hover:bg-emerald-100 border-none">
+              Save up to {bestAnnualSavings}%
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex flex-col items-center gap-2 mb-10">
+          {appliedPromo ? (
+            <div className="flex items-center gap-2 text-sm text-slate-700">
+              <Tag className="h-4 w-4 text-emerald-600" />
+              <span className="font-medium">{appliedPromo.code}</span>
+              <span className="text-slate-500">
+                · {appliedPromo.description}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-slate-500"
+                onClick={() => setAppliedPromo(null)}
+              >
+                <span className="sr-only">Remove code</span>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Promotion code"
+                className="w-48"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleApplyPromo()}
+              />
+              <Button
+                variant="outline"
+                disabled={!promoCode.trim() || isCheckingPromo}
+                onClick={handleApplyPromo}
+              >
+                {isCheckingPromo && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Apply
+              </Button>
+            </div>
+          )}
+        </div>
+
         {error && (
           <div
             className="bg-rose-50 border border-rose-200 text-rose-700 px-4 py-3 rounded-xl relative mb-6 shadow-sm"
@@ -227,14 +297,21 @@ export default function PricingSection() {
         )}
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {plans.map((plan) => {
-            const planColor = getPlanColor(plan.product);
-            const planIcon = getPlanIcon(plan.product);
+          {visiblePlans.map((plan) => {
+            const planColor = getPlanColor(plan.tier);
+            const planIcon = getPlanIcon(plan.tier);
+            const price = getPlanPrice(plan, billingInterval)!;
+            const savings = annualSavingsPercent(plan);
+            const trialDays = isTrialEligible ? price.trial_days : 0;
 
             return (
               <Card
-                key={plan.id}
-                className="group flex flex-col h-full bg-white/90 backdrop-blur-sm border-slate-100 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 overflow-hidden"
+                key={plan.product_id}
+                className={`group flex flex-col h-full bg-white/90 backdrop-blur-sm rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 overflow-hidden ${
+                  plan.highlighted
+                    ? `border-2 border-${planColor}-400`
+                    : "border-slate-100"
+                }`}
               >
                 <div
                   className={`absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-${planColor}-400 via-${planColor}-500 to-${planColor}-400`}
@@ -247,31 +324,49 @@ export default function PricingSection() {
                       >
                         {planIcon}
                       </div>
-                      {plan.interval_count === 1
-                        ? "Monthly"
-                        : `Every ${plan.interval_count} ${plan.interval}s`}
+                      {billingInterval === "year" ? "Annual" : "Monthly"}
                     </CardDescription>
                     <Badge
                       className={`bg-${planColor}-100 text-${planColor}-700 hover:bg-${planColor}-200 border-none`}
                     >
-                      {plan.product.includes("PRO")
-                        ? "Pro"
-                        : plan.product.includes("ENTERPRISE")
-                          ? "Enterprise"
-                          : "Basic"}
+                      {plan.name}
                     </Badge>
                   </div>
                   <div className="mt-6">
                     <span className="text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-teal-500 via-cyan-500 to-emerald-500">
-                      {formatCurrency(plan.amount, plan.currency)}
+                      {formatCurrency(price.amount, price.currency)}
                     </span>
-                    <span className="text-slate-600">/{plan.interval}</span>
+                    <span className="text-slate-600">/{price.interval}</span>
                   </div>
+                  {billingInterval === "year" && plan.monthly && (
+                    <p className="mt-1 text-sm text-slate-500">
+                      {formatCurrency(
+                        Math.round(price.amount / 12),
+                        price.currency,
+                      )}
+                      /month billed yearly
+                      {savings && (
+                        <span className="ml-1 font-medium text-emerald-600">
+                          · save {savings}%
+                        </span>
+                      )}
+                    </p>
+                  )}
+                  {trialDays > 0 && (
+                    <Badge className="mt-3 bg-amber-100 text-amber-700 hover:bg-amber-100 border-none">
+                      {trialDays}-day free trial
+                    </Badge>
+                  )}
+                  {plan.description && (
+                    <p className="mt-3 text-sm text-slate-600">
+                      {plan.description}
+                    </p>
+                  )}
                 </CardHeader>
                 <CardContent className="flex-grow">
                   <Separator className="my-4 bg-slate-100" />
                   <ul className="space-y-3">
-                    {getPlanFeatures(plan.product).map((feature, index) => (
+                    {plan.features.map((feature, index) => (
                       <li
                         key={index}
                         className="flex items-start text-slate-700"
@@ -291,17 +386,17 @@ export default function PricingSection() {
                 <CardFooter>
                   <Button
                     className={`w-full bg-gradient-to-r from-${planColor}-500 to-${planColor}-600 hover:from-${planColor}-600 hover:to-${planColor}-700 text-white border-none shadow-md hover:shadow-lg transition-all duration-300 rounded-full group-hover:scale-[1.02] transform-gpu`}
-                    onClick={() => handleCheckout(plan.id)}
+                    onClick={() => handleCheckout(price.id)}
                     disabled={isLoading}
                   >
-                    {isLoading && processingPlanId === plan.id ? (
+                    {isLoading && processingPlanId === price.id ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                         Processing...
                       </>
                     ) : (
                       <>
-                        Subscribe Now
+                        {trialDays > 0 ? "Start Free Trial" : "Subscribe Now"}
                         <ChevronRight className="ml-1 h-4 w-4 group-hover:translate-x-0.5 transition-transform" />
                       </>
                     )}
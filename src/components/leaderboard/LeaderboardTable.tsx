@@ -0,0 +1,92 @@
+import { Medal } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { LeaderboardEntry, leaderboardAvatar } from "@/lib/leaderboard";
+import { formatPoints } from "@/lib/points";
+
+const medalColors: Record<number, string> = {
+  1: "text-yellow-500",
+  2: "text-slate-400",
+  3: "text-amber-700",
+};
+
+interface LeaderboardTableProps {
+  entries: LeaderboardEntry[];
+  /** Entries ranked within this many are shown as the top block */
+  topSize: number;
+}
+
+const LeaderboardTable = ({ entries, topSize }: LeaderboardTableProps) => {
+  const top = entries.filter((e) => e.rank !== null && e.rank <= topSize);
+  const viewer = entries.find((e) => e.is_viewer && !top.includes(e));
+
+  const renderRow = (entry: LeaderboardEntry, index: number) => (
+    <TableRow
+      key={index}
+      className={cn(entry.is_viewer && "bg-teal-50 hover:bg-teal-50")}
+    >
+      <TableCell className="w-16 font-medium">
+        {entry.rank === null ? (
+          "—"
+        ) : entry.rank in medalColors ? (
+          <Medal className={cn("h-5 w-5", medalColors[entry.rank])} />
+        ) : (
+          `#${entry.rank}`
+        )}
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-3">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={leaderboardAvatar(entry)} alt={entry.display_name} />
+            <AvatarFallback>{entry.display_name[0]?.toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <span className="font-medium text-gray-800">{entry.display_name}</span>
+          {entry.is_viewer && (
+            <Badge variant="outline" className="text-xs">
+              You
+            </Badge>
+          )}
+        </div>
+      </TableCell>
+      <TableCell className="text-right font-medium">
+        {formatPoints(entry.points)} pts
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Rank</TableHead>
+          <TableHead>Reviewer</TableHead>
+          <TableHead className="text-right">Points</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {top.map(renderRow)}
+        {viewer && (
+          <>
+            <TableRow className="hover:bg-transparent">
+              <TableCell colSpan={3} className="py-1 text-center text-gray-400">
+                ⋯
+              </TableCell>
+            </TableRow>
+            {renderRow(viewer, top.length)}
+          </>
+        )}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default LeaderboardTable;
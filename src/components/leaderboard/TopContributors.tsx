@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { Trophy } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  LeaderboardEntry,
+  fetchLeaderboard,
+  leaderboardAvatar,
+} from "@/lib/leaderboard";
+import { formatPoints } from "@/lib/points";
+
+const TOP_CONTRIBUTORS = 4;
+
+/** This month's top reviewers, for the landing page. */
+const TopContributors = () => {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+
+  useEffect(() => {
+    fetchLeaderboard({ window: "month", limit: TOP_CONTRIBUTORS })
+      .then((data) =>
+        // Signed-in visitors also get their own row back; keep the top only
+        setEntries(data.filter((e) => e.rank !== null && e.rank <= TOP_CONTRIBUTORS)),
+      )
+      .catch((error) => console.error("Failed to load top contributors:", error));
+  }, []);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-center gap-2 mb-6 text-slate-700">
+        <Trophy className="h-5 w-5 text-amber-500" />
+        <h3 className="text-lg font-semibold">Top contributors this month</h3>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6 md:gap-8">
+        {entries.map((entry, index) => (
+          <Card
+            key={index}
+            className="bg-white/80 backdrop-blur-sm border-slate-100 rounded-xl shadow-md hover:shadow-lg transition-all duration-300"
+          >
+            <CardContent className="p-6 flex flex-col items-center text-center">
+              <Avatar className="w-12 h-12 mb-4">
+                <AvatarImage src={leaderboardAvatar(entry)} alt={entry.display_name} />
+                <AvatarFallback>
+                  {entry.display_name[0]?.toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-teal-500 via-cyan-500 to-emerald-500">
+                {formatPoints(entry.points)}
+              </div>
+              <div className="text-sm text-slate-600 mt-1">
+                #{entry.rank} · {entry.display_name}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TopContributors;
@@ -0,0 +1,370 @@
+import { useEffect, useState } from "react";
+import { Loader2, RotateCcw } from "lucide-react";
+import DashboardLayout from "../dashboard/layout/DashboardLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  WEBHOOK_EVENT_PAGE_SIZE,
+  WebhookEvent,
+  WebhookEventFilters,
+  fetchWebhookEvents,
+  replayWebhookEvent,
+  webhookEventStatuses,
+  webhookEventTypes,
+} from "@/lib/webhook-events";
+
+// Select items can't have an empty value
+const ALL = "all";
+
+const statusVariants: Record<string, "secondary" | "destructive" | "outline"> =
+  {
+    succeeded: "secondary",
+    failed: "destructive",
+  };
+
+const formatTimestamp = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "–";
+
+export default function AdminWebhooksPage() {
+  const { toast } = useToast();
+
+  const [filters, setFilters] = useState<WebhookEventFilters>({});
+  const [page, setPage] = useState(0);
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<WebhookEvent | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchWebhookEvents(filters, page)
+      .then((result) => {
+        setEvents(result.events);
+        setTotal(result.total);
+      })
+      .catch((error) => {
+        console.error("Failed to load webhook events:", error);
+        toast({
+          title: "Couldn't load webhook events",
+          description: "Please refresh the page to try again.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [filters, page]);
+
+  const updateFilters = (changes: WebhookEventFilters) => {
+    setFilters((current) => ({ ...current, ...changes }));
+    setPage(0);
+  };
+
+  const handleReplay = async (event: WebhookEvent) => {
+    setIsReplaying(true);
+    try {
+      const { result, event: updated } = await replayWebhookEvent(event.id);
+      setEvents((current) =>
+        current.map((e) => (e.id === updated.id ? updated : e)),
+      );
+      setSelected(updated);
+
+      if (updated.processing_status === "succeeded") {
+        toast({ title: "Event replayed", description: result?.message });
+      } else {
+        toast({
+          title: "Replay failed",
+          description: result?.error ?? updated.last_error ?? undefined,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Failed to replay webhook event:", error);
+      toast({
+        title: "Couldn't replay event",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / WEBHOOK_EVENT_PAGE_SIZE));
+  const hasMore = page + 1 < pageCount;
+
+  return (
+    <DashboardLayout activeItem="Webhooks">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Webhook events</h1>
+        <p className="text-gray-600">
+          Stripe events received by the payments webhook.
+        </p>
+      </div>
+
+      <div className="mb-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        <div className="space-y-1.5">
+          <Label>Type</Label>
+          <Select
+            value={filters.type ?? ALL}
+            onValueChange={(value) =>
+              updateFilters({ type: value === ALL ? undefined : value })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              {webhookEventTypes.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {type}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="event-type">Event type</Label>
+          <Input
+            id="event-type"
+            placeholder="e.g. payment_failed"
+            value={filters.eventType ?? ""}
+            onChange={(e) =>
+              updateFilters({ eventType: e.target.value.trim() || undefined })
+            }
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label>Status</Label>
+          <Select
+            value={filters.status ?? ALL}
+            onValueChange={(value) =>
+              updateFilters({ status: value === ALL ? undefined : value })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+              {webhookEventStatuses.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {status}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="from">From</Label>
+          <Input
+            id="from"
+            type="date"
+            value={filters.from ?? ""}
+            onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="to">To</Label>
+          <Input
+            id="to"
+            type="date"
+            value={filters.to ?? ""}
+            onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-gray-200">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Received</TableHead>
+              <TableHead>Event type</TableHead>
+              <TableHead>Stripe event</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Attempts</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="py-8 text-center text-gray-500">
+                  <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : events.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="py-8 text-center text-sm text-gray-500">
+                  No events match these filters.
+                </TableCell>
+              </TableRow>
+            ) : (
+              events.map((event) => (
+                <TableRow
+                  key={event.id}
+                  className="cursor-pointer"
+                  onClick={() => setSelected(event)}
+                >
+                  <TableCell className="text-gray-500">
+                    {formatTimestamp(event.created_at)}
+                  </TableCell>
+                  <TableCell className="font-medium text-gray-800">
+                    {event.event_type}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs text-gray-500">
+                    {event.stripe_event_id ?? "–"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[event.processing_status] ?? "outline"}>
+                      {event.processing_status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right text-gray-700">
+                    {event.attempts}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageCount > 1 && (
+        <Pagination className="mt-4 justify-end">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-disabled={page === 0}
+                className={page === 0 ? "pointer-events-none opacity-50" : ""}
+                onClick={(e) => {
+                  e.preventDefault();
+                  if (page > 0) setPage((p) => p - 1);
+                }}
+              />
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationLink href="#" isActive onClick={(e) => e.preventDefault()}>
+                {page + 1} / {pageCount}
+              </PaginationLink>
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-disabled={!hasMore}
+                className={!hasMore ? "pointer-events-none opacity-50" : ""}
+                onClick={(e) => {
+                  e.preventDefault();
+                  if (hasMore) setPage((p) => p + 1);
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.event_type}</DialogTitle>
+                <DialogDescription className="font-mono text-xs">
+                  {selected.stripe_event_id}
+                </DialogDescription>
+              </DialogHeader>
+
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                <dt className="text-gray-500">Status</dt>
+                <dd>{selected.processing_status}</dd>
+                <dt className="text-gray-500">Attempts</dt>
+                <dd>{selected.attempts}</dd>
+                <dt className="text-gray-500">Stripe created</dt>
+                <dd>{formatTimestamp(selected.event_created_at)}</dd>
+                <dt className="text-gray-500">Processed</dt>
+                <dd>{formatTimestamp(selected.processed_at)}</dd>
+                {selected.skip_reason && (
+                  <>
+                    <dt className="text-gray-500">Skipped</dt>
+                    <dd>{selected.skip_reason}</dd>
+                  </>
+                )}
+                {selected.last_replayed_at && (
+                  <>
+                    <dt className="text-gray-500">Last replayed</dt>
+                    <dd>
+                      {formatTimestamp(selected.last_replayed_at)} (
+                      {selected.replay_count}×)
+                    </dd>
+                  </>
+                )}
+              </dl>
+
+              {selected.last_error && (
+                <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+                  {selected.last_error}
+                </p>
+              )}
+
+              <pre className="max-h-[400px] overflow-auto rounded-md bg-gray-50 p-3 text-xs text-gray-800">
+                {JSON.stringify(selected.data, null, 2)}
+              </pre>
+
+              {selected.processing_status === "failed" && (
+                <DialogFooter>
+                  <Button
+                    className="gap-2"
+                    disabled={isReplaying}
+                    onClick={() => handleReplay(selected)}
+                  >
+                    {isReplaying ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4" />
+                    )}
+                    Replay event
+                  </Button>
+                </DialogFooter>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
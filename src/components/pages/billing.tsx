@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import {
+  CalendarClock,
+  CreditCard,
+  ExternalLink,
+  Loader2,
+  Receipt,
+} from "lucide-react";
+import { Link } from "react-router-dom";
+import DashboardLayout from "../dashboard/layout/DashboardLayout";
+import PricingSection from "../home/PricingSection";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "../../../supabase/auth";
+import { useEntitlements } from "../../../supabase/entitlements";
+import { formatLimit } from "@/lib/entitlements";
+import { PaymentFailure, fetchPaymentFailures } from "@/lib/dunning";
+import {
+  Plan,
+  Subscription,
+  createPortalSession,
+  fetchCurrentSubscription,
+  fetchPlans,
+  findPlanByPrice,
+  formatCurrency,
+  formatStripeDate,
+  getSubscriptionStatusLabel,
+  trialDaysRemaining,
+} from "@/lib/billing";
+
+// Statuses where the subscription still needs the customer's attention
+const attentionStatuses = ["past_due", "unpaid", "incomplete"];
+
+export default function BillingPage() {
+  const { user } = useAuth();
+  const { entitlements } = useEntitlements();
+  const { toast } = useToast();
+
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOpeningPortal, setIsOpeningPortal] = useState(false);
+  const [failures, setFailures] = useState<PaymentFailure[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchCurrentSubscription(user.id)
+      .then(async (current) => {
+        setSubscription(current);
+        if (!current?.price_id) return;
+        // The plan name isn't stored locally; failing to load it is cosmetic
+        const plans = await fetchPlans().catch((error) => {
+          console.error("Failed to load plans:", error);
+          return [];
+        });
+        setPlan(findPlanByPrice(plans, current.price_id));
+      })
+      .catch((error) => {
+        console.error("Failed to load subscription:", error);
+        toast({
+          title: "Couldn't load billing details",
+          description: "Please refresh the page to try again.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [user]);
+
+  const handleManageBilling = async () => {
+    setIsOpeningPortal(true);
+    try {
+      window.location.href = await createPortalSession(window.location.href);
+    } catch (error) {
+      console.error("Failed to open billing portal:", error);
+      toast({
+        title: "Couldn't open billing portal",
+        description: "Please try again in a moment.",
+        variant: "destructive",
+      });
+      setIsOpeningPortal(false);
+    }
+  };
+
+  const needsAttention = attentionStatuses.includes(subscription?.status ?? "");
+
+  // Failed attempts of the current dunning run
+  useEffect(() => {
+    if (!user || !needsAttention) return;
+    fetchPaymentFailures(user.id)
+      .then((recent) =>
+        setFailures(
+          recent.filter(
+            (failure) =>
+              failure.stripe_subscription_id === subscription?.stripe_id &&
+              (!subscription?.past_due_since ||
+                new Date(failure.created_at) >=
+                  new Date(subscription.past_due_since)),
+          ),
+        ),
+      )
+      .catch((error) =>
+        console.error("Failed to load payment failures:", error),
+      );
+  }, [user, needsAttention, subscription?.stripe_id]);
+
+  const isEnded = subscription?.status === "canceled";
+
+  return (
+    <DashboardLayout activeItem="Billing">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Billing</h1>
+        <p className="text-gray-600">
+          Manage your plan, payment method and subscription.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : !subscription ? (
+        <>
+          <Card className="max-w-2xl border border-gray-200 shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-base font-medium">
+                No subscription
+              </CardTitle>
+              <CardDescription>
+                You're on the free plan. Pick a plan below to unlock more
+                features.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+          <PricingSection />
+        </>
+      ) : (
+        <Card className="max-w-2xl border border-gray-200 shadow-sm">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1">
+              <CardDescription>Current plan</CardDescription>
+              <CardTitle className="text-xl">
+                {plan?.name ?? "Subscription"}
+              </CardTitle>
+              {subscription.amount !== null && subscription.currency && (
+                <p className="text-sm text-gray-600">
+                  {formatCurrency(subscription.amount, subscription.currency)}
+                  {subscription.interval && ` / ${subscription.interval}`}
+                </p>
+              )}
+            </div>
+            <Badge
+              variant={
+                needsAttention
+                  ? "destructive"
+                  : "secondary"
+              }
+            >
+              {getSubscriptionStatusLabel(subscription.status)}
+            </Badge>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm text-gray-600">
+            {subscription.status === "trialing" && subscription.trial_end && (
+              <div className="flex items-center gap-2">
+                <CalendarClock className="h-4 w-4 text-gray-400" />
+                <span>
+                  Free trial ends on{" "}
+                  <span className="font-medium text-gray-800">
+                    {formatStripeDate(subscription.trial_end)}
+                  </span>{" "}
+                  ({trialDaysRemaining(subscription.trial_end)}{" "}
+                  {trialDaysRemaining(subscription.trial_end) === 1
+                    ? "day"
+                    : "days"}{" "}
+                  left)
+                </span>
+              </div>
+            )}
+            {subscription.current_period_end && !isEnded && (
+              <div className="flex items-center gap-2">
+                <CalendarClock className="h-4 w-4 text-gray-400" />
+                {subscription.cancel_at_period_end ? (
+                  <span>
+                    Cancels on{" "}
+                    <span className="font-medium text-gray-800">
+                      {formatStripeDate(subscription.current_period_end)}
+                    </span>
+                    . You keep access until then.
+                  </span>
+                ) : (
+                  <span>
+                    Renews on{" "}
+                    <span className="font-medium text-gray-800">
+                      {formatStripeDate(subscription.current_period_end)}
+                    </span>
+                  </span>
+                )}
+              </div>
+            )}
+            {isEnded && subscription.ended_at && (
+              <div className="flex items-center gap-2">
+                <CalendarClock className="h-4 w-4 text-gray-400" />
+                Ended on {formatStripeDate(subscription.ended_at)}
+              </div>
+            )}
+            <p>
+              Includes {formatLimit(entitlements.maxActiveProjects)} active
+              projects, {formatLimit(entitlements.feedbackRequestsPerMonth)}{" "}
+              feedback requests and {entitlements.boostCreditsPerMonth} boost
+              credits a month.
+            </p>
+            {needsAttention && (
+              <div className="space-y-2 rounded-lg bg-rose-50 p-3 text-rose-700">
+                <p>
+                  Your last payment didn't go through. Update your card to keep
+                  your subscription.
+                </p>
+                {failures.length > 0 && (
+                  <ul className="space-y-1 text-xs">
+                    {failures.map((failure) => (
+                      <li key={failure.id}>
+                        Attempt {failure.attempt_count} on{" "}
+                        {new Date(failure.created_at).toLocaleDateString()}:{" "}
+                        {formatCurrency(failure.amount_due, failure.currency)}
+                        {failure.failure_message &&
+                          ` · ${failure.failure_message}`}
+                        {failure.next_payment_attempt &&
+                          ` · retrying ${formatStripeDate(failure.next_payment_attempt)}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CardContent>
+          <CardFooter className="gap-3">
+            <Button
+              className="gap-2"
+              disabled={isOpeningPortal}
+              onClick={handleManageBilling}
+            >
+              {isOpeningPortal ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <CreditCard className="h-4 w-4" />
+              )}
+              Manage billing
+              <ExternalLink className="h-3.5 w-3.5" />
+            </Button>
+            <Button variant="outline" className="gap-2" asChild>
+              <Link to="/dashboard/invoices">
+                <Receipt className="h-4 w-4" />
+                Invoices
+              </Link>
+            </Button>
+            <span className="text-xs text-gray-500">
+              Change plan, cancel or update your card on Stripe.
+            </span>
+          </CardFooter>
+        </Card>
+      )}
+    </DashboardLayout>
+  );
+}
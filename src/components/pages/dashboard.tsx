@@ -1,37 +1,24 @@
 import React from "react";
-import TopNavigation from "../dashboard/layout/TopNavigation";
-import Sidebar from "../dashboard/layout/Sidebar";
+import DashboardLayout from "../dashboard/layout/DashboardLayout";
 import DashboardGrid from "../dashboard/DashboardGrid";
 import TaskBoard from "../dashboard/TaskBoard";
 import ActivityFeed from "../dashboard/ActivityFeed";
+import StreakCard from "../dashboard/StreakCard";
 
 const Dashboard = () => {
   return (
-    <div className="min-h-screen bg-white">
-      <TopNavigation />
-      
-      <div className="flex pt-16">
-        <Sidebar />
-        
-        <main className="flex-1 overflow-auto p-6">
-          <div className="mb-6">
-            <h1 className="text-2xl font-bold text-gray-800">Welcome to Your Dashboard</h1>
-            <p className="text-gray-600">Manage your projects and tasks efficiently.</p>
-          </div>
-          
-          <div className="space-y-8">
-            <DashboardGrid />
-            <TaskBoard />
-          </div>
-        </main>
-        
-        <div className="w-[280px] border-l border-gray-200 bg-white">
-          <div className="p-4">
-            <ActivityFeed />
-          </div>
-        </div>
+    <DashboardLayout activeItem="Dashboard" aside={<ActivityFeed />}>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Welcome to Your Dashboard</h1>
+        <p className="text-gray-600">Manage your projects and tasks efficiently.</p>
       </div>
-    </div>
+
+      <div className="space-y-8">
+        <StreakCard />
+        <DashboardGrid />
+        <TaskBoard />
+      </div>
+    </DashboardLayout>
   );
 };
 
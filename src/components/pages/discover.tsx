@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { Compass, Loader2 } from "lucide-react";
+import DashboardLayout from "../dashboard/layout/DashboardLayout";
+import ProjectCard from "../projects/ProjectCard";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "../../../supabase/auth";
+import {
+  DiscoverableProject,
+  fetchDiscoverableProjects,
+} from "@/lib/projects";
+
+export default function DiscoverPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [projects, setProjects] = useState<DiscoverableProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchDiscoverableProjects(user.id)
+      .then(setProjects)
+      .catch((error) => {
+        console.error("Failed to load projects:", error);
+        toast({
+          title: "Couldn't load projects",
+          description: "Please refresh the page to try again.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [user]);
+
+  return (
+    <DashboardLayout activeItem="Discover">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Discover</h1>
+        <p className="text-gray-600">
+          Discover interesting websites and startup ideas to review.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : projects.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center text-gray-500">
+          <Compass className="h-10 w-10 mb-3 text-gray-300" />
+          <p className="text-sm">No projects are waiting for review right now.</p>
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {projects.map((project) => (
+            <ProjectCard
+              key={project.id}
+              project={project}
+              showActions={false}
+              boostedUntil={project.boosted_until}
+            />
+          ))}
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
@@ -35,7 +35,6 @@ import {
   Palette,
   Upload,
   MessageSquare,
-  Eye,
   Users,
   TrendingUp,
   Award,
@@ -64,6 +63,7 @@ import { Separator } from "@/components/ui/separator";
 import { Toaster } from "@/components/ui/toaster";
 import PricingSection from "../home/PricingSection";
 import TestimonialCarousel from "../home/TestimonialCarousel";
+import TopContributors from "../leaderboard/TopContributors";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { useState } from "react";
@@ -248,30 +248,6 @@ export default function LandingPage() {
     },
   ];
 
-  // Stats
-  const stats = [
-    {
-      value: "10,000+",
-      label: "Active Users",
-      icon: <Users className="h-5 w-5 text-teal-500" />,
-    },
-    {
-      value: "50,000+",
-      label: "Projects Reviewed",
-      icon: <Eye className="h-5 w-5 text-cyan-500" />,
-    },
-    {
-      value: "250,000+",
-      label: "Feedback Provided",
-      icon: <MessageSquare className="h-5 w-5 text-emerald-500" />,
-    },
-    {
-      value: "95%",
-      label: "Satisfaction Rate",
-      icon: <Heart className="h-5 w-5 text-rose-400" />,
-    },
-  ];
-
   return (
     <div className="min-h-screen bg-[#FAFBFF]">
       {/* Decorative elements */}
@@ -603,30 +579,11 @@ export default function LandingPage() {
           </div>
         </section>
 
-        {/* Stats Section */}
+        {/* Top Contributors Section */}
         <section className="py-12 md:py-16 relative overflow-hidden">
           <div className="absolute inset-0 bg-gradient-to-b from-[#FAFBFF] to-slate-50 -z-10" />
           <div className="container px-4 mx-auto">
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-6 md:gap-8">
-              {stats.map((stat, index) => (
-                <Card
-                  key={index}
-                  className="bg-white/80 backdrop-blur-sm border-slate-100 rounded-xl shadow-md hover:shadow-lg transition-all duration-300"
-                >
-                  <CardContent className="p-6 flex flex-col items-center text-center">
-                    <div className="w-12 h-12 rounded-full bg-slate-50 flex items-center justify-center mb-4">
-                      {stat.icon}
-                    </div>
-                    <div className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-teal-500 via-cyan-500 to-emerald-500">
-                      {stat.value}
-                    </div>
-                    <div className="text-sm text-slate-600 mt-1">
-                      {stat.label}
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+            <TopContributors />
           </div>
         </section>
 
@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { Download, ExternalLink, FileText, Loader2 } from "lucide-react";
+import DashboardLayout from "../dashboard/layout/DashboardLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { formatCurrency, formatStripeDate } from "@/lib/billing";
+import {
+  Invoice,
+  fetchAllInvoices,
+  fetchInvoices,
+  getInvoiceStatusLabel,
+  invoicesToCsv,
+} from "@/lib/invoices";
+
+const statusVariants: Record<string, "secondary" | "destructive" | "outline"> =
+  {
+    paid: "secondary",
+    open: "outline",
+    uncollectible: "destructive",
+  };
+
+export default function InvoicesPage() {
+  const { toast } = useToast();
+
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  // Stripe pages by cursor: cursors[i] is what page i starts after
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchInvoices(cursors[page])
+      .then((result) => {
+        setInvoices(result.invoices);
+        setHasMore(result.has_more);
+        setNextCursor(result.next_cursor);
+      })
+      .catch((error) => {
+        console.error("Failed to load invoices:", error);
+        toast({
+          title: "Couldn't load invoices",
+          description: "Please refresh the page to try again.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [page]);
+
+  const goToNextPage = () => {
+    if (!hasMore || !nextCursor) return;
+    setCursors((current) => [...current.slice(0, page + 1), nextCursor]);
+    setPage((p) => p + 1);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const csv = invoicesToCsv(await fetchAllInvoices());
+      const url = URL.createObjectURL(
+        new Blob([csv], { type: "text/csv;charset=utf-8" }),
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `invoices-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export invoices:", error);
+      toast({ title: "Couldn't export invoices", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DashboardLayout activeItem="Invoices">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Invoices</h1>
+          <p className="text-gray-600">
+            Receipts for your subscription and credit pack purchases.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          className="gap-2"
+          disabled={isExporting || (invoices.length === 0 && page === 0)}
+          onClick={handleExport}
+        >
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="rounded-lg border border-gray-200">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Number</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">Download</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-8 text-center text-gray-500">
+                  <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : invoices.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-8 text-center text-sm text-gray-500">
+                  No invoices yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              invoices.map((invoice) => (
+                <TableRow key={invoice.id}>
+                  <TableCell className="font-medium text-gray-800">
+                    {invoice.number ?? "–"}
+                  </TableCell>
+                  <TableCell className="text-gray-500">
+                    {formatStripeDate(invoice.created)}
+                  </TableCell>
+                  <TableCell className="text-gray-700">
+                    {invoice.description ?? "–"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[invoice.status ?? ""] ?? "outline"}>
+                      {getInvoiceStatusLabel(invoice.status)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right text-gray-700">
+                    {formatCurrency(invoice.total, invoice.currency)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      {invoice.hosted_invoice_url && (
+                        <Button variant="ghost" size="sm" asChild>
+                          <a
+                            href={invoice.hosted_invoice_url}
+                            target="_blank"
+                            rel="noreferrer"
+                          >
+                            <ExternalLink className="mr-1 h-3.5 w-3.5" />
+                            View
+                          </a>
+                        </Button>
+                      )}
+                      {invoice.invoice_pdf && (
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={invoice.invoice_pdf} target="_blank" rel="noreferrer">
+                            <FileText className="mr-1 h-3.5 w-3.5" />
+                            PDF
+                          </a>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {(page > 0 || hasMore) && (
+        <Pagination className="mt-4 justify-end">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-disabled={page === 0}
+                className={page === 0 ? "pointer-events-none opacity-50" : ""}
+                onClick={(e) => {
+                  e.preventDefault();
+                  if (page > 0) setPage((p) => p - 1);
+                }}
+              />
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationLink href="#" isActive onClick={(e) => e.preventDefault()}>
+                {page + 1}
+              </PaginationLink>
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-disabled={!hasMore}
+                className={!hasMore ? "pointer-events-none opacity-50" : ""}
+                onClick={(e) => {
+                  e.preventDefault();
+                  goToNextPage();
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </DashboardLayout>
+  );
+}
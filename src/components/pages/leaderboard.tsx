@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Loader2, Trophy } from "lucide-react";
+import DashboardLayout from "../dashboard/layout/DashboardLayout";
+import LeaderboardTable from "../leaderboard/LeaderboardTable";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  LEADERBOARD_SIZE,
+  LeaderboardEntry,
+  LeaderboardWindow,
+  fetchLeaderboard,
+  leaderboardWindows,
+} from "@/lib/leaderboard";
+import { projectCategories } from "@/lib/projects";
+
+const ALL_CATEGORIES = "all";
+
+export default function LeaderboardPage() {
+  const { toast } = useToast();
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("week");
+  const [category, setCategory] = useState<string>(ALL_CATEGORIES);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchLeaderboard({
+      window: timeWindow,
+      category: category === ALL_CATEGORIES ? null : category,
+    })
+      .then(setEntries)
+      .catch((error) => {
+        console.error("Failed to load leaderboard:", error);
+        toast({ title: "Couldn't load leaderboard", variant: "destructive" });
+      })
+      .finally(() => setIsLoading(false));
+  }, [timeWindow, category]);
+
+  const viewer = entries.find((e) => e.is_viewer);
+
+  return (
+    <DashboardLayout activeItem="Leaderboard">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">Leaderboard</h1>
+        <p className="text-gray-600">
+          Top reviewers by points earned from rated feedback and streaks.
+        </p>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <Tabs
+          value={timeWindow}
+          onValueChange={(value) => setTimeWindow(value as LeaderboardWindow)}
+        >
+          <TabsList>
+            {leaderboardWindows.map((option) => (
+              <TabsTrigger key={option.value} value={option.value}>
+                {option.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+            {projectCategories.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="border border-gray-200 shadow-sm">
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center py-12 text-gray-500">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center text-gray-500">
+              <Trophy className="h-10 w-10 mb-3 text-gray-300" />
+              <p className="text-sm">No points earned in this period yet.</p>
+            </div>
+          ) : (
+            <LeaderboardTable entries={entries} topSize={LEADERBOARD_SIZE} />
+          )}
+        </CardContent>
+      </Card>
+
+      {viewer && viewer.rank === null && (
+        <p className="mt-4 text-sm text-gray-500">
+          You're hidden from public rankings. You can change this on your
+          profile.
+        </p>
+      )}
+    </DashboardLayout>
+  );
+}
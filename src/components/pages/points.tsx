@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { Coins, Loader2, TrendingDown, TrendingUp } from "lucide-react";
+import DashboardLayout from "../dashboard/layout/DashboardLayout";
+import CreditPacksCard from "../points/CreditPacksCard";
+import CreditPurchaseHistory from "../points/CreditPurchaseHistory";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "../../../supabase/auth";
+import {
+  POINT_HISTORY_PAGE_SIZE,
+  PointTransaction,
+  fetchPointBalance,
+  fetchPointTransactions,
+  formatPoints,
+  getPointReasonLabel,
+} from "@/lib/points";
+
+export default function PointsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [balance, setBalance] = useState<number | null>(null);
+  const [transactions, setTransactions] = useState<PointTransaction[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const pageCount = Math.max(1, Math.ceil(total / POINT_HISTORY_PAGE_SIZE));
+
+  useEffect(() => {
+    if (!user) return;
+    fetchPointBalance()
+      .then(setBalance)
+      .catch((error) => console.error("Failed to load balance:", error));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    setIsLoading(true);
+    fetchPointTransactions(user.id, page)
+      .then(({ transactions, total }) => {
+        setTransactions(transactions);
+        setTotal(total);
+      })
+      .catch((error) => {
+        console.error("Failed to load point history:", error);
+        toast({
+          title: "Couldn't load point history",
+          description: "Please refresh the page to try again.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [user, page]);
+
+  return (
+    <DashboardLayout activeItem="Points">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">My points</h1>
+        <p className="text-gray-600">
+          Earn points for helpful feedback and spend them to boost your own
+          projects.
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3 mb-8">
+        <Card className="border border-gray-200 shadow-sm">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Balance</CardTitle>
+            <Coins className="h-4 w-4 text-gray-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {balance === null ? "–" : formatPoints(balance)}
+            </div>
+            <p className="text-xs text-gray-500">Points available to spend</p>
+          </CardContent>
+        </Card>
+        <CreditPacksCard />
+      </div>
+
+      <h2 className="text-lg font-semibold text-gray-800 mb-3">History</h2>
+      <div className="rounded-lg border border-gray-200">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="py-8 text-center text-gray-500">
+                  <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : transactions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="py-8 text-center text-sm text-gray-500">
+                  No points activity yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              transactions.map((transaction) => (
+                <TableRow key={transaction.id}>
+                  <TableCell className="text-gray-500">
+                    {new Date(transaction.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium text-gray-800">
+                      {getPointReasonLabel(transaction.reason)}
+                    </div>
+                    {transaction.description && (
+                      <div className="text-xs text-gray-500">
+                        {transaction.description}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right font-medium ${
+                      transaction.amount > 0 ? "text-emerald-600" : "text-rose-600"
+                    }`}
+                  >
+                    <span className="inline-flex items-center gap-1">
+                      {transaction.amount > 0 ? (
+                        <TrendingUp className="h-3.5 w-3.5" />
+                      ) : (
+                        <TrendingDown className="h-3.5 w-3.5" />
+                      )}
+                      {transaction.amount > 0 ? "+" : ""}
+                      {formatPoints(transaction.amount)}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right text-gray-700">
+                    {formatPoints(transaction.balance_after)}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="mt-4 flex items-center justify-end gap-2 text-sm text-gray-600">
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page === 0}
+            onClick={() => setPage((p) => p - 1)}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page + 1 >= pageCount}
+            onClick={() => setPage((p) => p + 1)}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+
+      <CreditPurchaseHistory />
+    </DashboardLayout>
+  );
+}
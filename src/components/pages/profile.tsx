@@ -0,0 +1,12 @@
+import DashboardLayout from "../dashboard/layout/DashboardLayout";
+import { UserProfile } from "../dashboard/UserProfile";
+
+export default function ProfilePage() {
+  return (
+    <DashboardLayout activeItem="Profile">
+      <div className="mx-auto max-w-3xl">
+        <UserProfile />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,407 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, ExternalLink, ImagePlus, Loader2 } from "lucide-react";
+import DashboardLayout from "../dashboard/layout/DashboardLayout";
+import AnnotationEditor from "../feedback/AnnotationEditor";
+import AnnotationOverlay from "../feedback/AnnotationOverlay";
+import FeedbackCard from "../feedback/FeedbackCard";
+import FeedbackComparisonTable from "../feedback/FeedbackComparisonTable";
+import FeedbackForm, { FeedbackFormSubmission } from "../feedback/FeedbackForm";
+import ProjectBoostCard from "../projects/ProjectBoostCard";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "../../../supabase/auth";
+import {
+  Project,
+  fetchProject,
+  getCategoryLabel,
+  getStageLabel,
+  uploadProjectScreenshot,
+} from "@/lib/projects";
+import {
+  AnnotationDraft,
+  FeedbackAnnotation,
+  fetchProjectAnnotations,
+  saveReviewerAnnotations,
+  toDraft,
+} from "@/lib/annotations";
+import {
+  DimensionAverage,
+  FeedbackWithScores,
+  fetchDimensionAverages,
+  fetchProjectFeedback,
+  parseRubric,
+  rateFeedback,
+  recordFeedbackActivity,
+  submitFeedback,
+} from "@/lib/feedback";
+import type { BadgeDefinition } from "@/lib/badges";
+
+export default function ProjectDetailPage() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [project, setProject] = useState<Project | null>(null);
+  const [annotations, setAnnotations] = useState<FeedbackAnnotation[]>([]);
+  const [drafts, setDrafts] = useState<AnnotationDraft[]>([]);
+  const [feedback, setFeedback] = useState<FeedbackWithScores[]>([]);
+  const [averages, setAverages] = useState<DimensionAverage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const isOwner = Boolean(project && user && project.user_id === user.id);
+  const rubric = parseRubric(project?.rubric_dimensions);
+  const myFeedback = feedback.find((f) => f.user_id === user?.id);
+
+  useEffect(() => {
+    if (!projectId || !user) return;
+    loadProject(projectId);
+  }, [projectId, user]);
+
+  const loadProject = async (id: string) => {
+    setIsLoading(true);
+    try {
+      const [loadedProject, loadedAnnotations, loadedFeedback, loadedAverages] =
+        await Promise.all([
+          fetchProject(id),
+          fetchProjectAnnotations(id),
+          fetchProjectFeedback(id),
+          fetchDimensionAverages(id),
+        ]);
+      setProject(loadedProject);
+      setAnnotations(loadedAnnotations);
+      setFeedback(loadedFeedback);
+      setAverages(loadedAverages);
+      setDrafts(
+        loadedAnnotations
+          .filter(
+            (a) =>
+              a.user_id === user!.id &&
+              !a.feedback_id &&
+              a.image_url === loadedProject?.screenshot_url,
+          )
+          .map(toDraft),
+      );
+    } catch (error) {
+      console.error("Failed to load project:", error);
+      toast({
+        title: "Couldn't load project",
+        description: "Please refresh the page to try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleScreenshotSelected = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !project) return;
+
+    setIsUploading(true);
+    try {
+      setProject(await uploadProjectScreenshot(user!.id, project.id, file));
+      toast({ title: "Screenshot uploaded" });
+    } catch (error) {
+      console.error("Failed to upload screenshot:", error);
+      toast({ title: "Couldn't upload screenshot", variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const announceBadges = (badges: BadgeDefinition[]) => {
+    badges.forEach((badge) =>
+      toast({
+        title: `Badge unlocked: ${badge.name}`,
+        description: badge.description,
+      }),
+    );
+  };
+
+  const handleSubmitFeedback = async (values: FeedbackFormSubmission) => {
+    if (!project) return;
+
+    try {
+      // Annotations are stored first so the submission can claim them
+      const savedAnnotations = project.screenshot_url
+        ? await saveReviewerAnnotations(
+            project.id,
+            project.screenshot_url,
+            drafts,
+          )
+        : [];
+
+      await submitFeedback({
+        projectId: project.id,
+        ...values,
+        annotationIds: savedAnnotations.map((a) => a.id),
+      });
+      toast({
+        title: "Feedback submitted",
+        description: "Thanks! The creator has been sent your review.",
+      });
+      recordFeedbackActivity()
+        .then(({ badges, streak }) => {
+          if (streak?.milestone) {
+            toast({
+              title: `🔥 ${streak.milestone.days}-day streak!`,
+              description: `You earned ${streak.bonus} bonus points (×${streak.milestone.multiplier}).`,
+            });
+          }
+          announceBadges(badges);
+        })
+        .catch((error) =>
+          console.error("Failed to record feedback activity:", error),
+        );
+      await loadProject(project.id);
+    } catch (error) {
+      console.error("Failed to submit feedback:", error);
+      toast({
+        title: "Couldn't submit feedback",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRateFeedback = async (
+    item: FeedbackWithScores,
+    helpful: boolean,
+  ) => {
+    try {
+      const {
+        feedback: rated,
+        points,
+        badges,
+      } = await rateFeedback(item.id, helpful);
+      setFeedback((current) =>
+        current.map((f) => (f.id === rated.id ? { ...f, ...rated } : f)),
+      );
+      toast({
+        title: "Thanks for rating",
+        description:
+          points > 0
+            ? `The reviewer earned ${points} points.`
+            : "Your rating helps reviewers improve.",
+      });
+      announceBadges(badges ?? []);
+    } catch (error) {
+      console.error("Failed to rate feedback:", error);
+      toast({ title: "Couldn't save rating", variant: "destructive" });
+    }
+  };
+
+  const countAnnotations = (feedbackId: string) =>
+    annotations.filter((a) => a.feedback_id === feedbackId).length;
+
+  if (isLoading) {
+    return (
+      <DashboardLayout activeItem="Projects">
+        <div className="flex justify-center py-12 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!project) {
+    return (
+      <DashboardLayout activeItem="Projects">
+        <p className="text-gray-600">
+          This project doesn't exist or isn't shared with you.
+        </p>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout activeItem={isOwner ? "Projects" : "Discover"}>
+      <Link
+        to={isOwner ? "/dashboard/projects" : "/dashboard/discover"}
+        className="mb-4 inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back
+      </Link>
+
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold text-gray-800">{project.title}</h1>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className="text-xs bg-gray-50">
+              {getCategoryLabel(project.category)}
+            </Badge>
+            <Badge variant="outline" className="text-xs bg-gray-50">
+              {getStageLabel(project.stage)}
+            </Badge>
+            {project.url && (
+              <a
+                href={project.url}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-1 text-sm text-gray-500 hover:text-teal-600"
+              >
+                <ExternalLink className="h-3.5 w-3.5" />
+                {project.url}
+              </a>
+            )}
+          </div>
+        </div>
+        {isOwner && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleScreenshotSelected}
+            />
+            <Button
+              variant="outline"
+              className="gap-2"
+              disabled={isUploading}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {isUploading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <ImagePlus className="h-4 w-4" />
+              )}
+              {project.screenshot_url ? "Replace screenshot" : "Upload screenshot"}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {(project.description || project.goals) && (
+        <div className="mb-6 grid gap-4 md:grid-cols-2">
+          {project.description && (
+            <Card className="border border-gray-200 shadow-sm">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">About</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-gray-600 whitespace-pre-line">
+                {project.description}
+              </CardContent>
+            </Card>
+          )}
+          {project.goals && (
+            <Card className="border border-gray-200 shadow-sm">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">
+                  What the creator wants to know
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-gray-600 whitespace-pre-line">
+                {project.goals}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      {isOwner && (
+        <div className="mb-6">
+          <ProjectBoostCard project={project} />
+        </div>
+      )}
+
+      {isOwner ? (
+        <Tabs defaultValue="feedback">
+          <TabsList>
+            <TabsTrigger value="feedback">
+              Feedback ({feedback.length})
+            </TabsTrigger>
+            <TabsTrigger value="annotations">Annotations</TabsTrigger>
+          </TabsList>
+          <TabsContent value="feedback" className="mt-6 space-y-6">
+            {feedback.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No feedback yet. Reviews will appear here as they come in.
+              </p>
+            ) : (
+              <>
+                <FeedbackComparisonTable
+                  rubric={rubric}
+                  feedback={feedback}
+                  averages={averages}
+                />
+                <div className="grid gap-6 lg:grid-cols-2">
+                  {feedback.map((item, index) => (
+                    <FeedbackCard
+                      key={item.id}
+                      feedback={item}
+                      title={`Reviewer ${index + 1}`}
+                      rubricSize={rubric.length}
+                      annotationCount={countAnnotations(item.id)}
+                      canRate
+                      onRate={handleRateFeedback}
+                    />
+                  ))}
+                </div>
+              </>
+            )}
+          </TabsContent>
+          <TabsContent value="annotations" className="mt-6">
+            {project.screenshot_url ? (
+              <AnnotationOverlay
+                imageUrl={project.screenshot_url}
+                annotations={annotations}
+              />
+            ) : (
+              <div className="rounded-lg border border-dashed border-gray-300 p-12 text-center text-sm text-gray-500">
+                Upload a screenshot so reviewers can point at specific parts of
+                your project.
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      ) : myFeedback ? (
+        <div className="space-y-6">
+          {project.screenshot_url && (
+            <AnnotationOverlay
+              imageUrl={project.screenshot_url}
+              annotations={annotations}
+            />
+          )}
+          <FeedbackCard
+            feedback={myFeedback}
+            title="Your feedback"
+            rubricSize={rubric.length}
+            annotationCount={countAnnotations(myFeedback.id)}
+          />
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {project.screenshot_url && (
+            <section className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-800">
+                Point things out
+              </h2>
+              <AnnotationEditor
+                imageUrl={project.screenshot_url}
+                value={drafts}
+                onChange={setDrafts}
+              />
+            </section>
+          )}
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-800">
+              Score the project
+            </h2>
+            <FeedbackForm rubric={rubric} onSubmit={handleSubmitFeedback} />
+          </section>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
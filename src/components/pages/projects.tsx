@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { FolderKanban, Loader2, PlusCircle } from "lucide-react";
+import DashboardLayout from "../dashboard/layout/DashboardLayout";
+import ProjectCard from "../projects/ProjectCard";
+import ProjectFormDialog from "../projects/ProjectFormDialog";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "../../../supabase/auth";
+import { useEntitlements } from "../../../supabase/entitlements";
+import {
+  formatLimit,
+  remainingAllowance,
+  startOfUtcMonth,
+} from "@/lib/entitlements";
+import {
+  Project,
+  ProjectInput,
+  archiveProject,
+  createProject,
+  fetchMyProjects,
+  getPlanLimitMessage,
+  restoreProject,
+  updateProject,
+} from "@/lib/projects";
+
+export default function ProjectsPage() {
+  const { user } = useAuth();
+  const { entitlements } = useEntitlements();
+  const { toast } = useToast();
+
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadProjects();
+    }
+  }, [user]);
+
+  const loadProjects = async () => {
+    setIsLoading(true);
+    try {
+      setProjects(await fetchMyProjects(user!.id));
+    } catch (error) {
+      console.error("Failed to load projects:", error);
+      toast({
+        title: "Couldn't load projects",
+        description: "Please refresh the page to try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const replaceProject = (project: Project) => {
+    setProjects((current) =>
+      current.map((p) => (p.id === project.id ? project : p)),
+    );
+  };
+
+  const openCreateDialog = () => {
+    setEditingProject(null);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (project: Project) => {
+    setEditingProject(project);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (values: ProjectInput) => {
+    try {
+      if (editingProject) {
+        replaceProject(await updateProject(editingProject.id, values));
+        toast({ title: "Project updated" });
+      } else {
+        const { project, badges } = await createProject(values);
+        setProjects((current) => [project, ...current]);
+        toast({
+          title: "Project created",
+          description: "Reviewers can now start giving feedback.",
+        });
+        (badges ?? []).forEach((badge) =>
+          toast({
+            title: `Badge unlocked: ${badge.name}`,
+            description: badge.description,
+          }),
+        );
+      }
+      setDialogOpen(false);
+    } catch (error) {
+      console.error("Failed to save project:", error);
+      toast({
+        title: "Couldn't save project",
+        description: (await getPlanLimitMessage(error)) ?? "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleArchive = async (project: Project) => {
+    try {
+      replaceProject(await archiveProject(project.id));
+      toast({
+        title: "Project archived",
+        description: `"${project.title}" is no longer open for feedback.`,
+      });
+    } catch (error) {
+      console.error("Failed to archive project:", error);
+      toast({ title: "Couldn't archive project", variant: "destructive" });
+    }
+  };
+
+  const handleRestore = async (project: Project) => {
+    try {
+      replaceProject(await restoreProject(project.id));
+      toast({ title: "Project restored" });
+    } catch (error) {
+      console.error("Failed to restore project:", error);
+      toast({
+        title: "Couldn't restore project",
+        description: (await getPlanLimitMessage(error)) ?? undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const activeProjects = projects.filter((p) => p.status === "active");
+  const archivedProjects = projects.filter((p) => p.status === "archived");
+  // Same counts create-project checks: archived projects still count towards
+  // this month's feedback requests
+  const monthStart = new Date(startOfUtcMonth());
+  const requestedThisMonth = projects.filter(
+    (p) => new Date(p.created_at) >= monthStart,
+  ).length;
+  const atProjectLimit =
+    remainingAllowance(entitlements.maxActiveProjects, activeProjects.length) ===
+      0 ||
+    remainingAllowance(
+      entitlements.feedbackRequestsPerMonth,
+      requestedThisMonth,
+    ) === 0;
+
+  const renderGrid = (items: Project[], emptyMessage: string) => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-12 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      );
+    }
+
+    if (items.length === 0) {
+      return (
+        <div className="flex flex-col items-center justify-center py-12 text-center text-gray-500">
+          <FolderKanban className="h-10 w-10 mb-3 text-gray-300" />
+          <p className="text-sm">{emptyMessage}</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {items.map((project) => (
+          <ProjectCard
+            key={project.id}
+            project={project}
+            onEdit={openEditDialog}
+            onArchive={handleArchive}
+            onRestore={handleRestore}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <DashboardLayout activeItem="Projects">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">Projects</h1>
+          <p className="text-gray-600">
+            Share your website links or startup concepts for review.
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <Button
+            onClick={openCreateDialog}
+            className="gap-2"
+            disabled={isLoading || atProjectLimit}
+          >
+            <PlusCircle className="h-4 w-4" />
+            New project
+          </Button>
+          {!isLoading && (
+            <p className="text-xs text-gray-500">
+              {activeProjects.length}/
+              {formatLimit(entitlements.maxActiveProjects)} active · {requestedThisMonth}/
+              {formatLimit(entitlements.feedbackRequestsPerMonth)} this month
+              {atProjectLimit && (
+                <>
+                  {" · "}
+                  <Link
+                    to="/dashboard/billing"
+                    className="font-medium text-blue-600 hover:underline"
+                  >
+                    Upgrade
+                  </Link>
+                </>
+              )}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <Tabs defaultValue="active">
+        <TabsList>
+          <TabsTrigger value="active">
+            Active ({activeProjects.length})
+          </TabsTrigger>
+          <TabsTrigger value="archived">
+            Archived ({archivedProjects.length})
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="active" className="mt-6">
+          {renderGrid(
+            activeProjects,
+            "You haven't shared any projects yet. Create one to start collecting feedback.",
+          )}
+        </TabsContent>
+        <TabsContent value="archived" className="mt-6">
+          {renderGrid(archivedProjects, "No archived projects.")}
+        </TabsContent>
+      </Tabs>
+
+      <ProjectFormDialog
+        open={dialogOpen}
+        project={editingProject}
+        onOpenChange={setDialogOpen}
+        onSubmit={handleSubmit}
+      />
+    </DashboardLayout>
+  );
+}
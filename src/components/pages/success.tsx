@@ -1,7 +1,139 @@
-import { CheckCircle } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { AlertCircle, CheckCircle, Clock, Loader2, XCircle } from 'lucide-react'
 import { motion } from 'framer-motion'
+import { useEntitlements } from '../../../supabase/entitlements'
+import {
+    CheckoutVerification,
+    formatCurrency,
+    formatStripeDate,
+    verifyCheckout,
+} from '@/lib/billing'
+
+// The webhook usually lands within a few seconds; after a minute we stop
+// polling and tell the user it's still on its way
+const POLL_INTERVAL_MS = 2000
+const MAX_POLLS = 30
+
+type PageState =
+    | 'verifying'
+    | 'fulfilled'
+    | 'delayed'
+    | 'incomplete'
+    | 'canceled'
+    | 'not_found'
+    | 'error'
 
 export default function Success() {
+    const [searchParams] = useSearchParams()
+    const { refresh } = useEntitlements()
+    const sessionId = searchParams.get('session_id')
+    const canceled = searchParams.get('canceled') === 'true'
+
+    const [state, setState] = useState<PageState>(
+        canceled ? 'canceled' : sessionId ? 'verifying' : 'not_found',
+    )
+    const [checkout, setCheckout] = useState<CheckoutVerification | null>(null)
+
+    useEffect(() => {
+        if (canceled || !sessionId) return
+
+        let stopped = false
+        let timer: ReturnType<typeof setTimeout>
+        let polls = 0
+
+        const poll = async () => {
+            try {
+                const result = await verifyCheckout(sessionId)
+                if (stopped) return
+                if (!result) {
+                    setState('not_found')
+                    return
+                }
+
+                setCheckout(result)
+                if (result.fulfilled) {
+                    setState('fulfilled')
+                    refresh()
+                } else if (result.status !== 'complete') {
+                    setState('incomplete')
+                } else if (++polls >= MAX_POLLS) {
+                    setState('delayed')
+                } else {
+                    timer = setTimeout(poll, POLL_INTERVAL_MS)
+                }
+            } catch (error) {
+                console.error('Failed to verify checkout:', error)
+                if (!stopped) setState('error')
+            }
+        }
+
+        poll()
+        return () => {
+            stopped = true
+            clearTimeout(timer)
+        }
+    }, [sessionId, canceled])
+
+    const isCreditPack = checkout?.mode === 'payment'
+    const nextHref = isCreditPack ? '/dashboard/points' : '/dashboard/billing'
+
+    const content: Record<PageState, {
+        icon: JSX.Element
+        title: string
+        message: string
+        action: { label: string; href: string }
+    }> = {
+        verifying: {
+            icon: <Loader2 className="w-16 h-16 text-green-500 mx-auto mb-4 animate-spin" />,
+            title: 'Confirming your payment…',
+            message: 'This only takes a few seconds.',
+            action: { label: 'Go to dashboard', href: '/dashboard' },
+        },
+        fulfilled: {
+            icon: <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />,
+            title: 'Payment Successful!',
+            message: describePurchase(checkout),
+            action: isCreditPack
+                ? { label: 'View points', href: nextHref }
+                : { label: 'View billing', href: nextHref },
+        },
+        delayed: {
+            icon: <Clock className="w-16 h-16 text-amber-500 mx-auto mb-4" />,
+            title: 'Payment received',
+            message: isCreditPack
+                ? "We're still adding your points. They'll appear on your points page shortly."
+                : "We're still activating your plan. It'll appear on your billing page shortly.",
+            action: { label: 'Continue', href: nextHref },
+        },
+        incomplete: {
+            icon: <AlertCircle className="w-16 h-16 text-amber-500 mx-auto mb-4" />,
+            title: 'Checkout not completed',
+            message: "This checkout wasn't finished, so you haven't been charged.",
+            action: { label: 'Back to billing', href: '/dashboard/billing' },
+        },
+        canceled: {
+            icon: <XCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />,
+            title: 'Checkout canceled',
+            message: "No worries, you haven't been charged. You can pick a plan any time.",
+            action: { label: 'Back to billing', href: '/dashboard/billing' },
+        },
+        not_found: {
+            icon: <AlertCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />,
+            title: 'Nothing to confirm',
+            message: "We couldn't find a checkout for your account.",
+            action: { label: 'Go to dashboard', href: '/dashboard' },
+        },
+        error: {
+            icon: <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />,
+            title: "Couldn't confirm your payment",
+            message: 'If you were charged, your purchase will still appear shortly. Refresh to check again.',
+            action: { label: 'Go to dashboard', href: '/dashboard' },
+        },
+    }
+
+    const { icon, title, message, action } = content[state]
+
     return (
         <div className="min-h-screen bg-gradient-to-br from-green-50 to-green-100 flex items-center justify-center p-4">
             <motion.div 
@@ -11,11 +143,12 @@ export default function Success() {
                 className="bg-white rounded-lg shadow-xl p-8 max-w-md w-full text-center"
             >
                 <motion.div
+                    key={state}
                     initial={{ scale: 0 }}
                     animate={{ scale: 1 }}
                     transition={{ delay: 0.2, type: "spring", stiffness: 200 }}
                 >
-                    <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+                    {icon}
                 </motion.div>
                 <motion.h1 
                     initial={{ opacity: 0 }}
@@ -23,7 +156,7 @@ export default function Success() {
                     transition={{ delay: 0.4 }}
                     className="text-3xl font-bold text-gray-800 mb-4"
                 >
-                    Payment Successful!
+                    {title}
                 </motion.h1>
                 <motion.p 
                     initial={{ opacity: 0 }}
@@ -31,21 +164,45 @@ export default function Success() {
                     transition={{ delay: 0.6 }}
                     className="text-gray-600 mb-6"
                 >
-                    Thank you for your purchase. You will receive a confirmation email shortly.
+                    {message}
                 </motion.p>
                 <motion.div
                     initial={{ opacity: 0 }}
                     animate={{ opacity: 1 }}
                     transition={{ delay: 0.8 }}
                 >
-                    <a 
-                        href="/"
+                    <Link 
+                        to={action.href}
                         className="inline-block bg-green-500 text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-600 transition-colors duration-200"
                     >
-                        Home
-                    </a>
+                        {action.label}
+                    </Link>
                 </motion.div>
             </motion.div>
         </div>
     )
-}
\ No newline at end of file
+}
+
+// What was bought, e.g. "You're now on Pro, billed $12.00 a month."
+function describePurchase(checkout: CheckoutVerification | null): string {
+    if (!checkout) return ''
+
+    const name = checkout.product_name ?? 'your purchase'
+    const amount = checkout.amount_total !== null && checkout.currency
+        ? formatCurrency(checkout.amount_total, checkout.currency)
+        : null
+
+    if (checkout.mode === 'payment') {
+        const points = checkout.credit_points
+            ? `${checkout.credit_points.toLocaleString()} points have been added to your balance.`
+            : 'Your points have been added to your balance.'
+        return `Thanks for buying ${name}. ${points}`
+    }
+
+    if (checkout.trial_end) {
+        return `Your ${name} trial is active until ${formatStripeDate(checkout.trial_end)}. A confirmation email is on its way.`
+    }
+
+    const billed = amount && checkout.interval ? `, billed ${amount} a ${checkout.interval}` : ''
+    return `You're now on ${name}${billed}. A confirmation email is on its way.`
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { Loader2, ShoppingCart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "../../../supabase/auth";
+import { formatCurrency } from "@/lib/billing";
+import {
+  CreditPack,
+  createCreditPackCheckout,
+  fetchCreditPacks,
+} from "@/lib/credit-packs";
+import { formatPoints } from "@/lib/points";
+
+const CreditPacksCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [packs, setPacks] = useState<CreditPack[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [buyingPriceId, setBuyingPriceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCreditPacks()
+      .then(setPacks)
+      .catch((error) => console.error("Failed to load credit packs:", error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleBuy = async (pack: CreditPack) => {
+    if (!user) return;
+    setBuyingPriceId(pack.price_id);
+    try {
+      window.location.href = await createCreditPackCheckout({
+        priceId: pack.price_id,
+        returnUrl: `${window.location.origin}/success`,
+      });
+    } catch (error) {
+      console.error("Failed to start credit pack checkout:", error);
+      toast({
+        title: "Couldn't start checkout",
+        description: "Please try again in a moment.",
+        variant: "destructive",
+      });
+      setBuyingPriceId(null);
+    }
+  };
+
+  // Packs are optional; say nothing when none are on sale
+  if (!isLoading && packs.length === 0) return null;
+
+  return (
+    <Card className="border border-gray-200 shadow-sm md:col-span-2">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Buy points</CardTitle>
+        <ShoppingCart className="h-4 w-4 text-gray-500" />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-3">
+            {packs.map((pack) => (
+              <div
+                key={pack.price_id}
+                className="flex flex-col justify-between gap-3 rounded-lg border border-gray-100 p-3"
+              >
+                <div>
+                  <div className="font-medium text-gray-800">{pack.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {formatPoints(pack.points)} points
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={buyingPriceId !== null}
+                  onClick={() => handleBuy(pack)}
+                >
+                  {buyingPriceId === pack.price_id && (
+                    <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                  )}
+                  {formatCurrency(pack.amount, pack.currency)}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="mt-3 text-xs text-gray-500">
+          One-time purchase, no subscription needed. Points arrive as soon as
+          the payment clears.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CreditPacksCard;
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "../../../supabase/auth";
+import { formatCurrency } from "@/lib/billing";
+import { CreditPurchase, fetchCreditPurchases } from "@/lib/credit-packs";
+import { formatPoints } from "@/lib/points";
+
+// Past credit pack purchases; hidden until the user has made one
+const CreditPurchaseHistory = () => {
+  const { user } = useAuth();
+  const [purchases, setPurchases] = useState<CreditPurchase[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchCreditPurchases(user.id)
+      .then(setPurchases)
+      .catch((error) =>
+        console.error("Failed to load credit purchases:", error),
+      );
+  }, [user]);
+
+  if (purchases.length === 0) return null;
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-lg font-semibold text-gray-800 mb-3">Purchases</h2>
+      <div className="rounded-lg border border-gray-200">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Pack</TableHead>
+              <TableHead className="text-right">Points</TableHead>
+              <TableHead className="text-right">Paid</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchases.map((purchase) => (
+              <TableRow key={purchase.id}>
+                <TableCell className="text-gray-500">
+                  {new Date(purchase.created_at).toLocaleString()}
+                </TableCell>
+                <TableCell className="font-medium text-gray-800">
+                  {purchase.pack_name}
+                </TableCell>
+                <TableCell className="text-right text-emerald-600">
+                  +{formatPoints(purchase.points)}
+                </TableCell>
+                <TableCell className="text-right text-gray-700">
+                  {formatCurrency(purchase.amount, purchase.currency)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default CreditPurchaseHistory;
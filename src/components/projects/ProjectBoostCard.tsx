@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import { Loader2, Rocket } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useEntitlements } from "../../../supabase/entitlements";
+import { remainingAllowance } from "@/lib/entitlements";
+import {
+  BoostOption,
+  ProjectBoost,
+  boostStatusLabels,
+  cancelBoost,
+  fetchBoostCreditsUsed,
+  fetchBoostOptions,
+  fetchProjectBoosts,
+  getBoostStatus,
+  getRedeemErrorMessage,
+  redeemBoost,
+} from "@/lib/boosts";
+import { fetchPointBalance, formatPoints } from "@/lib/points";
+import type { Project } from "@/lib/projects";
+
+interface ProjectBoostCardProps {
+  project: Project;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+const ProjectBoostCard = ({ project }: ProjectBoostCardProps) => {
+  const { toast } = useToast();
+  const { entitlements } = useEntitlements();
+
+  const [options, setOptions] = useState<BoostOption[]>([]);
+  const [boosts, setBoosts] = useState<ProjectBoost[]>([]);
+  const [balance, setBalance] = useState<number | null>(null);
+  const [creditsUsed, setCreditsUsed] = useState(0);
+  const [durationHours, setDurationHours] = useState<string>("");
+  // Empty means "start now"
+  const [startsAt, setStartsAt] = useState("");
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const selected = options.find((o) => String(o.duration_hours) === durationHours);
+  const canBoost = project.status === "active" && project.visibility === "public";
+  const creditsLeft =
+    remainingAllowance(entitlements.boostCreditsPerMonth, creditsUsed) ?? 0;
+
+  const load = async () => {
+    try {
+      const [boostOptions, projectBoosts, pointBalance, usedCredits] =
+        await Promise.all([
+          fetchBoostOptions(),
+          fetchProjectBoosts(project.id),
+          fetchPointBalance(),
+          fetchBoostCreditsUsed(project.user_id),
+        ]);
+      setOptions(boostOptions);
+      setBoosts(projectBoosts);
+      setBalance(pointBalance);
+      setCreditsUsed(usedCredits);
+      setDurationHours((current) =>
+        current || String(boostOptions[0]?.duration_hours ?? ""),
+      );
+    } catch (error) {
+      console.error("Failed to load boosts:", error);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [project.id]);
+
+  const handleRedeem = async () => {
+    if (!selected) return;
+    setIsRedeeming(true);
+    try {
+      const boost = await redeemBoost({
+        projectId: project.id,
+        durationHours: selected.duration_hours,
+        startsAt: startsAt ? new Date(startsAt) : null,
+      });
+      toast({
+        title: "Project boosted",
+        description:
+          boost.paid_with === "credit"
+            ? `Plan boost credit used on a ${selected.label} boost.`
+            : `${formatPoints(selected.cost)} points spent on a ${selected.label} boost.`,
+      });
+      setStartsAt("");
+      await load();
+    } catch (error) {
+      console.error("Failed to redeem boost:", error);
+      toast({
+        title: "Couldn't boost project",
+        description: getRedeemErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  const handleCancel = async (boost: ProjectBoost) => {
+    setCancellingId(boost.id);
+    try {
+      const cancelled = await cancelBoost(boost.id);
+      toast({
+        title: "Boost cancelled",
+        description: cancelled.points_refunded
+          ? `${formatPoints(cancelled.points_refunded)} points refunded.`
+          : "The boost has stopped.",
+      });
+      await load();
+    } catch (error) {
+      console.error("Failed to cancel boost:", error);
+      toast({ title: "Couldn't cancel boost", variant: "destructive" });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  return (
+    <Card className="border border-gray-200 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Boost visibility</CardTitle>
+        <Rocket className="h-4 w-4 text-amber-500" />
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="text-gray-600">
+          Spend points or plan boost credits to show this project first in
+          the reviewer discovery feed. Boosts cancelled before they start are
+          refunded in full.
+        </p>
+        {canBoost ? (
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1.5">
+              <Label>Length</Label>
+              <Select value={durationHours} onValueChange={setDurationHours}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="Choose" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem
+                      key={option.duration_hours}
+                      value={String(option.duration_hours)}
+                    >
+                      {option.label} · {formatPoints(option.cost)} pts
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="boost-starts-at">Starts</Label>
+              <Input
+                id="boost-starts-at"
+                type="datetime-local"
+                className="w-52"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <Button
+              className="gap-2"
+              disabled={
+                !selected ||
+                isRedeeming ||
+                (creditsLeft === 0 &&
+                  balance !== null &&
+                  selected.cost > balance)
+              }
+              onClick={handleRedeem}
+            >
+              {isRedeeming ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Rocket className="h-4 w-4" />
+              )}
+              {startsAt ? "Schedule boost" : "Boost now"}
+            </Button>
+            {balance !== null && (
+              <span className="text-xs text-gray-500">
+                Balance: {formatPoints(balance)} pts
+                {entitlements.boostCreditsPerMonth > 0 &&
+                  ` · ${creditsLeft}/${entitlements.boostCreditsPerMonth} plan credits left this month`}
+              </span>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">
+            Only active, public projects can be boosted.
+          </p>
+        )}
+        {boosts.length > 0 && (
+          <ul className="divide-y divide-gray-100 border-t border-gray-100">
+            {boosts.map((boost) => {
+              const status = getBoostStatus(boost);
+              return (
+                <li
+                  key={boost.id}
+                  className="flex items-center justify-between gap-3 py-2"
+                >
+                  <div>
+                    <div className="text-gray-700">
+                      {formatDateTime(boost.starts_at)} –{" "}
+                      {formatDateTime(boost.ends_at)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {boost.paid_with === "credit"
+                        ? "Plan credit"
+                        : `${formatPoints(boost.points_spent)} pts`}
+                      {boost.points_refunded > 0 &&
+                        ` · ${formatPoints(boost.points_refunded)} refunded`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="text-xs">
+                      {boostStatusLabels[status]}
+                    </Badge>
+                    {(status === "scheduled" || status === "running") && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-gray-600"
+                        disabled={cancellingId === boost.id}
+                        onClick={() => handleCancel(boost)}
+                      >
+                        {cancellingId === boost.id && (
+                          <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                        )}
+                        {status === "scheduled" ? "Cancel & refund" : "Stop"}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProjectBoostCard;
@@ -0,0 +1,131 @@
+import { Link } from "react-router-dom";
+import {
+  Archive,
+  ExternalLink,
+  MoreVertical,
+  Pencil,
+  Rocket,
+  RotateCcw,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Project,
+  getCategoryLabel,
+  getStageLabel,
+  getVisibilityLabel,
+} from "@/lib/projects";
+
+interface ProjectCardProps {
+  project: Project;
+  showActions?: boolean;
+  /** Shows a "Boosted" badge while a boost is running */
+  boostedUntil?: string | null;
+  onEdit?: (project: Project) => void;
+  onArchive?: (project: Project) => void;
+  onRestore?: (project: Project) => void;
+}
+
+const ProjectCard = ({
+  project,
+  showActions = true,
+  boostedUntil = null,
+  onEdit = () => {},
+  onArchive = () => {},
+  onRestore = () => {},
+}: ProjectCardProps) => {
+  const isArchived = project.status === "archived";
+
+  return (
+    <Card
+      className={`border border-gray-200 shadow-sm hover:shadow-md transition-shadow ${
+        isArchived ? "opacity-70" : ""
+      }`}
+    >
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+        <div className="space-y-1 min-w-0">
+          <CardTitle className="text-base font-medium truncate">
+            <Link
+              to={`/dashboard/projects/${project.id}`}
+              className="hover:text-teal-600"
+            >
+              {project.title}
+            </Link>
+          </CardTitle>
+          {project.url && (
+            <a
+              href={project.url}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-teal-600 truncate"
+            >
+              <ExternalLink className="h-3 w-3 flex-shrink-0" />
+              {project.url}
+            </a>
+          )}
+        </div>
+        {showActions && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500">
+                <MoreVertical className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {!isArchived && (
+                <DropdownMenuItem onSelect={() => onEdit(project)}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit
+                </DropdownMenuItem>
+              )}
+              {isArchived ? (
+                <DropdownMenuItem onSelect={() => onRestore(project)}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore
+                </DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem onSelect={() => onArchive(project)}>
+                  <Archive className="mr-2 h-4 w-4" />
+                  Archive
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {project.description && (
+          <p className="text-sm text-gray-600 line-clamp-2">
+            {project.description}
+          </p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {boostedUntil && (
+            <Badge className="gap-1 text-xs bg-amber-100 text-amber-700 hover:bg-amber-200">
+              <Rocket className="h-3 w-3" />
+              Boosted
+            </Badge>
+          )}
+          <Badge variant="outline" className="text-xs bg-gray-50">
+            {getCategoryLabel(project.category)}
+          </Badge>
+          <Badge variant="outline" className="text-xs bg-gray-50">
+            {getStageLabel(project.stage)}
+          </Badge>
+          <Badge variant="secondary" className="text-xs">
+            {isArchived ? "Archived" : getVisibilityLabel(project.visibility)}
+          </Badge>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProjectCard;
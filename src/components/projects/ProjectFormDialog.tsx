@@ -0,0 +1,409 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Project,
+  ProjectInput,
+  projectCategories,
+  projectStages,
+  projectVisibilities,
+} from "@/lib/projects";
+import {
+  RubricDimension,
+  defaultRubric,
+  parseRubric,
+  rubricPresets,
+  toDimensionKey,
+} from "@/lib/feedback";
+
+const projectSchema = z.object({
+  title: z.string().trim().min(3, "Title must be at least 3 characters"),
+  url: z
+    .string()
+    .trim()
+    .url("Enter a full URL, including https://")
+    .or(z.literal("")),
+  description: z.string().trim().max(2000),
+  category: z.enum(
+    projectCategories.map((c) => c.value) as [string, ...string[]],
+    { required_error: "Choose a category" },
+  ),
+  stage: z.enum(projectStages.map((s) => s.value) as [string, ...string[]], {
+    required_error: "Choose a stage",
+  }),
+  goals: z.string().trim().max(1000),
+  visibility: z.enum(
+    projectVisibilities.map((v) => v.value) as [string, ...string[]],
+  ),
+  rubric: z
+    .array(z.object({ key: z.string().min(1), label: z.string().min(1) }))
+    .min(1, "Pick at least one dimension for reviewers to score"),
+});
+
+type ProjectFormValues = z.infer<typeof projectSchema>;
+
+interface ProjectFormDialogProps {
+  open: boolean;
+  project?: Project | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: ProjectInput) => Promise<void>;
+}
+
+const toFormValues = (project?: Project | null): ProjectFormValues => ({
+  title: project?.title ?? "",
+  url: project?.url ?? "",
+  description: project?.description ?? "",
+  category: project?.category ?? undefined,
+  stage: project?.stage ?? undefined,
+  goals: project?.goals ?? "",
+  visibility: project?.visibility ?? "public",
+  rubric: project ? parseRubric(project.rubric_dimensions) : defaultRubric,
+});
+
+interface RubricFieldProps {
+  value: RubricDimension[];
+  onChange: (value: RubricDimension[]) => void;
+}
+
+const RubricField = ({ value, onChange }: RubricFieldProps) => {
+  const [customLabel, setCustomLabel] = useState("");
+  const isSelected = (key: string) => value.some((d) => d.key === key);
+  const customDimensions = value.filter(
+    (d) => !rubricPresets.some((p) => p.key === d.key),
+  );
+
+  const toggle = (dimension: RubricDimension) => {
+    onChange(
+      isSelected(dimension.key)
+        ? value.filter((d) => d.key !== dimension.key)
+        : [...value, dimension],
+    );
+  };
+
+  const addCustom = () => {
+    const label = customLabel.trim();
+    const key = toDimensionKey(label);
+    if (!key || isSelected(key)) return;
+    onChange([...value, { key, label }]);
+    setCustomLabel("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {rubricPresets.map((preset) => (
+          <Button
+            key={preset.key}
+            type="button"
+            size="sm"
+            variant={isSelected(preset.key) ? "secondary" : "outline"}
+            className="h-7 rounded-full text-xs"
+            onClick={() => toggle(preset)}
+          >
+            {preset.label}
+          </Button>
+        ))}
+        {customDimensions.map((dimension) => (
+          <Badge key={dimension.key} variant="secondary" className="gap-1">
+            {dimension.label}
+            <button type="button" onClick={() => toggle(dimension)}>
+              <X className="h-3 w-3" />
+              <span className="sr-only">Remove {dimension.label}</span>
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={customLabel}
+          placeholder="Add your own, e.g. Checkout flow"
+          className="h-8 text-sm"
+          onChange={(e) => setCustomLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addCustom();
+            }
+          }}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-8"
+          onClick={addCustom}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default function ProjectFormDialog({
+  open,
+  project,
+  onOpenChange,
+  onSubmit,
+}: ProjectFormDialogProps) {
+  const isEditing = Boolean(project);
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectSchema),
+    defaultValues: toFormValues(project),
+  });
+
+  // Reset whenever the dialog is reopened for a different project
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(project));
+    }
+  }, [open, project, form]);
+
+  const handleSubmit = async (values: ProjectFormValues) => {
+    await onSubmit({
+      title: values.title,
+      url: values.url || null,
+      description: values.description || null,
+      category: values.category,
+      stage: values.stage,
+      goals: values.goals || null,
+      visibility: values.visibility,
+      rubric_dimensions: values.rubric,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit project" : "New project"}</DialogTitle>
+          <DialogDescription>
+            Share your website link or startup concept so reviewers know what
+            to look at.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="My landing page" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>URL</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://example.com" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Leave empty if you're sharing a concept.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {projectCategories.map((category) => (
+                          <SelectItem
+                            key={category.value}
+                            value={category.value}
+                          >
+                            {category.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="stage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stage</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a stage" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {projectStages.map((stage) => (
+                          <SelectItem key={stage.value} value={stage.value}>
+                            {stage.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="What does it do, and who is it for?"
+                      className="resize-none"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="goals"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Feedback goals</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="e.g. Is the pricing page clear? Does the signup flow feel trustworthy?"
+                      className="resize-none"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="visibility"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Visibility</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {projectVisibilities.map((visibility) => (
+                        <SelectItem
+                          key={visibility.value}
+                          value={visibility.value}
+                        >
+                          {visibility.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {
+                      projectVisibilities.find(
+                        (v) => v.value === field.value,
+                      )?.description
+                    }
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="rubric"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rubric</FormLabel>
+                  <FormDescription>
+                    Reviewers score each of these from 1 to 5 and explain why.
+                  </FormDescription>
+                  <RubricField
+                    value={field.value as RubricDimension[]}
+                    onChange={field.onChange}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                {isEditing ? "Save changes" : "Create project"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,9 @@
+import { supabase } from "../../supabase/supabase";
+
+/** Whether the signed-in user is in admin_users. */
+export async function fetchIsAdmin(): Promise<boolean> {
+  const { data, error } = await supabase.rpc("is_admin");
+
+  if (error) throw error;
+  return data ?? false;
+}
@@ -0,0 +1,108 @@
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+
+export type FeedbackAnnotation = Tables<"feedback_annotations">;
+export type AnnotationKind = "pin" | "rect";
+
+/**
+ * An annotation as edited on screen. Coordinates are fractions (0-1) of the
+ * rendered image so they can be stored and redrawn at any size.
+ */
+export interface AnnotationDraft {
+  id: string;
+  kind: AnnotationKind;
+  number: number;
+  x: number;
+  y: number;
+  width: number | null;
+  height: number | null;
+  comment: string;
+}
+
+// Anything smaller than this is treated as a stray click, not a rectangle
+export const MIN_RECT_SIZE = 0.01;
+
+export const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Converts a pointer position into coordinates relative to `rect`. */
+export function toNormalizedPoint(
+  clientX: number,
+  clientY: number,
+  rect: DOMRect,
+) {
+  return {
+    x: clamp01((clientX - rect.left) / rect.width),
+    y: clamp01((clientY - rect.top) / rect.height),
+  };
+}
+
+/** Builds a top-left anchored rectangle from two normalized corners. */
+export function toNormalizedRect(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+) {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+/** Renumbers annotations 1..n in their current order. */
+export const renumber = (annotations: AnnotationDraft[]) =>
+  annotations.map((annotation, index) => ({
+    ...annotation,
+    number: index + 1,
+  }));
+
+export const toDraft = (annotation: FeedbackAnnotation): AnnotationDraft => ({
+  id: annotation.id,
+  kind: annotation.kind as AnnotationKind,
+  number: annotation.number,
+  x: Number(annotation.x),
+  y: Number(annotation.y),
+  width: annotation.width === null ? null : Number(annotation.width),
+  height: annotation.height === null ? null : Number(annotation.height),
+  comment: annotation.comment,
+});
+
+export async function fetchProjectAnnotations(
+  projectId: string,
+): Promise<FeedbackAnnotation[]> {
+  const { data, error } = await supabase
+    .from("feedback_annotations")
+    .select("*")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: true })
+    .order("number", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Replaces the reviewer's draft annotations on a project image with `drafts`
+ * in one call. Annotations already attached to submitted feedback are kept.
+ */
+export async function saveReviewerAnnotations(
+  projectId: string,
+  imageUrl: string,
+  drafts: AnnotationDraft[],
+): Promise<FeedbackAnnotation[]> {
+  const { data, error } = await supabase.rpc("save_reviewer_annotations", {
+    p_project_id: projectId,
+    p_image_url: imageUrl,
+    p_annotations: drafts.map((draft) => ({
+      kind: draft.kind,
+      x: draft.x,
+      y: draft.y,
+      width: draft.kind === "rect" ? draft.width : null,
+      height: draft.kind === "rect" ? draft.height : null,
+      comment: draft.comment.trim(),
+    })),
+  });
+
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,220 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+import type { Entitlements, PlanTier } from "@/lib/entitlements";
+import { entitledStatuses } from "@/lib/entitlements";
+
+export type Subscription = Tables<"subscriptions">;
+
+export type BillingInterval = "month" | "year";
+
+export interface PlanPrice {
+  /** Stripe price id, passed to create-checkout */
+  id: string;
+  amount: number;
+  currency: string;
+  interval: BillingInterval;
+  interval_count: number;
+  /** Free trial for first-time subscribers; 0 means none */
+  trial_days: number;
+}
+
+// A product in the catalog returned by the get-plans edge function, with its
+// monthly and yearly prices grouped together
+export interface Plan {
+  product_id: string;
+  name: string;
+  description: string | null;
+  tier: PlanTier;
+  /** Marketing bullets from product metadata, or the plan's limits */
+  features: string[];
+  highlighted: boolean;
+  sort_order: number;
+  entitlements: Entitlements;
+  monthly: PlanPrice | null;
+  yearly: PlanPrice | null;
+}
+
+// Stripe subscription statuses
+export const subscriptionStatusLabels: Record<string, string> = {
+  active: "Active",
+  trialing: "Trialing",
+  past_due: "Past due",
+  unpaid: "Unpaid",
+  canceled: "Canceled",
+  incomplete: "Incomplete",
+  incomplete_expired: "Expired",
+  paused: "Paused",
+};
+
+export const getSubscriptionStatusLabel = (status: string | null) =>
+  (status && subscriptionStatusLabels[status]) ?? "Unknown";
+
+export const formatCurrency = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+    minimumFractionDigits: 2,
+  }).format(amount / 100);
+
+/** Formats a Stripe timestamp (seconds since the epoch) as a date. */
+export const formatStripeDate = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleDateString(undefined, {
+    dateStyle: "long",
+  });
+
+/**
+ * Whole days left in a trial ending at `trialEnd` (a Stripe timestamp),
+ * rounded up so the last day reads as 1; 0 once it has ended.
+ */
+export const trialDaysRemaining = (trialEnd: number, now = Date.now()) =>
+  Math.max(0, Math.ceil((trialEnd * 1000 - now) / (24 * 60 * 60 * 1000)));
+
+export const getPlanPrice = (plan: Plan, interval: BillingInterval) =>
+  interval === "year" ? plan.yearly : plan.monthly;
+
+/** The plan a Stripe price belongs to, either billing interval. */
+export const findPlanByPrice = (plans: Plan[], priceId: string) =>
+  plans.find(
+    (plan) => plan.monthly?.id === priceId || plan.yearly?.id === priceId,
+  ) ?? null;
+
+/**
+ * How much paying yearly saves over twelve monthly payments, as a whole
+ * percentage; null unless the plan has both prices and yearly is cheaper.
+ */
+export function annualSavingsPercent(plan: Plan): number | null {
+  if (!plan.monthly || !plan.yearly || plan.monthly.amount === 0) return null;
+  const savings = 1 - plan.yearly.amount / (plan.monthly.amount * 12);
+  return savings > 0 ? Math.round(savings * 100) : null;
+}
+
+export async function fetchPlans(): Promise<Plan[]> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-get-plans",
+  );
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * The user's live subscription, else their most recent one whatever its
+ * status. A plan bought twice leaves a newer canceled row behind, which
+ * mustn't hide the one still being paid for.
+ */
+export async function fetchCurrentSubscription(
+  userId: string,
+): Promise<Subscription | null> {
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (
+    data.find((row) => entitledStatuses.includes(row.status ?? "")) ??
+    data[0] ??
+    null
+  );
+}
+
+/** Returns a Stripe Customer Portal URL that sends the user back to `returnUrl`. */
+export async function createPortalSession(returnUrl: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-create-portal-session",
+    {
+      body: { return_url: returnUrl },
+    },
+  );
+
+  if (error) throw error;
+  return data.url;
+}
+
+/**
+ * The reason create-checkout refused to start a checkout (e.g. the user
+ * already subscribes, or the promo code doesn't apply), or null for any
+ * other failure.
+ */
+export async function getCheckoutErrorMessage(
+  error: unknown,
+): Promise<string | null> {
+  if (
+    !(error instanceof FunctionsHttpError) ||
+    ![400, 409].includes(error.context?.status)
+  ) {
+    return null;
+  }
+  try {
+    const body = await error.context.json();
+    return body.error ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// A checkout session as reported by the verify-checkout edge function
+export interface CheckoutVerification {
+  session_id: string;
+  /** "subscription" for plans, "payment" for credit packs */
+  mode: "subscription" | "payment";
+  status: "open" | "complete" | "expired" | null;
+  payment_status: "paid" | "unpaid" | "no_payment_required";
+  /** Whether the webhook has written the subscription or credited the pack */
+  fulfilled: boolean;
+  product_name: string | null;
+  amount_total: number | null;
+  currency: string | null;
+  interval: BillingInterval | null;
+  /** Stripe timestamp (seconds) */
+  trial_end: number | null;
+  credit_points: number | null;
+}
+
+/**
+ * Looks up a checkout session the current user started. Returns null when
+ * the session doesn't exist or belongs to someone else.
+ */
+export async function verifyCheckout(
+  sessionId: string,
+): Promise<CheckoutVerification | null> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-verify-checkout",
+    {
+      body: { session_id: sessionId },
+    },
+  );
+
+  if (error instanceof FunctionsHttpError && error.context?.status === 404) {
+    return null;
+  }
+  if (error) throw error;
+  return data;
+}
+
+export interface PromoCodeCheck {
+  valid: boolean;
+  /** Set when valid */
+  code?: string;
+  description?: string;
+  /** Why the code can't be used, when not valid */
+  reason?: string;
+}
+
+/** Checks a promotion code, against a specific price when given. */
+export async function validatePromoCode(
+  code: string,
+  priceId?: string,
+): Promise<PromoCodeCheck> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-validate-promo-code",
+    {
+      body: { code, price_id: priceId },
+    },
+  );
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,117 @@
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+import { startOfUtcMonth } from "@/lib/entitlements";
+
+export type BoostOption = Tables<"boost_options">;
+export type ProjectBoost = Tables<"project_boosts">;
+
+export type BoostStatus = "scheduled" | "running" | "ended" | "cancelled";
+
+export const boostStatusLabels: Record<BoostStatus, string> = {
+  scheduled: "Scheduled",
+  running: "Running",
+  ended: "Ended",
+  cancelled: "Cancelled",
+};
+
+export function getBoostStatus(
+  boost: ProjectBoost,
+  now = new Date(),
+): BoostStatus {
+  if (boost.status === "cancelled") return "cancelled";
+  if (new Date(boost.ends_at) <= now) return "ended";
+  if (new Date(boost.starts_at) > now) return "scheduled";
+  return "running";
+}
+
+// Messages for the HINTs redeem_project_boost raises
+const redeemErrorMessages: Record<string, string> = {
+  insufficient_points: "You don't have enough points for this boost.",
+  boost_capacity:
+    "All boost slots are taken for that period. Try a later start time.",
+  already_boosted: "This project already has a boost in that period.",
+  boost_start_too_late: "Boosts can be scheduled at most 30 days ahead.",
+};
+
+export const getRedeemErrorMessage = (error: unknown) => {
+  const hint = (error as { hint?: string } | null)?.hint;
+  return (
+    (hint && redeemErrorMessages[hint]) ??
+    (error instanceof Error ? error.message : "Please try again.")
+  );
+};
+
+export async function fetchBoostOptions(): Promise<BoostOption[]> {
+  const { data, error } = await supabase
+    .from("boost_options")
+    .select("*")
+    .order("duration_hours", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function fetchProjectBoosts(
+  projectId: string,
+): Promise<ProjectBoost[]> {
+  const { data, error } = await supabase
+    .from("project_boosts")
+    .select("*")
+    .eq("project_id", projectId)
+    .order("starts_at", { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Boost credits used this calendar month (UTC). Mirrors boost_credits_used():
+ * a credit boost cancelled before it started doesn't count.
+ */
+export async function fetchBoostCreditsUsed(userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from("project_boosts")
+    .select("status, starts_at, cancelled_at")
+    .eq("user_id", userId)
+    .eq("paid_with", "credit")
+    .gte("created_at", startOfUtcMonth());
+
+  if (error) throw error;
+  return (data ?? []).filter(
+    (boost) =>
+      !(
+        boost.status === "cancelled" &&
+        boost.cancelled_at &&
+        new Date(boost.cancelled_at) < new Date(boost.starts_at)
+      ),
+  ).length;
+}
+
+/**
+ * Redeems a boost; starts immediately unless `startsAt` is later. Paid with
+ * a plan boost credit while any are left this month, otherwise with points.
+ */
+export async function redeemBoost(input: {
+  projectId: string;
+  durationHours: number;
+  startsAt?: Date | null;
+}): Promise<ProjectBoost> {
+  const { data, error } = await supabase.rpc("redeem_project_boost", {
+    p_project_id: input.projectId,
+    p_duration_hours: input.durationHours,
+    p_starts_at: input.startsAt?.toISOString() ?? null,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/** Cancels a boost, refunding it in full if it hasn't started. */
+export async function cancelBoost(boostId: string): Promise<ProjectBoost> {
+  const { data, error } = await supabase.rpc("cancel_project_boost", {
+    p_boost_id: boostId,
+  });
+
+  if (error) throw error;
+  return data;
+}
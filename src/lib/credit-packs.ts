@@ -0,0 +1,60 @@
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+
+export type CreditPurchase = Tables<"credit_purchases">;
+
+// A one-time points pack as returned by the get-credit-packs edge function
+export interface CreditPack {
+  /** Stripe price id, passed to create-checkout */
+  price_id: string;
+  name: string;
+  description: string | null;
+  points: number;
+  amount: number;
+  currency: string;
+}
+
+export async function fetchCreditPacks(): Promise<CreditPack[]> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-get-credit-packs",
+  );
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchCreditPurchases(
+  userId: string,
+): Promise<CreditPurchase[]> {
+  const { data, error } = await supabase
+    .from("credit_purchases")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Starts a one-time Stripe Checkout for a pack and returns its URL. Points
+ * are credited by the payments webhook once the payment succeeds.
+ */
+export async function createCreditPackCheckout(input: {
+  priceId: string;
+  returnUrl: string;
+}): Promise<string> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-create-checkout",
+    {
+      body: {
+        price_id: input.priceId,
+        return_url: input.returnUrl,
+      },
+    },
+  );
+
+  if (error) throw error;
+  if (!data?.url) throw new Error("No checkout URL returned");
+  return data.url;
+}
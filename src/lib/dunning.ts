@@ -0,0 +1,50 @@
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+
+export type DunningSettings = Tables<"dunning_settings">;
+export type PaymentFailure = Tables<"payment_failures">;
+
+// Subscription statuses dunning applies to
+export const pastDueStatuses = ["past_due", "unpaid"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days left before a subscription past due since `pastDueSince` is
+ * downgraded; 0 once the grace period is over.
+ */
+export const daysUntilDowngrade = (
+  pastDueSince: string,
+  graceDays: number,
+  now = Date.now(),
+) =>
+  Math.max(
+    0,
+    graceDays - Math.floor((now - new Date(pastDueSince).getTime()) / DAY_MS),
+  );
+
+export async function fetchDunningSettings(): Promise<DunningSettings | null> {
+  const { data, error } = await supabase
+    .from("dunning_settings")
+    .select("*")
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/** Failed payment attempts for the user's subscriptions, newest first. */
+export async function fetchPaymentFailures(
+  userId: string,
+  limit = 10,
+): Promise<PaymentFailure[]> {
+  const { data, error } = await supabase
+    .from("payment_failures")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,2 @@
+// Shared with the edge functions, which deploy only supabase/functions
+export * from "../../supabase/functions/_shared/rules/feedback-quality";
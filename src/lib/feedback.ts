@@ -0,0 +1,151 @@
+import { supabase } from "../../supabase/supabase";
+import type { Json, Tables } from "@/types/supabase";
+import type { BadgeDefinition } from "@/lib/badges";
+import type { StreakResult } from "@/lib/streaks";
+
+export type Feedback = Tables<"feedback">;
+export type FeedbackScore = Tables<"feedback_scores">;
+export type DimensionAverage = Tables<"project_dimension_scores">;
+export type FeedbackWithScores = Feedback & { feedback_scores: FeedbackScore[] };
+
+export interface RubricDimension {
+  key: string;
+  label: string;
+}
+
+export interface DimensionScoreInput {
+  key: string;
+  score: number;
+  comment: string;
+}
+
+// Dimensions creators can pick from; the first four are the column default
+// on public.projects
+export const rubricPresets: RubricDimension[] = [
+  { key: "ux", label: "User experience" },
+  { key: "value_proposition", label: "Value proposition" },
+  { key: "pricing", label: "Pricing" },
+  { key: "copy", label: "Copy" },
+  { key: "visual_design", label: "Visual design" },
+  { key: "onboarding", label: "Onboarding" },
+  { key: "trust", label: "Trust & credibility" },
+];
+
+export const defaultRubric = rubricPresets.slice(0, 4);
+
+export const scoreLabels: Record<number, string> = {
+  1: "Poor",
+  2: "Weak",
+  3: "Okay",
+  4: "Good",
+  5: "Excellent",
+};
+
+export const toDimensionKey = (label: string) =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+/** Reads a project's rubric_dimensions column, dropping malformed entries. */
+export function parseRubric(value: Json | null | undefined): RubricDimension[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry) => {
+    if (
+      entry &&
+      typeof entry === "object" &&
+      !Array.isArray(entry) &&
+      typeof entry.key === "string" &&
+      typeof entry.label === "string"
+    ) {
+      return [{ key: entry.key, label: entry.label }];
+    }
+    return [];
+  });
+}
+
+export async function fetchProjectFeedback(
+  projectId: string,
+): Promise<FeedbackWithScores[]> {
+  const { data, error } = await supabase
+    .from("feedback")
+    .select("*, feedback_scores(*)")
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function fetchDimensionAverages(
+  projectId: string,
+): Promise<DimensionAverage[]> {
+  const { data, error } = await supabase
+    .from("project_dimension_scores")
+    .select("*")
+    .eq("project_id", projectId);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function submitFeedback(input: {
+  projectId: string;
+  pros: string;
+  cons: string;
+  scores: DimensionScoreInput[];
+  annotationIds?: string[];
+}): Promise<string> {
+  const { data, error } = await supabase.rpc("submit_feedback", {
+    p_project_id: input.projectId,
+    p_pros: input.pros,
+    p_cons: input.cons,
+    p_scores: input.scores as unknown as Json,
+    p_annotation_ids: input.annotationIds ?? [],
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export interface FeedbackActivity {
+  /** Badges unlocked by this activity */
+  badges: BadgeDefinition[];
+  /** null when the user has no feedback to count */
+  streak: StreakResult | null;
+}
+
+/**
+ * Tells the server the signed-in user has written feedback, so it can advance
+ * their streak and re-evaluate their badges.
+ */
+export async function recordFeedbackActivity(): Promise<FeedbackActivity> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-record-feedback-activity",
+  );
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Records the creator's helpful/not-helpful rating. Scoring, the points award
+ * and badge evaluation happen in the rate-feedback edge function; `badges`
+ * are any the creator unlocked by rating.
+ */
+export async function rateFeedback(
+  feedbackId: string,
+  helpful: boolean,
+): Promise<{ feedback: Feedback; points: number; badges: BadgeDefinition[] }> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-rate-feedback",
+    {
+      body: { feedback_id: feedbackId, helpful },
+    },
+  );
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,103 @@
+import { supabase } from "../../supabase/supabase";
+
+// A Stripe invoice as returned by the list-invoices edge function
+export interface Invoice {
+  id: string;
+  number: string | null;
+  /** Stripe timestamp (seconds) */
+  created: number;
+  description: string | null;
+  status: string | null;
+  total: number;
+  amount_paid: number;
+  amount_due: number;
+  currency: string;
+  hosted_invoice_url: string | null;
+  invoice_pdf: string | null;
+}
+
+export interface InvoicePage {
+  invoices: Invoice[];
+  has_more: boolean;
+  /** Pass as `startingAfter` to get the next page */
+  next_cursor: string | null;
+}
+
+export const INVOICE_PAGE_SIZE = 10;
+
+// Stripe invoice statuses (drafts are never listed)
+export const invoiceStatusLabels: Record<string, string> = {
+  open: "Open",
+  paid: "Paid",
+  uncollectible: "Uncollectible",
+  void: "Void",
+};
+
+export const getInvoiceStatusLabel = (status: string | null) =>
+  (status && invoiceStatusLabels[status]) ?? "Unknown";
+
+export async function fetchInvoices(
+  startingAfter?: string | null,
+  limit = INVOICE_PAGE_SIZE,
+): Promise<InvoicePage> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-list-invoices",
+    {
+      body: { limit, starting_after: startingAfter ?? undefined },
+    },
+  );
+
+  if (error) throw error;
+  return data;
+}
+
+// More than anyone needs for an expense report; stops a runaway export
+const MAX_EXPORT_PAGES = 20;
+
+/** Every invoice, page by page, for exporting. */
+export async function fetchAllInvoices(): Promise<Invoice[]> {
+  const invoices: Invoice[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < MAX_EXPORT_PAGES; page++) {
+    const result = await fetchInvoices(cursor, 100);
+    invoices.push(...result.invoices);
+    if (!result.has_more || !result.next_cursor) break;
+    cursor = result.next_cursor;
+  }
+
+  return invoices;
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Invoices as CSV, with ISO dates and amounts in major units (e.g. 12.50). */
+export function invoicesToCsv(invoices: Invoice[]): string {
+  const header = [
+    "Number",
+    "Date",
+    "Description",
+    "Status",
+    "Total",
+    "Paid",
+    "Currency",
+    "Invoice URL",
+    "PDF URL",
+  ];
+  const rows = invoices.map((invoice) => [
+    invoice.number,
+    new Date(invoice.created * 1000).toISOString().slice(0, 10),
+    invoice.description,
+    getInvoiceStatusLabel(invoice.status),
+    (invoice.total / 100).toFixed(2),
+    (invoice.amount_paid / 100).toFixed(2),
+    invoice.currency.toUpperCase(),
+    invoice.hosted_invoice_url,
+    invoice.invoice_pdf,
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
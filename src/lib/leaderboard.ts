@@ -0,0 +1,67 @@
+import { supabase } from "../../supabase/supabase";
+import type { Database } from "@/types/supabase";
+
+export type LeaderboardEntry =
+  Database["public"]["Functions"]["get_leaderboard"]["Returns"][number];
+
+export const leaderboardWindows = [
+  { value: "week", label: "This week" },
+  { value: "month", label: "This month" },
+  { value: "all", label: "All time" },
+] as const;
+
+export type LeaderboardWindow = (typeof leaderboardWindows)[number]["value"];
+
+export const LEADERBOARD_SIZE = 10;
+
+// Entries carry no user ids, so generated avatars are seeded by name
+export const leaderboardAvatar = (entry: LeaderboardEntry) =>
+  entry.avatar_url ||
+  `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(entry.display_name)}`;
+
+/**
+ * Ranked entries for a window and optional project category. When the
+ * signed-in viewer is outside the top `limit` their own entry is appended.
+ */
+export async function fetchLeaderboard({
+  window = "week",
+  category = null,
+  limit = LEADERBOARD_SIZE,
+}: {
+  window?: LeaderboardWindow;
+  category?: string | null;
+  limit?: number;
+} = {}): Promise<LeaderboardEntry[]> {
+  const { data, error } = await supabase.rpc("get_leaderboard", {
+    p_window: window,
+    p_category: category,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function fetchLeaderboardVisibility(
+  userId: string,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("users")
+    .select("show_on_leaderboard")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.show_on_leaderboard ?? true;
+}
+
+export async function updateLeaderboardVisibility(
+  visible: boolean,
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("set_leaderboard_visibility", {
+    p_visible: visible,
+  });
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,70 @@
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+
+export type Level = Tables<"levels">;
+
+export interface XpSources {
+  pointsEarned: number;
+  badgeCount: number;
+}
+
+export interface LevelProgress {
+  xp: number;
+  current: Level;
+  /** null once the top level is reached */
+  next: Level | null;
+  xpIntoLevel: number;
+  xpForNextLevel: number;
+  /** 0–100, for the Progress component */
+  percent: number;
+}
+
+// Each point earned is worth 1 XP; badges add a flat bonus on top
+export const XP_PER_POINT = 1;
+export const XP_PER_BADGE = 50;
+
+export const calculateXp = ({ pointsEarned, badgeCount }: XpSources) =>
+  Math.max(0, pointsEarned * XP_PER_POINT + badgeCount * XP_PER_BADGE);
+
+/** Places `xp` on the curve defined by `levels` (any order). */
+export function getLevelProgress(xp: number, levels: Level[]): LevelProgress | null {
+  const sorted = [...levels].sort((a, b) => a.xp_required - b.xp_required);
+  if (sorted.length === 0) return null;
+
+  const reached = sorted.filter((level) => xp >= level.xp_required).length;
+  const index = Math.max(0, reached - 1);
+  const current = sorted[index];
+  const next = sorted[index + 1] ?? null;
+  const xpIntoLevel = xp - current.xp_required;
+  const xpForNextLevel = next ? next.xp_required - current.xp_required : 0;
+
+  return {
+    xp,
+    current,
+    next,
+    xpIntoLevel,
+    xpForNextLevel,
+    percent: next ? Math.min(100, (xpIntoLevel / xpForNextLevel) * 100) : 100,
+  };
+}
+
+export async function fetchLevels(): Promise<Level[]> {
+  const { data, error } = await supabase
+    .from("levels")
+    .select("*")
+    .order("level", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function fetchXpSources(): Promise<XpSources> {
+  const { data, error } = await supabase.rpc("get_xp_sources");
+
+  if (error) throw error;
+  const row = data?.[0];
+  return {
+    pointsEarned: row?.points_earned ?? 0,
+    badgeCount: row?.badge_count ?? 0,
+  };
+}
@@ -0,0 +1,29 @@
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+
+export type Notification = Tables<"notifications">;
+
+const NOTIFICATION_LIMIT = 20;
+
+export async function fetchNotifications(
+  userId: string,
+): Promise<Notification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function markNotificationsRead(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const { error } = await supabase.rpc("mark_notifications_read", {
+    p_ids: ids,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,51 @@
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+
+export type PointTransaction = Tables<"point_transactions">;
+
+export const POINT_HISTORY_PAGE_SIZE = 20;
+
+// Human-readable labels for point_transactions.reason
+export const pointReasonLabels: Record<string, string> = {
+  signup_bonus: "Welcome bonus",
+  feedback_rated: "Feedback rated",
+  streak_milestone: "Streak milestone",
+  boost_redeemed: "Project boost",
+  boost_refund: "Boost refund",
+  credit_pack_purchase: "Credit pack",
+  credit_pack_refund: "Credit pack refunded",
+  credit_pack_dispute: "Credit pack disputed",
+  credit_pack_dispute_won: "Dispute resolved",
+  adjustment: "Adjustment",
+};
+
+export const getPointReasonLabel = (reason: string) =>
+  pointReasonLabels[reason] ??
+  reason.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+export const formatPoints = (amount: number) =>
+  new Intl.NumberFormat("en-US").format(amount);
+
+/** The signed-in user's balance, computed server-side from the ledger. */
+export async function fetchPointBalance(): Promise<number> {
+  const { data, error } = await supabase.rpc("get_point_balance");
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+export async function fetchPointTransactions(
+  userId: string,
+  page = 0,
+): Promise<{ transactions: PointTransaction[]; total: number }> {
+  const from = page * POINT_HISTORY_PAGE_SIZE;
+  const { data, error, count } = await supabase
+    .from("point_transactions")
+    .select("*", { count: "exact" })
+    .eq("user_id", userId)
+    .order("id", { ascending: false })
+    .range(from, from + POINT_HISTORY_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { transactions: data ?? [], total: count ?? 0 };
+}
@@ -0,0 +1,224 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "../../supabase/supabase";
+import type { Tables, TablesInsert, TablesUpdate } from "@/types/supabase";
+import type { BadgeDefinition } from "@/lib/badges";
+
+export type Project = Tables<"projects">;
+export type ProjectInput = Omit<
+  TablesInsert<"projects">,
+  "id" | "user_id" | "status" | "archived_at" | "created_at" | "updated_at"
+>;
+
+// Option lists mirror the CHECK constraints on public.projects
+export const projectCategories = [
+  { value: "website", label: "Website" },
+  { value: "saas", label: "SaaS Product" },
+  { value: "mobile_app", label: "Mobile App" },
+  { value: "ecommerce", label: "E-commerce" },
+  { value: "marketplace", label: "Marketplace" },
+  { value: "startup_idea", label: "Startup Idea" },
+  { value: "other", label: "Other" },
+] as const;
+
+export const projectStages = [
+  { value: "idea", label: "Idea" },
+  { value: "prototype", label: "Prototype" },
+  { value: "mvp", label: "MVP" },
+  { value: "launched", label: "Launched" },
+  { value: "growth", label: "Growth" },
+] as const;
+
+export const projectVisibilities = [
+  {
+    value: "public",
+    label: "Public",
+    description: "Listed for reviewers to discover",
+  },
+  {
+    value: "unlisted",
+    label: "Unlisted",
+    description: "Only reviewers with the link can open it",
+  },
+  {
+    value: "private",
+    label: "Private",
+    description: "Only visible to you",
+  },
+] as const;
+
+export type ProjectCategory = (typeof projectCategories)[number]["value"];
+export type ProjectStage = (typeof projectStages)[number]["value"];
+export type ProjectVisibility = (typeof projectVisibilities)[number]["value"];
+
+export const getCategoryLabel = (value: string) =>
+  projectCategories.find((c) => c.value === value)?.label ?? value;
+
+export const getStageLabel = (value: string) =>
+  projectStages.find((s) => s.value === value)?.label ?? value;
+
+export const getVisibilityLabel = (value: string) =>
+  projectVisibilities.find((v) => v.value === value)?.label ?? value;
+
+export async function fetchMyProjects(userId: string): Promise<Project[]> {
+  const { data, error } = await supabase
+    .from("projects")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function fetchProject(id: string): Promise<Project | null> {
+  const { data, error } = await supabase
+    .from("projects")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export type DiscoverableProject = Project & { boosted_until: string | null };
+
+/**
+ * Public, active projects from other creators. Projects with a running boost
+ * come first (longest-boosted first), then the rest newest first.
+ */
+export async function fetchDiscoverableProjects(
+  userId: string,
+): Promise<DiscoverableProject[]> {
+  const [
+    { data, error },
+    { data: boosts, error: boostsError },
+  ] = await Promise.all([
+    supabase
+      .from("projects")
+      .select("*")
+      .eq("visibility", "public")
+      .eq("status", "active")
+      .neq("user_id", userId)
+      .order("created_at", { ascending: false }),
+    supabase.from("boosted_projects").select("*"),
+  ]);
+
+  if (error) throw error;
+  if (boostsError) throw boostsError;
+
+  const boostsById = new Map(
+    (boosts ?? []).map((boost) => [boost.project_id, boost]),
+  );
+  const projects = (data ?? []).map((project) => ({
+    ...project,
+    boosted_until: boostsById.get(project.id)?.boosted_until ?? null,
+  }));
+  const boostedSince = (project: DiscoverableProject) =>
+    boostsById.get(project.id)?.boosted_since ?? "";
+
+  // Array.prototype.sort is stable, so unboosted projects keep their order
+  return projects.sort((a, b) => {
+    if (Boolean(a.boosted_until) !== Boolean(b.boosted_until)) {
+      return a.boosted_until ? -1 : 1;
+    }
+    return boostedSince(a).localeCompare(boostedSince(b));
+  });
+}
+
+/**
+ * Creates a project through the create-project edge function, which checks
+ * the creator's plan limits first. `badges` are any the creator unlocked by
+ * sharing it.
+ */
+export async function createProject(
+  input: ProjectInput,
+): Promise<{ project: Project; badges: BadgeDefinition[] }> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-create-project",
+    {
+      body: { project: input },
+    },
+  );
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateProject(
+  id: string,
+  changes: TablesUpdate<"projects">,
+): Promise<Project> {
+  const { data, error } = await supabase
+    .from("projects")
+    .update(changes)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export function archiveProject(id: string) {
+  return updateProject(id, {
+    status: "archived",
+    archived_at: new Date().toISOString(),
+  });
+}
+
+/** Restores an archived project if the plan has room for another active one. */
+export async function restoreProject(id: string): Promise<Project> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-restore-project",
+    {
+      body: { project_id: id },
+    },
+  );
+
+  if (error) throw error;
+  return data.project;
+}
+
+/**
+ * The message create-project / restore-project send when a plan limit blocks
+ * the request, or null for any other failure.
+ */
+export async function getPlanLimitMessage(
+  error: unknown,
+): Promise<string | null> {
+  if (!(error instanceof FunctionsHttpError) || error.context?.status !== 403) {
+    return null;
+  }
+  try {
+    const body = await error.context.json();
+    return body.error ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Uploads a screenshot into the creator's folder of the project-screenshots
+ * bucket and points the project at it.
+ */
+export async function uploadProjectScreenshot(
+  userId: string,
+  projectId: string,
+  file: File,
+): Promise<Project> {
+  const extension = file.name.split(".").pop() || "png";
+  const path = `${userId}/${projectId}-${Date.now()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from("project-screenshots")
+    .upload(path, file, { contentType: file.type });
+
+  if (error) throw error;
+
+  const {
+    data: { publicUrl },
+  } = supabase.storage.from("project-screenshots").getPublicUrl(path);
+
+  return updateProject(projectId, { screenshot_url: publicUrl });
+}
@@ -0,0 +1,15 @@
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+
+export type UserBadge = Tables<"user_badges">;
+
+export async function fetchUserBadges(userId: string): Promise<UserBadge[]> {
+  const { data, error } = await supabase
+    .from("user_badges")
+    .select("*")
+    .eq("user_id", userId)
+    .order("awarded_at", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
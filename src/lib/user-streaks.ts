@@ -0,0 +1,77 @@
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+import { StreakState, emptyStreak } from "@/lib/streaks";
+
+export type StreakDay = Tables<"streak_days">;
+
+export const browserTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export async function fetchStreak(userId: string): Promise<StreakState> {
+  const { data, error } = await supabase
+    .from("user_streaks")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return emptyStreak();
+
+  return {
+    currentStreak: data.current_streak,
+    longestStreak: data.longest_streak,
+    lastActiveDate: data.last_active_date,
+    streakStartedOn: data.streak_started_on,
+    freezesAvailable: data.freezes_available,
+  };
+}
+
+/** Streak days on or after `since` (YYYY-MM-DD). */
+export async function fetchStreakDays(
+  userId: string,
+  since: string,
+): Promise<StreakDay[]> {
+  const { data, error } = await supabase
+    .from("streak_days")
+    .select("*")
+    .eq("user_id", userId)
+    .gte("day", since)
+    .order("day", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function fetchUserTimezone(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("users")
+    .select("timezone")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.timezone ?? null;
+}
+
+/**
+ * Why a timezone change failed: set_user_timezone allows one change every
+ * 7 days and says when the next one is possible.
+ */
+export const getTimezoneErrorMessage = (error: unknown) => {
+  const { hint, message } = (error ?? {}) as {
+    hint?: string;
+    message?: string;
+  };
+  return hint === "timezone_change_too_soon" && message
+    ? message
+    : "Please try again.";
+};
+
+export async function updateUserTimezone(timeZone: string): Promise<string> {
+  const { data, error } = await supabase.rpc("set_user_timezone", {
+    p_timezone: timeZone,
+  });
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,94 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "../../supabase/supabase";
+import type { Tables } from "@/types/supabase";
+
+// A Stripe event as stored by the payments webhook. Only admins can read
+// these (see admin_users).
+export type WebhookEvent = Tables<"webhook_events">;
+
+export const WEBHOOK_EVENT_PAGE_SIZE = 25;
+
+// Stripe's event prefixes the webhook stores as `type`
+export const webhookEventTypes = ["checkout", "customer", "invoice", "charge"];
+
+export const webhookEventStatuses = [
+  "received",
+  "processing",
+  "succeeded",
+  "failed",
+];
+
+export interface WebhookEventFilters {
+  /** Event prefix, e.g. "invoice" */
+  type?: string;
+  /** Matches anywhere in the full event type, e.g. "payment_failed" */
+  eventType?: string;
+  status?: string;
+  /** Inclusive dates as yyyy-mm-dd */
+  from?: string;
+  to?: string;
+}
+
+export interface WebhookEventPage {
+  events: WebhookEvent[];
+  total: number;
+}
+
+export async function fetchWebhookEvents(
+  filters: WebhookEventFilters,
+  page = 0,
+): Promise<WebhookEventPage> {
+  let query = supabase
+    .from("webhook_events")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range(
+      page * WEBHOOK_EVENT_PAGE_SIZE,
+      (page + 1) * WEBHOOK_EVENT_PAGE_SIZE - 1,
+    );
+
+  if (filters.type) query = query.eq("type", filters.type);
+  if (filters.eventType) {
+    query = query.ilike("event_type", `%${filters.eventType}%`);
+  }
+  if (filters.status) query = query.eq("processing_status", filters.status);
+  if (filters.from) {
+    query = query.gte("created_at", new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    query = query.lt("created_at", end.toISOString());
+  }
+
+  const { data, error, count } = await query;
+
+  if (error) throw error;
+  return { events: data ?? [], total: count ?? 0 };
+}
+
+export interface WebhookEventReplay {
+  /** What the webhook handler answered */
+  result: { message?: string; error?: string } | null;
+  event: WebhookEvent;
+}
+
+/**
+ * Re-runs a failed event through the payments webhook handlers. Throws with
+ * the function's reason (not an admin, event not failed) when it refuses.
+ */
+export async function replayWebhookEvent(
+  eventId: string,
+): Promise<WebhookEventReplay> {
+  const { data, error } = await supabase.functions.invoke(
+    "supabase-functions-replay-webhook-event",
+    { body: { event_id: eventId } },
+  );
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw new Error(body?.error ?? error.message);
+  }
+  if (error) throw error;
+  return data;
+}
@@ -9,13 +9,1095 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      [_ in never]: never
+      billing_customers: {
+        Row: {
+          created_at: string
+          source: string
+          stripe_customer_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          source: string
+          stripe_customer_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          source?: string
+          stripe_customer_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "billing_customers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      boost_options: {
+        Row: {
+          cost: number
+          duration_hours: number
+          label: string
+        }
+        Insert: {
+          cost: number
+          duration_hours: number
+          label: string
+        }
+        Update: {
+          cost?: number
+          duration_hours?: number
+          label?: string
+        }
+        Relationships: []
+      }
+      credit_purchases: {
+        Row: {
+          amount: number
+          amount_refunded: number
+          created_at: string
+          currency: string
+          id: string
+          pack_name: string
+          point_transaction_id: number | null
+          points: number
+          points_clawed_back: number
+          stripe_checkout_session_id: string
+          stripe_payment_intent_id: string | null
+          stripe_price_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          amount_refunded?: number
+          created_at?: string
+          currency: string
+          id?: string
+          pack_name: string
+          point_transaction_id?: number | null
+          points: number
+          points_clawed_back?: number
+          stripe_checkout_session_id: string
+          stripe_payment_intent_id?: string | null
+          stripe_price_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          amount_refunded?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          pack_name?: string
+          point_transaction_id?: number | null
+          points?: number
+          points_clawed_back?: number
+          stripe_checkout_session_id?: string
+          stripe_payment_intent_id?: string | null
+          stripe_price_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_purchases_point_transaction_id_fkey"
+            columns: ["point_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "point_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_purchases_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      dunning_settings: {
+        Row: {
+          grace_days: number
+          id: boolean
+          reminder_days: number[]
+        }
+        Insert: {
+          grace_days?: number
+          id?: boolean
+          reminder_days?: number[]
+        }
+        Update: {
+          grace_days?: number
+          id?: boolean
+          reminder_days?: number[]
+        }
+        Relationships: []
+      }
+      feedback: {
+        Row: {
+          cons: string
+          created_at: string
+          helpful: boolean | null
+          id: string
+          points_awarded: number | null
+          project_id: string
+          pros: string
+          quality_score: number | null
+          rated_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cons: string
+          created_at?: string
+          helpful?: boolean | null
+          id?: string
+          points_awarded?: number | null
+          project_id: string
+          pros: string
+          quality_score?: number | null
+          rated_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cons?: string
+          created_at?: string
+          helpful?: boolean | null
+          id?: string
+          points_awarded?: number | null
+          project_id?: string
+          pros?: string
+          quality_score?: number | null
+          rated_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      feedback_annotations: {
+        Row: {
+          comment: string
+          created_at: string
+          feedback_id: string | null
+          height: number | null
+          id: string
+          image_url: string
+          kind: string
+          number: number
+          project_id: string
+          updated_at: string
+          user_id: string
+          width: number | null
+          x: number
+          y: number
+        }
+        Insert: {
+          comment?: string
+          created_at?: string
+          feedback_id?: string | null
+          height?: number | null
+          id?: string
+          image_url: string
+          kind: string
+          number: number
+          project_id: string
+          updated_at?: string
+          user_id: string
+          width?: number | null
+          x: number
+          y: number
+        }
+        Update: {
+          comment?: string
+          created_at?: string
+          feedback_id?: string | null
+          height?: number | null
+          id?: string
+          image_url?: string
+          kind?: string
+          number?: number
+          project_id?: string
+          updated_at?: string
+          user_id?: string
+          width?: number | null
+          x?: number
+          y?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_annotations_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedback"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_annotations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_annotations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      feedback_scores: {
+        Row: {
+          comment: string
+          created_at: string
+          dimension_key: string
+          dimension_label: string
+          feedback_id: string
+          id: string
+          score: number
+        }
+        Insert: {
+          comment?: string
+          created_at?: string
+          dimension_key: string
+          dimension_label: string
+          feedback_id: string
+          id?: string
+          score: number
+        }
+        Update: {
+          comment?: string
+          created_at?: string
+          dimension_key?: string
+          dimension_label?: string
+          feedback_id?: string
+          id?: string
+          score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_scores_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedback"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      levels: {
+        Row: {
+          level: number
+          name: string
+          perks: string[]
+          xp_required: number
+        }
+        Insert: {
+          level: number
+          name: string
+          perks?: string[]
+          xp_required: number
+        }
+        Update: {
+          level?: number
+          name?: string
+          perks?: string[]
+          xp_required?: number
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          kind: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          kind: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          kind?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      payment_failures: {
+        Row: {
+          amount_due: number
+          attempt_count: number
+          created_at: string
+          currency: string
+          failure_message: string | null
+          hosted_invoice_url: string | null
+          id: string
+          next_payment_attempt: number | null
+          stripe_invoice_id: string
+          stripe_subscription_id: string
+          user_id: string
+        }
+        Insert: {
+          amount_due: number
+          attempt_count: number
+          created_at?: string
+          currency: string
+          failure_message?: string | null
+          hosted_invoice_url?: string | null
+          id?: string
+          next_payment_attempt?: number | null
+          stripe_invoice_id: string
+          stripe_subscription_id: string
+          user_id: string
+        }
+        Update: {
+          amount_due?: number
+          attempt_count?: number
+          created_at?: string
+          currency?: string
+          failure_message?: string | null
+          hosted_invoice_url?: string | null
+          id?: string
+          next_payment_attempt?: number | null
+          stripe_invoice_id?: string
+          stripe_subscription_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_failures_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      point_transactions: {
+        Row: {
+          amount: number
+          balance_after: number
+          created_at: string
+          description: string | null
+          id: number
+          reason: string
+          source_id: string | null
+          source_type: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          created_at?: string
+          description?: string | null
+          id?: number
+          reason: string
+          source_id?: string | null
+          source_type?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          description?: string | null
+          id?: number
+          reason?: string
+          source_id?: string | null
+          source_type?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "point_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      project_boosts: {
+        Row: {
+          cancelled_at: string | null
+          created_at: string
+          ends_at: string
+          id: string
+          paid_with: string
+          points_refunded: number
+          points_spent: number
+          project_id: string
+          starts_at: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          created_at?: string
+          ends_at: string
+          id?: string
+          paid_with?: string
+          points_refunded?: number
+          points_spent: number
+          project_id: string
+          starts_at: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          created_at?: string
+          ends_at?: string
+          id?: string
+          paid_with?: string
+          points_refunded?: number
+          points_spent?: number
+          project_id?: string
+          starts_at?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_boosts_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_boosts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          archived_at: string | null
+          category: string
+          created_at: string
+          description: string | null
+          goals: string | null
+          id: string
+          rubric_dimensions: Json
+          screenshot_url: string | null
+          stage: string
+          status: string
+          title: string
+          updated_at: string
+          url: string | null
+          user_id: string
+          visibility: string
+        }
+        Insert: {
+          archived_at?: string | null
+          category: string
+          created_at?: string
+          description?: string | null
+          goals?: string | null
+          id?: string
+          rubric_dimensions?: Json
+          screenshot_url?: string | null
+          stage: string
+          status?: string
+          title: string
+          updated_at?: string
+          url?: string | null
+          user_id: string
+          visibility?: string
+        }
+        Update: {
+          archived_at?: string | null
+          category?: string
+          created_at?: string
+          description?: string | null
+          goals?: string | null
+          id?: string
+          rubric_dimensions?: Json
+          screenshot_url?: string | null
+          stage?: string
+          status?: string
+          title?: string
+          updated_at?: string
+          url?: string | null
+          user_id?: string
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      streak_days: {
+        Row: {
+          created_at: string
+          day: string
+          kind: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          day: string
+          kind?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          day?: string
+          kind?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "streak_days_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      subscriptions: {
+        Row: {
+          amount: number | null
+          cancel_at_period_end: boolean | null
+          canceled_at: number | null
+          created_at: string
+          currency: string | null
+          current_period_end: number | null
+          current_period_start: number | null
+          custom_field_data: Json | null
+          customer_cancellation_comment: string | null
+          customer_cancellation_reason: string | null
+          customer_id: string | null
+          downgraded_at: string | null
+          ended_at: number | null
+          ends_at: number | null
+          entitlements: Json | null
+          id: string
+          interval: string | null
+          last_event_created_at: string | null
+          metadata: Json | null
+          past_due_since: string | null
+          price_id: string | null
+          started_at: number | null
+          status: string | null
+          stripe_id: string | null
+          stripe_price_id: string | null
+          trial_end: number | null
+          trial_start: number | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          amount?: number | null
+          cancel_at_period_end?: boolean | null
+          canceled_at?: number | null
+          created_at?: string
+          currency?: string | null
+          current_period_end?: number | null
+          current_period_start?: number | null
+          custom_field_data?: Json | null
+          customer_cancellation_comment?: string | null
+          customer_cancellation_reason?: string | null
+          customer_id?: string | null
+          downgraded_at?: string | null
+          ended_at?: number | null
+          ends_at?: number | null
+          entitlements?: Json | null
+          id?: string
+          interval?: string | null
+          last_event_created_at?: string | null
+          metadata?: Json | null
+          past_due_since?: string | null
+          price_id?: string | null
+          started_at?: number | null
+          status?: string | null
+          stripe_id?: string | null
+          stripe_price_id?: string | null
+          trial_end?: number | null
+          trial_start?: number | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number | null
+          cancel_at_period_end?: boolean | null
+          canceled_at?: number | null
+          created_at?: string
+          currency?: string | null
+          current_period_end?: number | null
+          current_period_start?: number | null
+          custom_field_data?: Json | null
+          customer_cancellation_comment?: string | null
+          customer_cancellation_reason?: string | null
+          customer_id?: string | null
+          downgraded_at?: string | null
+          ended_at?: number | null
+          ends_at?: number | null
+          entitlements?: Json | null
+          id?: string
+          interval?: string | null
+          last_event_created_at?: string | null
+          metadata?: Json | null
+          past_due_since?: string | null
+          price_id?: string | null
+          started_at?: number | null
+          status?: string | null
+          stripe_id?: string | null
+          stripe_price_id?: string | null
+          trial_end?: number | null
+          trial_start?: number | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      user_badges: {
+        Row: {
+          awarded_at: string
+          badge_id: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          awarded_at?: string
+          badge_id: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          awarded_at?: string
+          badge_id?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_badges_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      user_streaks: {
+        Row: {
+          current_streak: number
+          freezes_available: number
+          last_active_date: string | null
+          longest_streak: number
+          streak_started_on: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          current_streak?: number
+          freezes_available?: number
+          last_active_date?: string | null
+          longest_streak?: number
+          streak_started_on?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          current_streak?: number
+          freezes_available?: number
+          last_active_date?: string | null
+          longest_streak?: number
+          streak_started_on?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_streaks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          credits: string | null
+          email: string | null
+          full_name: string | null
+          id: string
+          image: string | null
+          name: string | null
+          show_on_leaderboard: boolean
+          stripe_customer_id: string | null
+          subscription: string | null
+          timezone: string | null
+          timezone_changed_at: string | null
+          token_identifier: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          credits?: string | null
+          email?: string | null
+          full_name?: string | null
+          id: string
+          image?: string | null
+          name?: string | null
+          show_on_leaderboard?: boolean
+          stripe_customer_id?: string | null
+          subscription?: string | null
+          timezone?: string | null
+          timezone_changed_at?: string | null
+          token_identifier: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          credits?: string | null
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          image?: string | null
+          name?: string | null
+          show_on_leaderboard?: boolean
+          stripe_customer_id?: string | null
+          subscription?: string | null
+          timezone?: string | null
+          timezone_changed_at?: string | null
+          token_identifier?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      webhook_events: {
+        Row: {
+          attempts: number
+          created_at: string
+          data: Json | null
+          event_created_at: string | null
+          event_type: string
+          id: string
+          last_error: string | null
+          last_replayed_at: string | null
+          last_replayed_by: string | null
+          modified_at: string
+          processed_at: string | null
+          processing_started_at: string | null
+          processing_status: string
+          replay_count: number
+          skip_reason: string | null
+          stripe_event_id: string | null
+          type: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          data?: Json | null
+          event_created_at?: string | null
+          event_type: string
+          id?: string
+          last_error?: string | null
+          last_replayed_at?: string | null
+          last_replayed_by?: string | null
+          modified_at?: string
+          processed_at?: string | null
+          processing_started_at?: string | null
+          processing_status?: string
+          replay_count?: number
+          skip_reason?: string | null
+          stripe_event_id?: string | null
+          type: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          data?: Json | null
+          event_created_at?: string | null
+          event_type?: string
+          id?: string
+          last_error?: string | null
+          last_replayed_at?: string | null
+          last_replayed_by?: string | null
+          modified_at?: string
+          processed_at?: string | null
+          processing_started_at?: string | null
+          processing_status?: string
+          replay_count?: number
+          skip_reason?: string | null
+          stripe_event_id?: string | null
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_events_last_replayed_by_fkey"
+            columns: ["last_replayed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      boosted_projects: {
+        Row: {
+          boosted_since: string | null
+          boosted_until: string | null
+          project_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_boosts_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_dimension_scores: {
+        Row: {
+          average_score: number | null
+          dimension_key: string | null
+          dimension_label: string | null
+          project_id: string | null
+          review_count: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      award_points: {
+        Args: {
+          p_allow_negative?: boolean
+          p_amount: number
+          p_description?: string
+          p_reason: string
+          p_source_id?: string
+          p_source_type?: string
+          p_user_id: string
+        }
+        Returns: {
+          amount: number
+          balance_after: number
+          created_at: string
+          description: string | null
+          id: number
+          reason: string
+          source_id: string | null
+          source_type: string | null
+          user_id: string
+        }
+      }
+      cancel_project_boost: {
+        Args: {
+          p_boost_id: string
+        }
+        Returns: {
+          cancelled_at: string | null
+          created_at: string
+          ends_at: string
+          id: string
+          points_refunded: number
+          points_spent: number
+          project_id: string
+          starts_at: string
+          status: string
+          user_id: string
+        }
+      }
+      get_badge_stats: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      get_leaderboard: {
+        Args: {
+          p_category?: string
+          p_limit?: number
+          p_window?: string
+        }
+        Returns: {
+          avatar_url: string | null
+          display_name: string
+          is_viewer: boolean
+          points: number
+          rank: number | null
+        }[]
+      }
+      get_point_balance: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      get_xp_sources: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          badge_count: number
+          points_earned: number
+        }[]
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      mark_notifications_read: {
+        Args: {
+          p_ids: string[]
+        }
+        Returns: undefined
+      }
+      redeem_project_boost: {
+        Args: {
+          p_duration_hours: number
+          p_project_id: string
+          p_starts_at?: string
+        }
+        Returns: {
+          cancelled_at: string | null
+          created_at: string
+          ends_at: string
+          id: string
+          points_refunded: number
+          points_spent: number
+          project_id: string
+          starts_at: string
+          status: string
+          user_id: string
+        }
+      }
+      running_boost_windows: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          boosted_since: string
+          boosted_until: string
+          project_id: string
+        }[]
+      }
+      save_reviewer_annotations: {
+        Args: {
+          p_annotations: Json
+          p_image_url: string
+          p_project_id: string
+        }
+        Returns: {
+          comment: string
+          created_at: string
+          feedback_id: string | null
+          height: number | null
+          id: string
+          image_url: string
+          kind: string
+          number: number
+          project_id: string
+          updated_at: string
+          user_id: string
+          width: number | null
+          x: number
+          y: number
+        }[]
+      }
+      set_leaderboard_visibility: {
+        Args: {
+          p_visible: boolean
+        }
+        Returns: boolean
+      }
+      set_user_timezone: {
+        Args: {
+          p_timezone: string
+        }
+        Returns: string
+      }
+      submit_feedback: {
+        Args: {
+          p_annotation_ids?: string[]
+          p_cons: string
+          p_project_id: string
+          p_pros: string
+          p_scores: Json
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,73 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { useAuth } from "./auth";
+import { Subscription, fetchCurrentSubscription } from "@/lib/billing";
+import {
+  Entitlements,
+  planEntitlements,
+  resolveEntitlements,
+} from "@/lib/entitlements";
+
+type EntitlementsContextType = {
+  entitlements: Entitlements;
+  subscription: Subscription | null;
+  loading: boolean;
+  refresh: () => Promise<void>;
+};
+
+const EntitlementsContext = createContext<EntitlementsContextType | undefined>(
+  undefined,
+);
+
+// What the signed-in user's plan allows, for showing limits in the UI. The
+// edge functions enforce the same limits server-side.
+export function EntitlementsProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { user } = useAuth();
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = async () => {
+    if (!user) {
+      setSubscription(null);
+      setLoading(false);
+      return;
+    }
+    try {
+      setSubscription(await fetchCurrentSubscription(user.id));
+    } catch (error) {
+      console.error("Failed to load entitlements:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [user?.id]);
+
+  const entitlements = subscription
+    ? resolveEntitlements(subscription)
+    : planEntitlements.free;
+
+  return (
+    <EntitlementsContext.Provider
+      value={{ entitlements, subscription, loading, refresh }}
+    >
+      {children}
+    </EntitlementsContext.Provider>
+  );
+}
+
+export function useEntitlements() {
+  const context = useContext(EntitlementsContext);
+  if (context === undefined) {
+    throw new Error(
+      "useEntitlements must be used within an EntitlementsProvider",
+    );
+  }
+  return context;
+}
@@ -0,0 +1,43 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { evaluateBadges } from './rules/badges.ts';
+import type { BadgeDefinition, BadgeStats } from './rules/badges.ts';
+
+/**
+ * Evaluates the badge catalog against a user's current stats and records any
+ * newly earned badges. Safe to call repeatedly: the (user_id, badge_id)
+ * unique key makes concurrent awards no-ops.
+ */
+export async function awardEarnedBadges(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<BadgeDefinition[]> {
+  const [{ data: stats, error: statsError }, { data: earned, error: earnedError }] =
+    await Promise.all([
+      supabaseClient.rpc('get_badge_stats', { p_user_id: userId }),
+      supabaseClient.from('user_badges').select('badge_id').eq('user_id', userId),
+    ]);
+
+  if (statsError) throw statsError;
+  if (earnedError) throw earnedError;
+
+  const unlocked = evaluateBadges(
+    stats as BadgeStats,
+    (earned ?? []).map((row) => row.badge_id),
+  );
+
+  if (unlocked.length === 0) return [];
+
+  const { data: inserted, error: insertError } = await supabaseClient
+    .from('user_badges')
+    .upsert(
+      unlocked.map((badge) => ({ user_id: userId, badge_id: badge.id })),
+      { onConflict: 'user_id,badge_id', ignoreDuplicates: true },
+    )
+    .select('badge_id');
+
+  if (insertError) throw insertError;
+
+  // Only report badges this call actually inserted
+  const insertedIds = new Set((inserted ?? []).map((row) => row.badge_id));
+  return unlocked.filter((badge) => insertedIds.has(badge.id));
+}
@@ -0,0 +1,104 @@
+import type Stripe from 'https://esm.sh/stripe@13.6.0?target=deno';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type BillingCustomerSource = 'checkout' | 'subscription' | 'reconciliation';
+
+/**
+ * Records that a Stripe customer belongs to a user. A customer already
+ * linked keeps its user; linking adopts any of its orphaned subscriptions.
+ */
+export async function linkBillingCustomer(
+  supabaseClient: SupabaseClient,
+  customerId: string,
+  userId: string,
+  source: BillingCustomerSource,
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from('billing_customers')
+    .upsert(
+      { stripe_customer_id: customerId, user_id: userId, source },
+      { onConflict: 'stripe_customer_id', ignoreDuplicates: true },
+    );
+
+  if (error) throw error;
+}
+
+/** The user a Stripe customer belongs to, or null when it isn't linked. */
+export async function findCustomerUser(
+  supabaseClient: SupabaseClient,
+  customerId: string | null | undefined,
+): Promise<string | null> {
+  if (!customerId) return null;
+
+  const { data, error } = await supabaseClient
+    .from('billing_customers')
+    .select('user_id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.user_id ?? null;
+}
+
+/**
+ * The user's Stripe customer id: the one saved on their `users` row, else
+ * the customer on their latest subscription, else a new customer. The
+ * result is saved so every later checkout reuses it.
+ */
+export async function getOrCreateStripeCustomer(
+  stripe: Stripe,
+  supabaseClient: SupabaseClient,
+  user: { id: string; email?: string },
+): Promise<string> {
+  const { data: profile, error: profileError } = await supabaseClient
+    .from('users')
+    .select('stripe_customer_id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+  if (!profile) throw new Error('User profile not found');
+  if (profile.stripe_customer_id) return profile.stripe_customer_id;
+
+  const { data: subscription, error: subscriptionError } = await supabaseClient
+    .from('subscriptions')
+    .select('customer_id')
+    .eq('user_id', user.id)
+    .not('customer_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (subscriptionError) throw subscriptionError;
+
+  // The idempotency key stops two checkouts started together from creating
+  // two customers for the same user
+  const customerId = subscription?.customer_id ?? (
+    await stripe.customers.create(
+      { email: user.email, metadata: { user_id: user.id } },
+      { idempotencyKey: `create-customer-${user.id}` },
+    )
+  ).id;
+
+  await linkBillingCustomer(supabaseClient, customerId, user.id, 'checkout');
+
+  const { data: saved, error: saveError } = await supabaseClient
+    .from('users')
+    .update({ stripe_customer_id: customerId })
+    .eq('user_id', user.id)
+    .is('stripe_customer_id', null)
+    .select('stripe_customer_id');
+
+  if (saveError) throw saveError;
+  if (saved.length) return customerId;
+
+  // Another checkout saved one first
+  const { data: current, error: currentError } = await supabaseClient
+    .from('users')
+    .select('stripe_customer_id')
+    .eq('user_id', user.id)
+    .single();
+
+  if (currentError) throw currentError;
+  return current.stripe_customer_id;
+}
@@ -0,0 +1,45 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { entitledStatuses, resolveEntitlements } from './rules/entitlements.ts';
+import type { Entitlements } from './rules/entitlements.ts';
+
+/** The user's entitlements from their newest subscription that still grants them. */
+export async function loadEntitlements(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<Entitlements> {
+  const { data, error } = await supabaseClient
+    .from('subscriptions')
+    .select('status, entitlements, downgraded_at')
+    .eq('user_id', userId)
+    .in('status', entitledStatuses)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return resolveEntitlements(data);
+}
+
+// The limits create_project_within_limits and restore_project_within_limits
+// enforce, by the HINT they raise with
+const limitHints = {
+  max_active_projects: 'maxActiveProjects',
+  feedback_requests_per_month: 'feedbackRequestsPerMonth',
+} as const;
+
+export type ProjectLimit = (typeof limitHints)[keyof typeof limitHints];
+
+/** The plan limit a project RPC error reports, if it was one. */
+export const projectLimitFromError = (error: { hint?: string } | null): ProjectLimit | null =>
+  (error?.hint && limitHints[error.hint as keyof typeof limitHints]) || null;
+
+/** Why the user's plan turned the request away, for the given limit. */
+export function projectLimitMessage(limit: ProjectLimit, entitlements: Entitlements): string {
+  if (limit === 'maxActiveProjects') {
+    return `Your plan allows ${entitlements.maxActiveProjects} active ` +
+      `${entitlements.maxActiveProjects === 1 ? 'project' : 'projects'}. ` +
+      'Archive one or upgrade to add more.';
+  }
+  return `Your plan allows ${entitlements.feedbackRequestsPerMonth} feedback ` +
+    'requests a month. Upgrade to share more projects this month.';
+}
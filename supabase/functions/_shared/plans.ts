@@ -0,0 +1,39 @@
+import type Stripe from 'https://esm.sh/stripe@13.6.0?target=deno';
+import {
+  Entitlements,
+  entitlementsFromMetadata,
+  tierFromProductId,
+} from './rules/entitlements.ts';
+
+/**
+ * Free trial length for a plan price, from `trial_days` metadata on the
+ * price or else its product. 0 means no trial.
+ */
+export function getTrialDays(price: Stripe.Price, product: Stripe.Product): number {
+  const value = price.metadata.trial_days ?? product.metadata.trial_days;
+  const days = Math.floor(Number(value));
+  return Number.isFinite(days) && days > 0 ? days : 0;
+}
+
+/**
+ * Points a credit pack price grants, from `credit_points` metadata on the
+ * price or else its product. 0 means the price isn't a credit pack.
+ */
+export function getCreditPoints(price: Stripe.Price, product: Stripe.Product): number {
+  const value = price.metadata.credit_points ?? product.metadata.credit_points;
+  const points = Math.floor(Number(value));
+  return price.type === 'one_time' && Number.isFinite(points) && points > 0 ? points : 0;
+}
+
+/** What a plan price allows, from its product and price metadata. */
+export async function getPriceEntitlements(
+  stripe: Stripe,
+  priceId: string,
+): Promise<Entitlements> {
+  const price = await stripe.prices.retrieve(priceId, { expand: ['product'] });
+  const product = price.product as Stripe.Product;
+  return entitlementsFromMetadata(
+    [product.metadata, price.metadata],
+    tierFromProductId(product.id),
+  );
+}
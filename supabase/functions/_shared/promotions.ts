@@ -0,0 +1,79 @@
+import type Stripe from 'https://esm.sh/stripe@13.6.0?target=deno';
+
+export type PromotionCheck =
+  | { valid: true; promotionCode: Stripe.PromotionCode; description: string }
+  | { valid: false; reason: string };
+
+// e.g. "20% off for 3 months"
+function describeCoupon(coupon: Stripe.Coupon): string {
+  const amount = coupon.percent_off
+    ? `${coupon.percent_off}% off`
+    : `${((coupon.amount_off ?? 0) / 100).toFixed(2)} ${coupon.currency?.toUpperCase()} off`;
+
+  if (coupon.duration === 'forever') return amount;
+  if (coupon.duration === 'repeating' && coupon.duration_in_months) {
+    return `${amount} for ${coupon.duration_in_months} ${
+      coupon.duration_in_months === 1 ? 'month' : 'months'
+    }`;
+  }
+  return `${amount} the first payment`;
+}
+
+/**
+ * Looks up a customer-facing promotion code and checks it can be redeemed,
+ * for `price` when given. Stripe enforces the rest (e.g. first-time-only
+ * codes) when the checkout session is completed.
+ */
+export async function validatePromotionCode(
+  stripe: Stripe,
+  code: string,
+  price?: Stripe.Price,
+): Promise<PromotionCheck> {
+  const { data } = await stripe.promotionCodes.list({
+    code: code.trim(),
+    active: true,
+    limit: 1,
+    expand: ['data.coupon.applies_to'],
+  });
+  const promotionCode = data[0];
+  const coupon = promotionCode?.coupon;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (!promotionCode || !coupon.valid) {
+    return { valid: false, reason: "This code isn't valid." };
+  }
+
+  if (promotionCode.expires_at && promotionCode.expires_at <= now) {
+    return { valid: false, reason: 'This code has expired.' };
+  }
+
+  if (
+    promotionCode.max_redemptions &&
+    promotionCode.times_redeemed >= promotionCode.max_redemptions
+  ) {
+    return { valid: false, reason: 'This code has been fully redeemed.' };
+  }
+
+  if (price) {
+    const productId = typeof price.product === 'string' ? price.product : price.product.id;
+    const products = coupon.applies_to?.products;
+    if (products?.length && !products.includes(productId)) {
+      return { valid: false, reason: "This code doesn't apply to this plan." };
+    }
+
+    const minimum = promotionCode.restrictions.minimum_amount;
+    if (
+      minimum &&
+      promotionCode.restrictions.minimum_amount_currency === price.currency &&
+      (price.unit_amount ?? 0) < minimum
+    ) {
+      return { valid: false, reason: "This code doesn't apply to this plan." };
+    }
+
+    if (coupon.amount_off && coupon.currency !== price.currency) {
+      return { valid: false, reason: "This code doesn't apply to this plan." };
+    }
+  }
+
+  return { valid: true, promotionCode, description: describeCoupon(coupon) };
+}
@@ -0,0 +1,15 @@
+/**
+ * Whether `url` is a page of the app itself (same origin as `siteUrl`, the
+ * SITE_URL secret). Stripe sends customers to the return URLs we give it
+ * after checkout or the portal, so anything else would make these functions
+ * an open redirect.
+ */
+export function isAppUrl(url: unknown, siteUrl: string): boolean {
+  if (typeof url !== 'string' || !siteUrl) return false;
+
+  try {
+    return new URL(url).origin === new URL(siteUrl).origin;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Achievement badges
+ *
+ * Each badge is a declarative rule over a user's activity stats. The stats
+ * come from public.get_badge_stats() and the rules are evaluated by the edge
+ * functions whenever feedback or ratings are written. Kept with the edge
+ * functions (and import-free) so their deploy bundle includes it; the app
+ * imports it through src/lib/badges.ts.
+ */
+
+export type BadgeMetric =
+  | "feedbackGiven"
+  | "helpfulFeedback"
+  | "highQualityFeedback"
+  | "categoriesReviewed"
+  | "annotationsPlaced"
+  | "projectsShared"
+  | "ratingsGiven";
+
+export type BadgeStats = Record<BadgeMetric, number>;
+
+export interface BadgeRule {
+  metric: BadgeMetric;
+  atLeast: number;
+}
+
+export type BadgeTier = "bronze" | "silver" | "gold";
+
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** lucide-react icon name, resolved by the UI */
+  icon: string;
+  tier: BadgeTier;
+  rule: BadgeRule;
+}
+
+export const badgeCatalog: BadgeDefinition[] = [
+  {
+    id: "first_feedback",
+    name: "First Steps",
+    description: "Submit your first piece of feedback",
+    icon: "MessageSquare",
+    tier: "bronze",
+    rule: { metric: "feedbackGiven", atLeast: 1 },
+  },
+  {
+    id: "feedback_25",
+    name: "Regular Reviewer",
+    description: "Submit 25 pieces of feedback",
+    icon: "MessagesSquare",
+    tier: "silver",
+    rule: { metric: "feedbackGiven", atLeast: 25 },
+  },
+  {
+    id: "helpful_10",
+    name: "Helping Hand",
+    description: "Have 10 pieces of feedback rated helpful",
+    icon: "ThumbsUp",
+    tier: "silver",
+    rule: { metric: "helpfulFeedback", atLeast: 10 },
+  },
+  {
+    id: "helpful_50",
+    name: "Trusted Voice",
+    description: "Have 50 pieces of feedback rated helpful",
+    icon: "Award",
+    tier: "gold",
+    rule: { metric: "helpfulFeedback", atLeast: 50 },
+  },
+  {
+    id: "high_quality_5",
+    name: "Sharp Eye",
+    description: "Write 5 reviews with a quality score of 80 or more",
+    icon: "Sparkles",
+    tier: "silver",
+    rule: { metric: "highQualityFeedback", atLeast: 5 },
+  },
+  {
+    id: "new_category",
+    name: "Trailblazer",
+    description: "Review a project in a category you haven't reviewed before",
+    icon: "Compass",
+    tier: "bronze",
+    rule: { metric: "categoriesReviewed", atLeast: 2 },
+  },
+  {
+    id: "all_rounder",
+    name: "All-Rounder",
+    description: "Review projects in 5 different categories",
+    icon: "Globe",
+    tier: "gold",
+    rule: { metric: "categoriesReviewed", atLeast: 5 },
+  },
+  {
+    id: "annotator_25",
+    name: "Pinpointer",
+    description: "Place 25 annotations on project screenshots",
+    icon: "MapPin",
+    tier: "silver",
+    rule: { metric: "annotationsPlaced", atLeast: 25 },
+  },
+  {
+    id: "first_project",
+    name: "Launchpad",
+    description: "Share your first project for feedback",
+    icon: "Rocket",
+    tier: "bronze",
+    rule: { metric: "projectsShared", atLeast: 1 },
+  },
+  {
+    id: "ratings_10",
+    name: "Good Listener",
+    description: "Rate 10 pieces of feedback on your projects",
+    icon: "Ear",
+    tier: "bronze",
+    rule: { metric: "ratingsGiven", atLeast: 10 },
+  },
+];
+
+export const getBadge = (id: string) =>
+  badgeCatalog.find((badge) => badge.id === id);
+
+export const meetsRule = (rule: BadgeRule, stats: BadgeStats) =>
+  (stats[rule.metric] ?? 0) >= rule.atLeast;
+
+/** Badges whose rules `stats` satisfies and that aren't in `earnedIds` yet. */
+export function evaluateBadges(
+  stats: BadgeStats,
+  earnedIds: Iterable<string> = [],
+): BadgeDefinition[] {
+  const earned = new Set(earnedIds);
+  return badgeCatalog.filter(
+    (badge) => !earned.has(badge.id) && meetsRule(badge.rule, stats),
+  );
+}
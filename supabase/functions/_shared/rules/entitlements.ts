@@ -0,0 +1,175 @@
+/**
+ * Plan entitlements
+ *
+ * What each plan allows. The payments webhook resolves a subscription's
+ * entitlements from its Stripe product and price metadata and stores the
+ * result on subscriptions.entitlements; the app and the edge functions read
+ * that snapshot through resolveEntitlements(). Kept with the edge functions
+ * (and import-free) so their deploy bundle includes it; the app imports it
+ * through src/lib/entitlements.ts.
+ *
+ * Supported metadata keys (price metadata overrides product metadata):
+ *   tier                          free | basic | pro | enterprise
+ *   max_active_projects           number or "unlimited"
+ *   feedback_requests_per_month   number or "unlimited"
+ *   boost_credits_per_month       number
+ */
+
+export type PlanTier = "free" | "basic" | "pro" | "enterprise";
+
+export interface Entitlements {
+  tier: PlanTier;
+  /** Projects that can be active at once; null means unlimited */
+  maxActiveProjects: number | null;
+  /**
+   * Feedback requests per calendar month (UTC); null means unlimited. A
+   * feedback request is a project posted for feedback, so this counts
+   * projects created in the month, archived ones included.
+   */
+  feedbackRequestsPerMonth: number | null;
+  /** Boosts per calendar month (UTC) that cost no points */
+  boostCreditsPerMonth: number;
+}
+
+export const planEntitlements: Record<PlanTier, Entitlements> = {
+  free: {
+    tier: "free",
+    maxActiveProjects: 1,
+    feedbackRequestsPerMonth: 2,
+    boostCreditsPerMonth: 0,
+  },
+  basic: {
+    tier: "basic",
+    maxActiveProjects: 3,
+    feedbackRequestsPerMonth: 10,
+    boostCreditsPerMonth: 1,
+  },
+  pro: {
+    tier: "pro",
+    maxActiveProjects: 10,
+    feedbackRequestsPerMonth: 50,
+    boostCreditsPerMonth: 4,
+  },
+  enterprise: {
+    tier: "enterprise",
+    maxActiveProjects: null,
+    feedbackRequestsPerMonth: null,
+    boostCreditsPerMonth: 10,
+  },
+};
+
+/**
+ * What a past-due subscription keeps once the dunning grace period has run
+ * out (see process_dunning), until the payment recovers. Existing projects
+ * stay as they are; new ones are held to the free plan's limits.
+ */
+export const graceEntitlements: Entitlements = {
+  ...planEntitlements.free,
+};
+
+// Subscription statuses that keep the plan's entitlements. past_due keeps
+// them while Stripe retries the payment, until the grace period ends.
+export const entitledStatuses = ["active", "trialing", "past_due"];
+
+const isPlanTier = (value: unknown): value is PlanTier =>
+  typeof value === "string" && value in planEntitlements;
+
+/** Tier for products that don't set tier metadata, from the product id. */
+export const tierFromProductId = (productId: string): PlanTier =>
+  productId.includes("ENTERPRISE")
+    ? "enterprise"
+    : productId.includes("PRO")
+      ? "pro"
+      : "basic";
+
+const parseLimit = (
+  value: unknown,
+  fallback: number | null,
+): number | null => {
+  if (value === "unlimited" || value === null) return null;
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed)
+    ? Math.max(0, Math.floor(parsed))
+    : fallback;
+};
+
+/**
+ * Builds entitlements from Stripe metadata, later entries taking precedence
+ * (pass product metadata first, then price metadata).
+ */
+export function entitlementsFromMetadata(
+  metadata: Array<Record<string, string> | null | undefined>,
+  fallbackTier: PlanTier = "basic",
+): Entitlements {
+  const merged: Record<string, string> = Object.assign({}, ...metadata);
+  const tier = isPlanTier(merged.tier) ? merged.tier : fallbackTier;
+  const base = planEntitlements[tier];
+
+  return {
+    tier,
+    maxActiveProjects: parseLimit(
+      merged.max_active_projects,
+      base.maxActiveProjects,
+    ),
+    feedbackRequestsPerMonth: parseLimit(
+      merged.feedback_requests_per_month,
+      base.feedbackRequestsPerMonth,
+    ),
+    boostCreditsPerMonth:
+      parseLimit(merged.boost_credits_per_month, base.boostCreditsPerMonth) ??
+      base.boostCreditsPerMonth,
+  };
+}
+
+/**
+ * A user's entitlements given their current subscription row (or null).
+ * Lapsed subscriptions fall back to the free plan, downgraded ones to the
+ * grace entitlements.
+ */
+export function resolveEntitlements(
+  subscription: {
+    status: string | null;
+    entitlements: unknown;
+    downgraded_at?: string | null;
+  } | null,
+): Entitlements {
+  if (!subscription || !entitledStatuses.includes(subscription.status ?? "")) {
+    return planEntitlements.free;
+  }
+
+  if (subscription.downgraded_at) {
+    return graceEntitlements;
+  }
+
+  const stored = subscription.entitlements as Partial<Entitlements> | null;
+  if (!stored || !isPlanTier(stored.tier)) {
+    return planEntitlements.basic;
+  }
+
+  const base = planEntitlements[stored.tier];
+  return {
+    tier: stored.tier,
+    maxActiveProjects:
+      stored.maxActiveProjects === undefined
+        ? base.maxActiveProjects
+        : stored.maxActiveProjects,
+    feedbackRequestsPerMonth:
+      stored.feedbackRequestsPerMonth === undefined
+        ? base.feedbackRequestsPerMonth
+        : stored.feedbackRequestsPerMonth,
+    boostCreditsPerMonth:
+      stored.boostCreditsPerMonth ?? base.boostCreditsPerMonth,
+  };
+}
+
+/** How much of a limit is left; null for unlimited. */
+export const remainingAllowance = (limit: number | null, used: number) =>
+  limit === null ? null : Math.max(0, limit - used);
+
+/** A limit for display, e.g. "3" or "Unlimited". */
+export const formatLimit = (limit: number | null) =>
+  limit === null ? "Unlimited" : String(limit);
+
+/** Start of the current calendar month in UTC, as an ISO string. */
+export const startOfUtcMonth = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
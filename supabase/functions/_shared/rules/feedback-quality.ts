@@ -0,0 +1,165 @@
+/**
+ * Feedback quality scoring
+ *
+ * Heuristic pre-score for a piece of feedback plus the rules that turn it and
+ * the creator's helpful/not-helpful rating into points. Kept with the edge
+ * functions (and import-free) so rate-feedback's deploy bundle includes it;
+ * the app imports it through src/lib/feedback-quality.ts. Tune the numbers
+ * in `qualityRules` rather than in the UI or the function.
+ */
+
+export interface FeedbackQualityInput {
+  pros: string;
+  cons: string;
+  scores: { comment: string }[];
+  rubricSize: number;
+  annotationCount: number;
+}
+
+export interface QualityBreakdown {
+  length: number;
+  specificity: number;
+  coverage: number;
+  annotations: number;
+}
+
+export interface QualityResult {
+  /** Weighted pre-score, 0-100 */
+  score: number;
+  /** Each factor normalized to 0-1 */
+  breakdown: QualityBreakdown;
+}
+
+export const qualityRules = {
+  weights: {
+    length: 0.3,
+    specificity: 0.3,
+    coverage: 0.25,
+    annotations: 0.15,
+  } as QualityBreakdown,
+  // Word count at which the length factor maxes out
+  targetWordCount: 150,
+  // A rubric comment shorter than this doesn't count towards coverage
+  minCommentWords: 5,
+  // Specificity signals needed for full marks
+  targetSpecificitySignals: 6,
+  // Annotations needed for full marks
+  targetAnnotations: 4,
+  points: {
+    helpfulBase: 10,
+    helpfulQualityBonus: 40,
+    notHelpfulQualityBonus: 5,
+  },
+};
+
+// Words that show the reviewer is pointing at something concrete or
+// suggesting a change, rather than giving a general impression
+const specificTerms = [
+  "button",
+  "page",
+  "headline",
+  "header",
+  "footer",
+  "menu",
+  "nav",
+  "form",
+  "field",
+  "signup",
+  "sign up",
+  "login",
+  "checkout",
+  "pricing",
+  "price",
+  "plan",
+  "cta",
+  "call to action",
+  "copy",
+  "font",
+  "color",
+  "colour",
+  "contrast",
+  "image",
+  "logo",
+  "mobile",
+  "onboarding",
+  "load",
+];
+
+const suggestionTerms = [
+  "should",
+  "could",
+  "consider",
+  "try",
+  "instead",
+  "recommend",
+  "suggest",
+  "would",
+  "maybe",
+];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const countWords = (text: string) =>
+  text.trim() ? text.trim().split(/\s+/).length : 0;
+
+const countMatches = (text: string, terms: string[]) =>
+  terms.filter((term) => text.includes(term)).length;
+
+/** Counts signals of concrete, actionable feedback in `text`. */
+export function countSpecificitySignals(text: string): number {
+  const lower = text.toLowerCase();
+  const hasNumbers = /\d/.test(lower) ? 1 : 0;
+  const hasQuotes = /["“”'‘’].+?["“”'‘’]/.test(text) ? 1 : 0;
+
+  return (
+    countMatches(lower, specificTerms) +
+    countMatches(lower, suggestionTerms) +
+    hasNumbers +
+    hasQuotes
+  );
+}
+
+export function scoreFeedbackQuality(input: FeedbackQualityInput): QualityResult {
+  const comments = input.scores.map((s) => s.comment);
+  const allText = [input.pros, input.cons, ...comments].join("\n");
+
+  const length = clamp01(countWords(allText) / qualityRules.targetWordCount);
+  const specificity = clamp01(
+    countSpecificitySignals(allText) / qualityRules.targetSpecificitySignals,
+  );
+  const coverage =
+    input.rubricSize > 0
+      ? clamp01(
+          comments.filter((c) => countWords(c) >= qualityRules.minCommentWords)
+            .length / input.rubricSize,
+        )
+      : 0;
+  const annotations = clamp01(
+    input.annotationCount / qualityRules.targetAnnotations,
+  );
+
+  const breakdown = { length, specificity, coverage, annotations };
+  const weighted = (Object.keys(breakdown) as (keyof QualityBreakdown)[]).reduce(
+    (total, factor) => total + breakdown[factor] * qualityRules.weights[factor],
+    0,
+  );
+
+  return { score: Math.round(weighted * 100), breakdown };
+}
+
+/**
+ * Points for a rated piece of feedback. Helpful feedback earns a base award
+ * plus a bonus scaled by the pre-score; unhelpful feedback only earns a small
+ * effort bonus.
+ */
+export function calculateFeedbackPoints(
+  qualityScore: number,
+  helpful: boolean,
+): number {
+  const quality = clamp01(qualityScore / 100);
+  const { points } = qualityRules;
+
+  return helpful
+    ? points.helpfulBase + Math.round(quality * points.helpfulQualityBonus)
+    : Math.round(quality * points.notHelpfulQualityBonus);
+}
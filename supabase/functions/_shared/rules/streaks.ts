@@ -0,0 +1,182 @@
+/**
+ * Feedback streaks
+ *
+ * A streak counts consecutive calendar days with feedback activity, where a
+ * "day" is a date in the user's own timezone. Missed days can be absorbed by
+ * a grace allowance and then by streak freezes, which are earned along the
+ * way. Used by the record-feedback-activity edge function and the dashboard;
+ * kept with the edge functions (and import-free) so their deploy bundle
+ * includes it, and imported by the app through src/lib/streaks.ts.
+ */
+
+export interface StreakMilestone {
+  days: number;
+  /** Applied to milestoneBasePoints to get the bonus */
+  multiplier: number;
+}
+
+export interface StreakRules {
+  /** Missed days forgiven for free between two active days */
+  graceDays: number;
+  /** Freezes a new user starts with */
+  initialFreezes: number;
+  maxFreezes: number;
+  /** A freeze is earned each time the streak reaches a multiple of this */
+  freezeEveryDays: number;
+  milestoneBasePoints: number;
+  milestones: StreakMilestone[];
+}
+
+export const streakRules: StreakRules = {
+  graceDays: 0,
+  initialFreezes: 1,
+  maxFreezes: 2,
+  freezeEveryDays: 7,
+  milestoneBasePoints: 10,
+  milestones: [
+    { days: 7, multiplier: 2 },
+    { days: 30, multiplier: 5 },
+    { days: 100, multiplier: 10 },
+  ],
+};
+
+export interface StreakState {
+  currentStreak: number;
+  longestStreak: number;
+  /** YYYY-MM-DD in the user's timezone */
+  lastActiveDate: string | null;
+  streakStartedOn: string | null;
+  freezesAvailable: number;
+}
+
+export interface StreakUpdate {
+  state: StreakState;
+  changed: boolean;
+  /** Missed days covered by freezes, to show on the heatmap */
+  frozenDates: string[];
+  /** Set when this update reached a milestone */
+  milestone: StreakMilestone | null;
+}
+
+/** What record-feedback-activity reports back after counting activity. */
+export interface StreakResult {
+  streak: StreakState;
+  milestone: StreakMilestone | null;
+  /** Points awarded for the milestone */
+  bonus: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const emptyStreak = (rules: StreakRules = streakRules): StreakState => ({
+  currentStreak: 0,
+  longestStreak: 0,
+  lastActiveDate: null,
+  streakStartedOn: null,
+  freezesAvailable: rules.initialFreezes,
+});
+
+/** The calendar date of `instant` in `timeZone`, as YYYY-MM-DD. */
+export function toLocalDate(instant: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseDate = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseDate(to) - parseDate(from)) / DAY_MS);
+
+export const addDays = (date: string, days: number) =>
+  new Date(parseDate(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+export const milestoneBonus = (
+  milestone: StreakMilestone,
+  rules: StreakRules = streakRules,
+) => Math.round(rules.milestoneBasePoints * milestone.multiplier);
+
+/** Applies activity on `activeDate` to `state`. Repeat calls for a day are no-ops. */
+export function advanceStreak(
+  state: StreakState,
+  activeDate: string,
+  rules: StreakRules = streakRules,
+): StreakUpdate {
+  const unchanged = { state, changed: false, frozenDates: [], milestone: null };
+
+  if (state.lastActiveDate && daysBetween(state.lastActiveDate, activeDate) <= 0) {
+    return unchanged;
+  }
+
+  let { currentStreak, streakStartedOn, freezesAvailable } = state;
+  const frozenDates: string[] = [];
+
+  if (!state.lastActiveDate || currentStreak === 0) {
+    currentStreak = 1;
+    streakStartedOn = activeDate;
+  } else {
+    const missed = daysBetween(state.lastActiveDate, activeDate) - 1;
+    const needFreezes = Math.max(0, missed - rules.graceDays);
+
+    if (needFreezes <= freezesAvailable) {
+      // Freeze the most recent missed days; grace covers the earlier ones
+      for (let i = needFreezes; i >= 1; i--) {
+        frozenDates.push(addDays(activeDate, -i));
+      }
+      freezesAvailable -= needFreezes;
+      currentStreak += 1;
+    } else {
+      currentStreak = 1;
+      streakStartedOn = activeDate;
+    }
+  }
+
+  if (
+    currentStreak % rules.freezeEveryDays === 0 &&
+    freezesAvailable < rules.maxFreezes
+  ) {
+    freezesAvailable += 1;
+  }
+
+  return {
+    state: {
+      currentStreak,
+      longestStreak: Math.max(state.longestStreak, currentStreak),
+      lastActiveDate: activeDate,
+      streakStartedOn,
+      freezesAvailable,
+    },
+    changed: true,
+    frozenDates,
+    milestone: rules.milestones.find((m) => m.days === currentStreak) ?? null,
+  };
+}
+
+/**
+ * The streak as it stands on `today`: still alive if today's activity could
+ * continue it, otherwise 0.
+ */
+export function currentStreakOn(
+  state: StreakState,
+  today: string,
+  rules: StreakRules = streakRules,
+): number {
+  if (!state.lastActiveDate) return 0;
+  const missed = daysBetween(state.lastActiveDate, today) - 1;
+  return missed <= rules.graceDays + state.freezesAvailable
+    ? state.currentStreak
+    : 0;
+}
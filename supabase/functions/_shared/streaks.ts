@@ -0,0 +1,113 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  advanceStreak,
+  emptyStreak,
+  isValidTimeZone,
+  milestoneBonus,
+  toLocalDate,
+} from './rules/streaks.ts';
+import type { StreakResult, StreakState } from './rules/streaks.ts';
+
+/**
+ * Counts the user's latest feedback towards their streak, using the local
+ * date in their saved timezone. Returns null when they have no feedback.
+ */
+export async function recordStreakActivity(
+  supabaseClient: SupabaseClient,
+  userId: string,
+): Promise<StreakResult | null> {
+  const [
+    { data: profile, error: profileError },
+    { data: latest, error: latestError },
+    { data: row, error: streakError },
+  ] = await Promise.all([
+    supabaseClient.from('users').select('timezone').eq('user_id', userId).maybeSingle(),
+    supabaseClient
+      .from('feedback')
+      .select('created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabaseClient.from('user_streaks').select('*').eq('user_id', userId).maybeSingle(),
+  ]);
+
+  if (profileError) throw profileError;
+  if (latestError) throw latestError;
+  if (streakError) throw streakError;
+  if (!latest) return null;
+
+  const timeZone =
+    profile?.timezone && isValidTimeZone(profile.timezone) ? profile.timezone : 'UTC';
+  const activeDate = toLocalDate(new Date(latest.created_at), timeZone);
+
+  const previous: StreakState = row
+    ? {
+        currentStreak: row.current_streak,
+        longestStreak: row.longest_streak,
+        lastActiveDate: row.last_active_date,
+        streakStartedOn: row.streak_started_on,
+        freezesAvailable: row.freezes_available,
+      }
+    : emptyStreak();
+  const update = advanceStreak(previous, activeDate);
+
+  if (!update.changed) {
+    return { streak: previous, milestone: null, bonus: 0 };
+  }
+
+  const values = {
+    user_id: userId,
+    current_streak: update.state.currentStreak,
+    longest_streak: update.state.longestStreak,
+    last_active_date: update.state.lastActiveDate,
+    streak_started_on: update.state.streakStartedOn,
+    freezes_available: update.state.freezesAvailable,
+  };
+
+  // Guard on the previous last_active_date so a concurrent call for the same
+  // day can't advance the streak twice
+  const { data: saved, error: saveError } = row
+    ? await supabaseClient
+        .from('user_streaks')
+        .update(values)
+        .eq('user_id', userId)
+        .eq('last_active_date', row.last_active_date)
+        .select('user_id')
+        .maybeSingle()
+    : await supabaseClient
+        .from('user_streaks')
+        .upsert(values, { onConflict: 'user_id', ignoreDuplicates: true })
+        .select('user_id')
+        .maybeSingle();
+
+  if (saveError) throw saveError;
+  if (!saved) return { streak: previous, milestone: null, bonus: 0 };
+
+  const { error: daysError } = await supabaseClient.from('streak_days').upsert(
+    [
+      ...update.frozenDates.map((day) => ({ user_id: userId, day, kind: 'frozen' })),
+      { user_id: userId, day: activeDate, kind: 'active' },
+    ],
+    { onConflict: 'user_id,day', ignoreDuplicates: true },
+  );
+
+  if (daysError) throw daysError;
+
+  let bonus = 0;
+  if (update.milestone) {
+    bonus = milestoneBonus(update.milestone);
+    const { error: pointsError } = await supabaseClient.rpc('award_points', {
+      p_user_id: userId,
+      p_amount: bonus,
+      p_reason: 'streak_milestone',
+      p_source_type: 'streak',
+      p_source_id: `${userId}:${update.state.streakStartedOn}:${update.milestone.days}`,
+      p_description: `${update.milestone.days}-day feedback streak (×${update.milestone.multiplier})`,
+    });
+
+    if (pointsError) throw pointsError;
+  }
+
+  return { streak: update.state, milestone: update.milestone, bonus };
+}
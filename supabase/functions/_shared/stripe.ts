@@ -0,0 +1,16 @@
+import Stripe from 'https://esm.sh/stripe@13.6.0?target=deno';
+
+/**
+ * The Stripe client edge functions use. Handlers take it as a dependency so
+ * tests can pass one whose `fetchFn` answers from a local fake instead of
+ * api.stripe.com.
+ */
+export function createStripeClient(
+  fetchFn: typeof fetch = fetch,
+  apiKey = Deno.env.get('STRIPE_SECRET_KEY') || '',
+): Stripe {
+  return new Stripe(apiKey, {
+    apiVersion: '2023-10-16',
+    httpClient: Stripe.createFetchHttpClient(fetchFn),
+  });
+}
@@ -0,0 +1,147 @@
+import type Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getOrCreateStripeCustomer } from '../_shared/customers.ts';
+import { getCreditPoints, getTrialDays } from '../_shared/plans.ts';
+import { validatePromotionCode } from '../_shared/promotions.ts';
+import { isAppUrl } from '../_shared/return-url.ts';
+import { entitledStatuses } from '../_shared/rules/entitlements.ts';
+
+export type CreateCheckoutDeps = {
+  stripe: Stripe;
+  supabaseClient: SupabaseClient;
+  /** The app's URL; return URLs must be on its origin */
+  siteUrl: string;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Starts a Stripe Checkout for a plan (subscription) or credit pack (one-time
+// payment) and returns its URL. The buyer is the signed-in user, checking
+// out as their own Stripe customer.
+export function createHandler({ stripe, supabaseClient, siteUrl }: CreateCheckoutDeps) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const { price_id, return_url, promotion_code } = await req.json();
+
+      if (!price_id || !return_url) {
+        throw new Error('Missing required parameters');
+      }
+
+      if (!isAppUrl(return_url, siteUrl)) {
+        throw new Error('Invalid return URL');
+      }
+
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+      if (authError || !user) {
+        return jsonResponse({ error: 'Not authenticated' }, 401);
+      }
+
+      const price = await stripe.prices.retrieve(price_id, { expand: ['product'] });
+      const product = price.product as Stripe.Product;
+
+      // One-time prices are credit packs, paid once and fulfilled by the
+      // payments webhook; recurring prices start a subscription
+      const isCreditPack = price.type === 'one_time';
+      if (isCreditPack && !getCreditPoints(price, product)) {
+        throw new Error('This price is not a credit pack');
+      }
+
+      // Plan changes go through the customer portal, so a second checkout
+      // would leave the user paying for two subscriptions
+      let trialDays = 0;
+      if (!isCreditPack) {
+        const { count: activeSubscriptions, error: activeError } = await supabaseClient
+          .from('subscriptions')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .in('status', entitledStatuses);
+
+        if (activeError) throw activeError;
+
+        if (activeSubscriptions) {
+          return jsonResponse({
+            error: 'You already have an active subscription. Change plans from the billing page.',
+          }, 409);
+        }
+
+        // Trials are for first-time subscribers only
+        const { count: previousSubscriptions, error: subscriptionsError } = await supabaseClient
+          .from('subscriptions')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id);
+
+        if (subscriptionsError) throw subscriptionsError;
+
+        trialDays = previousSubscriptions ? 0 : getTrialDays(price, product);
+      }
+
+      // A code entered on our pricing page is checked here and applied up
+      // front; otherwise customers can still enter one on the Stripe page
+      // (Stripe doesn't allow both)
+      let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined;
+      if (promotion_code) {
+        const check = await validatePromotionCode(stripe, promotion_code, price);
+        if (!check.valid) {
+          return jsonResponse({ error: check.reason }, 400);
+        }
+        discounts = [{ promotion_code: check.promotionCode.id }];
+      }
+
+      // Reuse the user's Stripe customer so all their invoices stay together
+      const customerId = await getOrCreateStripeCustomer(stripe, supabaseClient, {
+        id: user.id,
+        email: user.email,
+      });
+
+      // Create Stripe checkout session
+      const session = await stripe.checkout.sessions.create({
+        payment_method_types: ['card'],
+        line_items: [
+          {
+            price: price_id,
+            quantity: 1,
+          },
+        ],
+        mode: isCreditPack ? 'payment' : 'subscription',
+        success_url: `${return_url}?session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${return_url}?canceled=true`,
+        customer: customerId,
+        metadata: {
+          user_id: user.id,
+        },
+        // Credit packs get an invoice too, so they show up in invoice history
+        ...(isCreditPack
+          ? { invoice_creation: { enabled: true } }
+          : {
+              subscription_data: {
+                metadata: {
+                  user_id: user.id,
+                },
+                ...(trialDays ? { trial_period_days: trialDays } : {}),
+              },
+            }),
+        ...(discounts ? { discounts } : { allow_promotion_codes: true }),
+      });
+
+      return jsonResponse({ sessionId: session.id, url: session.url, trial_days: trialDays });
+    } catch (error) {
+      console.error('Error creating checkout session:', error);
+      return jsonResponse({ error: error.message }, 400);
+    }
+  };
+}
@@ -0,0 +1,76 @@
+import type Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isAppUrl } from '../_shared/return-url.ts';
+
+export type CreatePortalSessionDeps = {
+  stripe: Stripe;
+  supabaseClient: SupabaseClient;
+  /** The app's URL; return URLs must be on its origin */
+  siteUrl: string;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Opens a Stripe Customer Portal session for the signed-in user, where they
+// can change plan, cancel or update their card. The customer comes from the
+// user's own subscriptions, never from the request.
+export function createHandler({ stripe, supabaseClient, siteUrl }: CreatePortalSessionDeps) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const { return_url } = await req.json();
+
+      if (!return_url) {
+        throw new Error('Missing required parameters');
+      }
+
+      if (!isAppUrl(return_url, siteUrl)) {
+        throw new Error('Invalid return URL');
+      }
+
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+      if (authError || !user) {
+        return jsonResponse({ error: 'Not authenticated' }, 401);
+      }
+
+      const { data: subscription, error: subscriptionError } = await supabaseClient
+        .from('subscriptions')
+        .select('customer_id')
+        .eq('user_id', user.id)
+        .not('customer_id', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (subscriptionError) throw subscriptionError;
+
+      if (!subscription) {
+        return jsonResponse({ error: 'No billing account found' }, 404);
+      }
+
+      const session = await stripe.billingPortal.sessions.create({
+        customer: subscription.customer_id,
+        return_url,
+      });
+
+      return jsonResponse({ url: session.url });
+    } catch (error) {
+      console.error('Error creating portal session:', error);
+      return jsonResponse({ error: error.message }, 400);
+    }
+  };
+}
@@ -0,0 +1,13 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createStripeClient } from '../_shared/stripe.ts';
+import { createHandler } from './handler.ts';
+
+serve(createHandler({
+  stripe: createStripeClient(),
+  supabaseClient: createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  ),
+  siteUrl: Deno.env.get('SITE_URL') ?? '',
+}));
@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { awardEarnedBadges } from '../_shared/badges.ts';
+import {
+  loadEntitlements,
+  projectLimitFromError,
+  projectLimitMessage,
+} from '../_shared/entitlements.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Fields a creator may set on a new project, besides rubric_dimensions
+const projectFields = [
+  'title',
+  'url',
+  'description',
+  'category',
+  'stage',
+  'goals',
+  'visibility',
+] as const;
+
+const MAX_RUBRIC_DIMENSIONS = 12;
+
+// A rubric is a non-empty list of {key, label} with distinct keys; scores
+// refer to dimensions by key. Anything else on an entry is dropped.
+function parseRubricDimensions(value: unknown): { key: string; label: string }[] {
+  if (!Array.isArray(value) || !value.length || value.length > MAX_RUBRIC_DIMENSIONS) {
+    throw new Error('Invalid rubric');
+  }
+
+  const dimensions = value.map((entry) => {
+    const key = typeof entry?.key === 'string' ? entry.key.trim() : '';
+    const label = typeof entry?.label === 'string' ? entry.label.trim() : '';
+    if (!key || !label) throw new Error('Invalid rubric');
+    return { key, label };
+  });
+
+  if (new Set(dimensions.map((d) => d.key)).size !== dimensions.length) {
+    throw new Error('Invalid rubric');
+  }
+  return dimensions;
+}
+
+// Creates a project for the signed-in user once their plan's active project
+// and monthly feedback request limits allow it. Clients can't insert into
+// projects directly, so this is the only way in. Returns the project and any
+// badges it unlocked.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { project } = await req.json();
+
+    if (!project?.title || !project?.category || !project?.stage) {
+      throw new Error('Missing required parameters');
+    }
+
+    // Left out, the column default rubric applies
+    const rubricDimensions = project.rubric_dimensions === undefined
+      ? null
+      : parseRubricDimensions(project.rubric_dimensions);
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const entitlements = await loadEntitlements(supabaseClient, user.id);
+
+    const values: Record<string, unknown> = {};
+    for (const field of projectFields) {
+      if (project[field] !== undefined) values[field] = project[field];
+    }
+    if (rubricDimensions) values.rubric_dimensions = rubricDimensions;
+
+    // Counted and inserted under a lock on the user, so parallel requests
+    // can't all squeeze under the limits
+    const { data, error } = await supabaseClient.rpc('create_project_within_limits', {
+      p_user_id: user.id,
+      p_project: values,
+      p_max_active_projects: entitlements.maxActiveProjects,
+      p_feedback_requests_per_month: entitlements.feedbackRequestsPerMonth,
+    });
+
+    const limit = projectLimitFromError(error);
+    if (limit) {
+      return jsonResponse({ error: projectLimitMessage(limit, entitlements), limit }, 403);
+    }
+    if (error) throw error;
+
+    // Sharing a project can unlock a badge. The project is already created,
+    // so a failure here doesn't fail the request.
+    let badges = [];
+    try {
+      badges = await awardEarnedBadges(supabaseClient, user.id);
+    } catch (badgeError) {
+      console.error('Error awarding badges:', badgeError);
+    }
+
+    return jsonResponse({ project: data, badges });
+  } catch (error) {
+    console.error('Error creating project:', error);
+    return jsonResponse({ error: error.message }, 400);
+  }
+});
@@ -0,0 +1,81 @@
+import type Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import { getCreditPoints } from '../_shared/plans.ts';
+
+export type GetCreditPacksDeps = {
+  stripe: Stripe;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Types (mirrored by CreditPack in src/lib/credit-packs.ts)
+type CreditPack = {
+  price_id: string;
+  name: string;
+  description: string | null;
+  points: number;
+  amount: number;
+  currency: string;
+};
+
+// Cached per function instance like the plan catalog in get-plans
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+async function loadCreditPacks(stripe: Stripe): Promise<CreditPack[]> {
+  const prices = await stripe.prices
+    .list({
+      active: true,
+      type: 'one_time',
+      expand: ['data.product'],
+      limit: 100,
+    })
+    .autoPagingToArray({ limit: 1000 });
+
+  return prices
+    .map((price) => {
+      const product = price.product as Stripe.Product;
+      return {
+        price_id: price.id,
+        name: product.name,
+        description: product.description,
+        points: product.active ? getCreditPoints(price, product) : 0,
+        amount: price.unit_amount ?? 0,
+        currency: price.currency,
+      };
+    })
+    .filter((pack) => pack.points > 0)
+    .sort((a, b) => a.points - b.points);
+}
+
+// Lists the one-time credit packs creators can buy without a subscription
+export function createHandler({ stripe }: GetCreditPacksDeps) {
+  let cachedPacks: { packs: CreditPack[]; expiresAt: number } | null = null;
+
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      if (!cachedPacks || cachedPacks.expiresAt <= Date.now()) {
+        cachedPacks = {
+          packs: await loadCreditPacks(stripe),
+          expiresAt: Date.now() + CACHE_TTL_MS,
+        };
+      }
+
+      return jsonResponse(cachedPacks.packs);
+    } catch (error) {
+      console.error('Error getting credit packs:', error);
+      return jsonResponse({ error: error.message }, 400);
+    }
+  };
+}
@@ -0,0 +1,5 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createStripeClient } from '../_shared/stripe.ts';
+import { createHandler } from './handler.ts';
+
+serve(createHandler({ stripe: createStripeClient() }));
@@ -0,0 +1,168 @@
+import type Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import {
+    Entitlements,
+    PlanTier,
+    entitlementsFromMetadata,
+    tierFromProductId,
+} from '../_shared/rules/entitlements.ts';
+import { getTrialDays } from '../_shared/plans.ts';
+
+export type GetPlansDeps = {
+    stripe: Stripe;
+};
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  }
+
+// Types (mirrored by Plan and PlanPrice in src/lib/billing.ts)
+type CatalogPrice = {
+    id: string;
+    amount: number;
+    currency: string;
+    interval: 'month' | 'year';
+    interval_count: number;
+    trial_days: number;
+};
+
+type CatalogPlan = {
+    product_id: string;
+    name: string;
+    description: string | null;
+    tier: PlanTier;
+    features: string[];
+    highlighted: boolean;
+    sort_order: number;
+    entitlements: Entitlements;
+    monthly: CatalogPrice | null;
+    yearly: CatalogPrice | null;
+};
+
+// Stripe is the source of truth but the catalog rarely changes, so each
+// handler reuses it for a few minutes
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Bullets when the product has no `features` metadata, from what the plan allows
+function describeEntitlements(entitlements: Entitlements): string[] {
+    const limit = (value: number | null, noun: string) =>
+        value === null ? `Unlimited ${noun}` : `${value} ${noun}`;
+
+    return [
+        limit(entitlements.maxActiveProjects, 'active projects'),
+        limit(entitlements.feedbackRequestsPerMonth, 'feedback requests a month'),
+        `${entitlements.boostCreditsPerMonth} boost credits a month`,
+    ];
+}
+
+// Product metadata `features` lists marketing bullets separated by "|"
+function parseFeatures(value: string | undefined): string[] {
+    return (value ?? '')
+        .split('|')
+        .map((feature) => feature.trim())
+        .filter(Boolean);
+}
+
+function toCatalogPrice(price: Stripe.Price, product: Stripe.Product): CatalogPrice {
+    return {
+        id: price.id,
+        amount: price.unit_amount ?? 0,
+        currency: price.currency,
+        interval: price.recurring!.interval as 'month' | 'year',
+        interval_count: price.recurring!.interval_count,
+        trial_days: getTrialDays(price, product),
+    };
+}
+
+// Groups the active recurring prices by product, keeping one monthly and one
+// yearly price each (the cheapest, should a product have several).
+async function loadCatalog(stripe: Stripe): Promise<CatalogPlan[]> {
+    const prices = await stripe.prices
+        .list({
+            active: true,
+            type: 'recurring',
+            expand: ['data.product'],
+            limit: 100,
+        })
+        .autoPagingToArray({ limit: 1000 });
+
+    const plans = new Map<string, CatalogPlan>();
+
+    for (const price of prices) {
+        const product = price.product as Stripe.Product;
+        const interval = price.recurring?.interval;
+        if (!product.active || price.recurring?.interval_count !== 1) continue;
+        if (interval !== 'month' && interval !== 'year') continue;
+
+        let plan = plans.get(product.id);
+        if (!plan) {
+            const entitlements = entitlementsFromMetadata(
+                [product.metadata],
+                tierFromProductId(product.id),
+            );
+            const features = parseFeatures(product.metadata.features);
+            plan = {
+                product_id: product.id,
+                name: product.name,
+                description: product.description,
+                tier: entitlements.tier,
+                features: features.length ? features : describeEntitlements(entitlements),
+                highlighted: product.metadata.highlighted === 'true',
+                sort_order: Number(product.metadata.sort_order) || 0,
+                entitlements,
+                monthly: null,
+                yearly: null,
+            };
+            plans.set(product.id, plan);
+        }
+
+        const key = interval === 'month' ? 'monthly' : 'yearly';
+        const current = plan[key];
+        if (!current || (price.unit_amount ?? 0) < current.amount) {
+            plan[key] = toCatalogPrice(price, product);
+        }
+    }
+
+    return [...plans.values()].sort(
+        (a, b) =>
+            a.sort_order - b.sort_order ||
+            (a.monthly?.amount ?? a.yearly?.amount ?? 0) -
+                (b.monthly?.amount ?? b.yearly?.amount ?? 0),
+    );
+}
+
+export function createHandler({ stripe }: GetPlansDeps) {
+    let cachedCatalog: { plans: CatalogPlan[]; expiresAt: number } | null = null;
+
+    return async (req: Request): Promise<Response> => {
+        if (req.method === 'OPTIONS') {
+            return new Response(null, { headers: corsHeaders });
+        }
+
+        try {
+            if (!cachedCatalog || cachedCatalog.expiresAt <= Date.now()) {
+                cachedCatalog = {
+                    plans: await loadCatalog(stripe),
+                    expiresAt: Date.now() + CACHE_TTL_MS,
+                };
+            }
+
+            return new Response(
+                JSON.stringify(cachedCatalog.plans),
+                {
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                    status: 200
+                }
+            );
+        } catch (error) {
+            console.error("Error getting products:", error);
+            return new Response(
+                JSON.stringify({ error: error.message }),
+                {
+                    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                    status: 400
+                }
+            );
+        }
+    };
+}
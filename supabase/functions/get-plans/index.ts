@@ -1,42 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import { createStripeClient } from '../_shared/stripe.ts';
+import { createHandler } from './handler.ts';
 
-const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
-    apiVersion: '2023-10-16',
-    httpClient: Stripe.createFetchHttpClient(),
-});
-
-const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  }
-
-
-serve(async (req) => {
-    if (req.method === 'OPTIONS') {
-        return new Response(null, { headers: corsHeaders });
-    }
-
-    try {
-        const plans = await stripe.plans.list({
-            active: true,
-        });
-
-        return new Response(
-            JSON.stringify(plans.data),
-            { 
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-                status: 200 
-            }
-        );
-    } catch (error) {
-        console.error("Error getting products:", error);
-        return new Response(
-            JSON.stringify({ error: error.message }),
-            { 
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-                status: 400 
-            }
-        );
-    }
-});
\ No newline at end of file
+serve(createHandler({ stripe: createStripeClient() }));
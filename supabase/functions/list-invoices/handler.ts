@@ -0,0 +1,159 @@
+import type Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type ListInvoicesDeps = {
+  stripe: Stripe;
+  supabaseClient: SupabaseClient;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const MAX_PAGE_SIZE = 100;
+
+// Types (mirrored by Invoice in src/lib/invoices.ts)
+type InvoiceSummary = {
+  id: string;
+  number: string | null;
+  created: number;
+  description: string | null;
+  status: string | null;
+  total: number;
+  amount_paid: number;
+  amount_due: number;
+  currency: string;
+  hosted_invoice_url: string | null;
+  invoice_pdf: string | null;
+};
+
+const toSummary = (invoice: Stripe.Invoice): InvoiceSummary => ({
+  id: invoice.id,
+  number: invoice.number,
+  created: invoice.created,
+  description: invoice.description ?? invoice.lines.data[0]?.description ?? null,
+  status: invoice.status,
+  total: invoice.total,
+  amount_paid: invoice.amount_paid,
+  amount_due: invoice.amount_due,
+  currency: invoice.currency,
+  hosted_invoice_url: invoice.hosted_invoice_url ?? null,
+  invoice_pdf: invoice.invoice_pdf ?? null,
+});
+
+// Where the next page picks up: for each customer with invoices left, the
+// last invoice already listed (null when none were listed yet). Sent to the
+// client as an opaque base64 string.
+type Cursor = Record<string, string | null>;
+
+const encodeCursor = (cursor: Cursor) => btoa(JSON.stringify(cursor));
+
+function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(atob(value));
+    if (cursor && typeof cursor === 'object' && !Array.isArray(cursor)) return cursor;
+  } catch {
+    // Falls through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
+
+// Every Stripe customer the user has paid through: the one on their row and
+// any linked in billing_customers (e.g. from an earlier checkout)
+async function findCustomerIds(supabaseClient: SupabaseClient, userId: string): Promise<string[]> {
+  const [{ data: profile, error: profileError }, { data: links, error: linksError }] = await Promise.all([
+    supabaseClient
+      .from('users')
+      .select('stripe_customer_id')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabaseClient
+      .from('billing_customers')
+      .select('stripe_customer_id')
+      .eq('user_id', userId),
+  ]);
+
+  if (profileError) throw profileError;
+  if (linksError) throw linksError;
+
+  const ids = [profile?.stripe_customer_id, ...(links ?? []).map((link) => link.stripe_customer_id)];
+  return [...new Set(ids.filter((id): id is string => Boolean(id)))];
+}
+
+// Lists the signed-in user's Stripe invoices across all their customers,
+// newest first, a page at a time. `starting_after` is the `next_cursor` of
+// the previous page. Customers come from the user's rows, never the request.
+export function createHandler({ stripe, supabaseClient }: ListInvoicesDeps) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const { limit = 10, starting_after } = await req.json().catch(() => ({}));
+
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+      if (authError || !user) {
+        return jsonResponse({ error: 'Not authenticated' }, 401);
+      }
+
+      const customerIds = await findCustomerIds(supabaseClient, user.id);
+      const cursor: Cursor = starting_after
+        ? decodeCursor(String(starting_after))
+        : Object.fromEntries(customerIds.map((id) => [id, null]));
+      // Only customers with invoices left, and only the user's own
+      const pending = customerIds.filter((id) => id in cursor);
+
+      if (!pending.length) {
+        return jsonResponse({ invoices: [], has_more: false, next_cursor: null });
+      }
+
+      const pageSize = Math.min(Math.max(1, Number(limit) || 10), MAX_PAGE_SIZE);
+      const pages = await Promise.all(pending.map((customer) =>
+        stripe.invoices.list({
+          customer,
+          limit: pageSize,
+          ...(cursor[customer] ? { starting_after: cursor[customer]! } : {}),
+        })
+      ));
+
+      // Newest across all customers; anything past the page is listed again
+      // next time, since each customer resumes after its last listed invoice
+      const listed = pages
+        .flatMap((page) => page.data)
+        .sort((a, b) => b.created - a.created || b.id.localeCompare(a.id))
+        .slice(0, pageSize);
+
+      const next: Cursor = {};
+      pending.forEach((customer, i) => {
+        const page = pages[i];
+        const taken = listed.filter((invoice) => invoice.customer === customer);
+        if (page.has_more || taken.length < page.data.length) {
+          next[customer] = taken[taken.length - 1]?.id ?? cursor[customer];
+        }
+      });
+      const hasMore = Object.keys(next).length > 0;
+
+      return jsonResponse({
+        // Drafts aren't final yet, so they aren't shown
+        invoices: listed
+          .filter((invoice) => invoice.status !== 'draft')
+          .map(toSummary),
+        has_more: hasMore,
+        next_cursor: hasMore ? encodeCursor(next) : null,
+      });
+    } catch (error) {
+      console.error('Error listing invoices:', error);
+      return jsonResponse({ error: error.message }, 400);
+    }
+  };
+}
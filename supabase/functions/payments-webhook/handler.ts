@@ -0,0 +1,873 @@
+import type Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { findCustomerUser, linkBillingCustomer } from '../_shared/customers.ts';
+import { getCreditPoints, getPriceEntitlements } from '../_shared/plans.ts';
+import type { Entitlements } from '../_shared/rules/entitlements.ts';
+
+// Types
+// What the event handlers need; replays from the admin explorer supply
+// these without a signed request
+export type EventDeps = {
+  stripe: Stripe;
+  supabaseClient: SupabaseClient;
+};
+
+export type WebhookDeps = EventDeps & {
+  webhookSecret: string;
+};
+
+type WebhookClaim = {
+  id: string;
+  claimed: boolean;
+  processing_status: 'received' | 'processing' | 'succeeded' | 'failed';
+  attempts: number;
+};
+
+type SubscriptionData = {
+  stripe_id: string;
+  user_id?: string;
+  price_id: string;
+  stripe_price_id: string;
+  currency: string;
+  interval: string;
+  status: string;
+  current_period_start: number;
+  current_period_end: number;
+  cancel_at_period_end: boolean;
+  amount: number;
+  started_at: number;
+  customer_id: string;
+  metadata: Record<string, any>;
+  canceled_at?: number;
+  ended_at?: number;
+  trial_start?: number;
+  trial_end?: number;
+  entitlements: Entitlements;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Utility functions
+
+// Stores the event (once per Stripe event id) and claims it for processing.
+// Not claimed means it already succeeded or another delivery is on it.
+async function claimWebhookEvent(
+  supabaseClient: any,
+  event: any
+): Promise<WebhookClaim> {
+  const { data, error } = await supabaseClient.rpc('claim_webhook_event', {
+    p_stripe_event_id: event.id,
+    p_event_type: event.type,
+    p_event_created_at: new Date(event.created * 1000).toISOString(),
+    p_data: event.data.object,
+  });
+
+  if (error) {
+    console.error('Error logging webhook event:', error);
+    throw error;
+  }
+
+  return data[0];
+}
+
+async function finishWebhookEvent(
+  supabaseClient: any,
+  eventId: string,
+  outcome: { error?: string; skipReason?: string } = {}
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from('webhook_events')
+    .update({
+      processing_status: outcome.error ? 'failed' : 'succeeded',
+      last_error: outcome.error ?? null,
+      skip_reason: outcome.skipReason ?? null,
+      processed_at: outcome.error ? null : new Date().toISOString(),
+      modified_at: new Date().toISOString(),
+    })
+    .eq('id', eventId);
+
+  if (error) {
+    console.error('Error updating webhook event status:', error);
+  }
+}
+
+// The subscription whose state an event replaces, if any. Only
+// customer.subscription.* events carry the whole subscription; invoice events
+// record a payment attempt and must apply even when a newer subscription
+// event (e.g. the past_due update for the same failed renewal) arrived first;
+// record_payment_failure decides from the event time whether it may still
+// change the subscription.
+function getEventSubscriptionId(event: any): string | null {
+  if (event.type.startsWith('customer.subscription.')) {
+    return event.data.object.id;
+  }
+  return null;
+}
+
+// Stripe doesn't guarantee delivery order. An event created before the last
+// one applied to the same subscription would roll its state back.
+async function isOutOfOrder(
+  supabaseClient: any,
+  subscriptionId: string,
+  event: any
+): Promise<boolean> {
+  const { data, error } = await supabaseClient
+    .from('subscriptions')
+    .select('last_event_created_at')
+    .eq('stripe_id', subscriptionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.last_event_created_at) return false;
+
+  return new Date(data.last_event_created_at).getTime() > event.created * 1000;
+}
+
+async function recordAppliedEvent(
+  supabaseClient: any,
+  subscriptionId: string,
+  event: any
+): Promise<void> {
+  const createdAt = new Date(event.created * 1000).toISOString();
+  const { error } = await supabaseClient
+    .from('subscriptions')
+    .update({ last_event_created_at: createdAt })
+    .eq('stripe_id', subscriptionId)
+    .or(`last_event_created_at.is.null,last_event_created_at.lt.${createdAt}`);
+
+  if (error) {
+    console.error('Error recording applied event:', error);
+  }
+}
+
+// The user a subscription, session or invoice belongs to: the user_id our
+// checkouts put in its metadata, else whoever its customer is linked to
+async function resolveUserId(supabaseClient: any, object: any): Promise<string | null> {
+  const fromMetadata = object.metadata?.user_id || object.metadata?.userId;
+  if (fromMetadata) return fromMetadata;
+
+  const customerId = typeof object.customer === 'string'
+    ? object.customer
+    : object.customer?.id;
+  return await findCustomerUser(supabaseClient, customerId);
+}
+
+// What the subscription's plan allows
+const getSubscriptionEntitlements = (stripe: Stripe, subscription: any) =>
+  getPriceEntitlements(stripe, subscription.items.data[0]?.price.id);
+
+// Writes the subscription as Stripe sent it. Every customer.subscription.*
+// event carries the whole subscription, so whichever arrives first creates
+// the row; after that the order check turns away older events.
+async function upsertSubscription(
+  { stripe, supabaseClient }: EventDeps,
+  subscription: any
+): Promise<{ error: any; userId: string | null }> {
+  const userId = await resolveUserId(supabaseClient, subscription);
+  if (userId) {
+    await linkBillingCustomer(supabaseClient, subscription.customer, userId, 'subscription');
+  } else {
+    // Stored without a user; reconciliation links it once the customer is known
+    console.warn('No user for subscription customer:', subscription.id, subscription.customer);
+  }
+
+  // Plan changes (e.g. from the customer portal) swap the price, so the
+  // price and the entitlements that come with it are refreshed every time
+  const subscriptionData: SubscriptionData = {
+    stripe_id: subscription.id,
+    // Left out when unknown so a user linked earlier isn't cleared
+    ...(userId ? { user_id: userId } : {}),
+    price_id: subscription.items.data[0]?.price.id,
+    stripe_price_id: subscription.items.data[0]?.price.id,
+    currency: subscription.currency,
+    interval: subscription.items.data[0]?.plan.interval,
+    status: subscription.status,
+    current_period_start: subscription.current_period_start,
+    current_period_end: subscription.current_period_end,
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    amount: subscription.items.data[0]?.plan.amount ?? 0,
+    started_at: subscription.start_date ?? Math.floor(Date.now() / 1000),
+    customer_id: subscription.customer,
+    metadata: subscription.metadata || {},
+    canceled_at: subscription.canceled_at,
+    ended_at: subscription.ended_at,
+    trial_start: subscription.trial_start,
+    trial_end: subscription.trial_end,
+    entitlements: await getSubscriptionEntitlements(stripe, subscription)
+  };
+
+  // First, check if a subscription with this stripe_id already exists
+  const { data: existingSubscription } = await supabaseClient
+    .from('subscriptions')
+    .select('id')
+    .eq('stripe_id', subscription.id)
+    .maybeSingle();
+
+  const { error } = await supabaseClient
+    .from('subscriptions')
+    .upsert({
+      // If we found an existing subscription, use its UUID, otherwise let Supabase generate one
+      ...(existingSubscription?.id ? { id: existingSubscription.id } : {}),
+      ...subscriptionData
+    }, {
+      // Use stripe_id as the match key for upsert
+      onConflict: 'stripe_id'
+    });
+
+  // Two checkouts started together can leave the user paying for a second
+  // plan. subscriptions_one_entitled_per_user refuses its row, so it's
+  // canceled in Stripe (the unused time is credited to the customer's
+  // balance, which their remaining plan's invoices draw on) and stored as such.
+  if (error?.code === '23505' && error.message?.includes('subscriptions_one_entitled_per_user')) {
+    console.warn('Canceling duplicate subscription:', subscription.id, 'for user', userId);
+    const canceled = await stripe.subscriptions.cancel(subscription.id, {
+      prorate: true,
+      invoice_now: true,
+    });
+    return await upsertSubscription({ stripe, supabaseClient }, canceled);
+  }
+
+  return { error, userId };
+}
+
+// Event handlers
+async function handleSubscriptionCreated(deps: EventDeps, event: any) {
+  const subscription = event.data.object;
+  console.log('Handling subscription created:', subscription.id);
+
+  const { error } = await upsertSubscription(deps, subscription);
+
+  if (error) {
+    console.error('Error creating subscription:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to create subscription" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ message: "Subscription created successfully" }),
+    { 
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+// Also creates the row when the created event hasn't arrived yet
+async function handleSubscriptionUpdated(deps: EventDeps, event: any) {
+  const subscription = event.data.object;
+  console.log('Handling subscription updated:', subscription.id);
+
+  const { error } = await upsertSubscription(deps, subscription);
+
+  if (error) {
+    console.error('Error updating subscription:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to update subscription" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ message: "Subscription updated successfully" }),
+    { 
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+async function handleSubscriptionDeleted(deps: EventDeps, event: any) {
+  const subscription = event.data.object;
+  console.log('Handling subscription deleted:', subscription.id);
+
+  try {
+    const { error, userId } = await upsertSubscription(deps, {
+      ...subscription,
+      status: 'canceled',
+    });
+    if (error) throw error;
+    
+    // Clear the plan name kept on the user's row
+    if (userId) {
+      await deps.supabaseClient
+        .from("users")
+        .update({ subscription: null })
+        .eq("user_id", userId);
+    }
+
+    return new Response(
+      JSON.stringify({ message: "Subscription deleted successfully" }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error deleting subscription:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to process subscription deletion" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// Credits a paid credit pack checkout. Runs for checkout.session.completed
+// and, for delayed payment methods, checkout.session.async_payment_succeeded;
+// fulfil_credit_purchase makes sure a session is only credited once.
+async function fulfilCreditPackPurchase(
+  { stripe, supabaseClient }: EventDeps,
+  session: any
+) {
+  if (session.payment_status !== 'paid') {
+    console.log('Credit pack checkout not paid yet:', session.id, session.payment_status);
+    return new Response(
+      JSON.stringify({ message: "Awaiting payment" }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  const userId = await resolveUserId(supabaseClient, session);
+  const { data: lineItems } = await stripe.checkout.sessions.listLineItems(session.id, {
+    expand: ['data.price.product'],
+  });
+  const item = lineItems[0];
+  const price = item?.price as Stripe.Price | undefined;
+  const product = price?.product as Stripe.Product | undefined;
+  const points = price && product ? getCreditPoints(price, product) * (item.quantity ?? 1) : 0;
+
+  if (!userId || !points) {
+    console.error('Unable to fulfil credit pack checkout:', session.id, userId, price?.id);
+    return new Response(
+      JSON.stringify({ error: "Unable to fulfil credit pack purchase" }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  const { data: purchase, error } = await supabaseClient.rpc('fulfil_credit_purchase', {
+    p_user_id: userId,
+    p_checkout_session_id: session.id,
+    p_payment_intent_id: typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id ?? null,
+    p_price_id: price.id,
+    p_pack_name: product.name,
+    p_points: points,
+    p_amount: session.amount_total ?? 0,
+    p_currency: session.currency,
+  });
+
+  if (error) {
+    console.error('Error fulfilling credit pack purchase:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to fulfil credit pack purchase" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ message: "Credit pack fulfilled", purchaseId: purchase.id }),
+    {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+async function handleCheckoutSessionCompleted({ stripe, supabaseClient }: EventDeps, event: any) {
+  const session = event.data.object;
+  console.log('Handling checkout session completed:', session.id);
+  console.log('Full session data:', JSON.stringify(session, null, 2));
+
+  if (session.mode === 'payment') {
+    return await fulfilCreditPackPurchase({ stripe, supabaseClient }, session);
+  }
+  
+  const subscriptionId = typeof session.subscription === 'string' 
+    ? session.subscription 
+    : session.subscription?.id;
+  
+  console.log('Extracted subscriptionId:', subscriptionId);
+  console.log('Session metadata:', JSON.stringify(session.metadata, null, 2));
+  
+  if (!subscriptionId) {
+    console.log('No subscription ID found in checkout session');
+    return new Response(
+      JSON.stringify({ message: "No subscription in checkout session" }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    console.log('Attempting to update subscription in Stripe with ID:', subscriptionId);
+    console.log('Metadata to be added:', {
+      ...session.metadata,
+      checkoutSessionId: session.id
+    });
+    
+    // Fetch the current subscription from Stripe to get the latest status
+    const stripeSubscription = await stripe.subscriptions.retrieve(subscriptionId);
+    console.log('Retrieved Stripe subscription status:', stripeSubscription.status);
+    
+    const updatedStripeSubscription = await stripe.subscriptions.update(
+      subscriptionId,
+      { 
+        metadata: {
+          ...session.metadata,
+          checkoutSessionId: session.id
+        }
+      }
+    );
+    
+    console.log('Successfully updated Stripe subscription:', updatedStripeSubscription.id);
+    console.log('Updated Stripe metadata:', JSON.stringify(updatedStripeSubscription.metadata, null, 2));
+
+    const userId = await resolveUserId(supabaseClient, session);
+    if (userId && session.customer) {
+      await linkBillingCustomer(supabaseClient, session.customer, userId, 'checkout');
+    }
+
+    console.log('Attempting to update subscription in Supabase with stripe_id:', subscriptionId);
+    console.log('User ID being set:', userId);
+    
+    const supabaseUpdateResult = await supabaseClient
+      .from("subscriptions")
+      .update({
+        metadata: {
+          ...session.metadata,
+          checkoutSessionId: session.id
+        },
+        ...(userId ? { user_id: userId } : {}),
+        status: stripeSubscription.status, // Update the status from Stripe
+        current_period_start: stripeSubscription.current_period_start,
+        current_period_end: stripeSubscription.current_period_end,
+        cancel_at_period_end: stripeSubscription.cancel_at_period_end
+      })
+      .eq("stripe_id", subscriptionId);
+    
+    console.log('Supabase update result:', JSON.stringify(supabaseUpdateResult, null, 2));
+    
+    if (supabaseUpdateResult.error) {
+      console.error('Error updating Supabase subscription:', supabaseUpdateResult.error);
+      throw new Error(`Supabase update failed: ${supabaseUpdateResult.error.message}`);
+    }
+
+    return new Response(
+      JSON.stringify({ 
+        message: "Checkout session completed successfully",
+        subscriptionId 
+      }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error processing checkout completion:', error);
+    console.error('Error details:', JSON.stringify(error, Object.getOwnPropertyNames(error)));
+    console.error('Error stack:', error.stack);
+    return new Response(
+      JSON.stringify({ error: "Failed to process checkout completion", details: error.message }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+async function handleCheckoutAsyncPaymentSucceeded(deps: EventDeps, event: any) {
+  const session = event.data.object;
+  console.log('Handling checkout async payment succeeded:', session.id);
+
+  // Subscriptions follow their own customer.subscription.* events
+  if (session.mode !== 'payment') {
+    return new Response(
+      JSON.stringify({ message: "Nothing to fulfil" }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  return await fulfilCreditPackPurchase(deps, session);
+}
+
+async function handleInvoicePaymentSucceeded(_deps: EventDeps, event: any) {
+  const invoice = event.data.object;
+  console.log('Handling invoice payment succeeded:', invoice.id);
+  
+  const subscriptionId = typeof invoice.subscription === 'string' 
+    ? invoice.subscription 
+    : invoice.subscription?.id;
+
+  try {
+    // The invoice itself is already stored on this event's webhook_events row
+    console.log('Invoice paid:', invoice.id, subscriptionId, invoice.amount_paid / 100, invoice.currency);
+
+    return new Response(
+      JSON.stringify({ message: "Invoice payment succeeded" }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error processing successful payment:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to process successful payment" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+async function handleInvoicePaymentFailed({ stripe, supabaseClient }: EventDeps, event: any) {
+  const invoice = event.data.object;
+  console.log('Handling invoice payment failed:', invoice.id);
+  
+  const subscriptionId = typeof invoice.subscription === 'string' 
+    ? invoice.subscription 
+    : invoice.subscription?.id;
+
+  try {
+    if (subscriptionId) {
+      // The card's decline reason, to show the user
+      const charge = typeof invoice.charge === 'string'
+        ? await stripe.charges.retrieve(invoice.charge)
+        : invoice.charge;
+
+      // Marks the subscription past due and starts (or continues) dunning
+      const { error } = await supabaseClient.rpc('record_payment_failure', {
+        p_stripe_subscription_id: subscriptionId,
+        p_stripe_invoice_id: invoice.id,
+        p_attempt_count: invoice.attempt_count ?? 1,
+        p_amount_due: invoice.amount_due ?? 0,
+        p_currency: invoice.currency,
+        p_failure_message: charge?.failure_message
+          ?? invoice.last_finalization_error?.message
+          ?? null,
+        p_hosted_invoice_url: invoice.hosted_invoice_url ?? null,
+        p_next_payment_attempt: invoice.next_payment_attempt ?? null,
+        // Older than the last subscription event, it's only kept on record
+        // unless that event left the subscription past due
+        p_event_created_at: new Date(event.created * 1000).toISOString(),
+      });
+
+      if (error) throw error;
+    }
+
+    return new Response(
+      JSON.stringify({ message: "Invoice payment failed" }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error processing failed payment:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to process failed payment" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// Refunds and disputes only touch credit packs (found by payment intent) in
+// the database; for any other charge they flag whoever the customer is.
+async function handleChargeRefunded({ supabaseClient }: EventDeps, event: any) {
+  const charge = event.data.object;
+  console.log('Handling charge refunded:', charge.id, charge.amount_refunded);
+
+  try {
+    const userId = await resolveUserId(supabaseClient, charge);
+
+    // Takes back the refunded share of a credit pack's points, flags the
+    // account and tells the admins
+    const { data: pointsClawedBack, error } = await supabaseClient.rpc('record_charge_refund', {
+      p_stripe_charge_id: charge.id,
+      p_payment_intent_id: typeof charge.payment_intent === 'string'
+        ? charge.payment_intent
+        : charge.payment_intent?.id ?? null,
+      p_user_id: userId,
+      p_amount: charge.amount,
+      p_amount_refunded: charge.amount_refunded,
+      p_currency: charge.currency,
+    });
+
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify({ message: "Refund recorded", pointsClawedBack }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error recording refund:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to record refund" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// Stores the dispute (once), taking back a disputed pack's points. Disputes
+// don't carry the customer, so the user comes from the charge.
+async function recordDispute({ stripe, supabaseClient }: EventDeps, dispute: any) {
+  const charge = typeof dispute.charge === 'string'
+    ? await stripe.charges.retrieve(dispute.charge)
+    : dispute.charge;
+  const userId = await resolveUserId(supabaseClient, charge);
+  const paymentIntent = dispute.payment_intent ?? charge.payment_intent;
+
+  const { data, error } = await supabaseClient.rpc('record_dispute', {
+    p_stripe_dispute_id: dispute.id,
+    p_stripe_charge_id: charge.id,
+    p_payment_intent_id: typeof paymentIntent === 'string'
+      ? paymentIntent
+      : paymentIntent?.id ?? null,
+    p_user_id: userId,
+    p_amount: dispute.amount,
+    p_currency: dispute.currency,
+    p_reason: dispute.reason ?? null,
+    p_status: dispute.status,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+async function handleDisputeCreated(deps: EventDeps, event: any) {
+  const dispute = event.data.object;
+  console.log('Handling dispute created:', dispute.id, dispute.reason);
+
+  try {
+    const record = await recordDispute(deps, dispute);
+
+    return new Response(
+      JSON.stringify({
+        message: "Dispute recorded",
+        pointsClawedBack: record.points_clawed_back,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error recording dispute:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to record dispute" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+async function handleDisputeClosed(deps: EventDeps, event: any) {
+  const dispute = event.data.object;
+  console.log('Handling dispute closed:', dispute.id, dispute.status);
+
+  try {
+    // In case the created event hasn't arrived (or failed)
+    await recordDispute(deps, dispute);
+
+    // Won returns the points and clears the flag; lost keeps both
+    const { error } = await deps.supabaseClient.rpc('close_dispute', {
+      p_stripe_dispute_id: dispute.id,
+      p_status: dispute.status,
+    });
+
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify({ message: `Dispute ${dispute.status}` }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error closing dispute:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to close dispute" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// Applies a verified event. Exported so tests can drive each branch directly.
+export async function dispatchEvent(deps: EventDeps, event: any): Promise<Response> {
+  switch (event.type) {
+    case 'customer.subscription.created':
+      return await handleSubscriptionCreated(deps, event);
+    case 'customer.subscription.updated':
+      return await handleSubscriptionUpdated(deps, event);
+    case 'customer.subscription.deleted':
+      return await handleSubscriptionDeleted(deps, event);
+    case 'checkout.session.completed':
+      return await handleCheckoutSessionCompleted(deps, event);
+    case 'checkout.session.async_payment_succeeded':
+      return await handleCheckoutAsyncPaymentSucceeded(deps, event);
+    case 'invoice.payment_succeeded':
+      return await handleInvoicePaymentSucceeded(deps, event);
+    case 'invoice.payment_failed':
+      return await handleInvoicePaymentFailed(deps, event);
+    case 'charge.refunded':
+      return await handleChargeRefunded(deps, event);
+    case 'charge.dispute.created':
+      return await handleDisputeCreated(deps, event);
+    case 'charge.dispute.closed':
+      return await handleDisputeClosed(deps, event);
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+      return new Response(
+        JSON.stringify({ message: `Unhandled event type: ${event.type}` }),
+        { 
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Claims, dispatches and records a verified event. Shared by the signed
+// webhook entrypoint and admin replays of failed events.
+export async function processEvent(deps: EventDeps, event: any): Promise<Response> {
+  const { supabaseClient } = deps;
+
+  console.log('Processing webhook event:', event.type);
+
+  const claim = await claimWebhookEvent(supabaseClient, event);
+
+  if (!claim.claimed) {
+    // Already handled: acknowledge so Stripe stops retrying. Still in
+    // flight elsewhere: ask Stripe to retry later in case that attempt fails.
+    const done = claim.processing_status === 'succeeded';
+    console.log(`Skipping ${done ? 'replayed' : 'in-flight'} event:`, event.id);
+    return jsonResponse(
+      { message: done ? 'Event already processed' : 'Event is being processed' },
+      done ? 200 : 409
+    );
+  }
+
+  let response: Response;
+  const subscriptionId = getEventSubscriptionId(event);
+
+  try {
+    if (subscriptionId && await isOutOfOrder(supabaseClient, subscriptionId, event)) {
+      console.log('Ignoring out-of-order event:', event.id, 'for subscription', subscriptionId);
+      await finishWebhookEvent(supabaseClient, claim.id, { skipReason: 'out_of_order' });
+      return jsonResponse({ message: 'Ignored out-of-order event' });
+    }
+
+    response = await dispatchEvent(deps, event);
+  } catch (error) {
+    await finishWebhookEvent(supabaseClient, claim.id, { error: error.message });
+    throw error;
+  }
+
+  if (response.ok) {
+    if (subscriptionId) {
+      await recordAppliedEvent(supabaseClient, subscriptionId, event);
+    }
+    await finishWebhookEvent(supabaseClient, claim.id);
+  } else {
+    const body = await response.clone().json().catch(() => ({}));
+    await finishWebhookEvent(supabaseClient, claim.id, {
+      error: body.error ?? `Handler responded with ${response.status}`,
+    });
+  }
+
+  return response;
+}
+
+// Main webhook handler
+export function createHandler(deps: WebhookDeps) {
+  const { stripe, webhookSecret } = deps;
+
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const signature = req.headers.get('stripe-signature');
+
+      if (!signature) {
+        throw new Error('No signature found');
+      }
+
+      const body = await req.text();
+
+      if (!webhookSecret) {
+        throw new Error('Webhook secret not configured');
+      }
+
+      let event;
+
+      try {
+        event = await stripe.webhooks.constructEventAsync(
+          body,
+          signature,
+          webhookSecret
+        );
+      } catch (err) {
+        console.error('Error verifying webhook signature:', err);
+        throw new Error('Invalid signature');
+      }
+
+      return await processEvent(deps, event);
+    } catch (err) {
+      console.error('Error processing webhook:', err);
+      return jsonResponse({ error: err.message }, 500);
+    }
+  };
+}
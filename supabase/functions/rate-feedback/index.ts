@@ -0,0 +1,116 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  calculateFeedbackPoints,
+  scoreFeedbackQuality,
+} from '../_shared/rules/feedback-quality.ts';
+import { awardEarnedBadges } from '../_shared/badges.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { feedback_id, helpful } = await req.json();
+
+    if (!feedback_id || typeof helpful !== 'boolean') {
+      throw new Error('Missing required parameters');
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: feedback, error: feedbackError } = await supabaseClient
+      .from('feedback')
+      .select('*, feedback_scores(comment), projects(user_id, rubric_dimensions)')
+      .eq('id', feedback_id)
+      .maybeSingle();
+
+    if (feedbackError) throw feedbackError;
+
+    if (!feedback || feedback.projects?.user_id !== user.id) {
+      return jsonResponse({ error: 'Feedback not found' }, 404);
+    }
+
+    if (feedback.rated_at) {
+      return jsonResponse({ error: 'Feedback has already been rated' }, 409);
+    }
+
+    const { count: annotationCount, error: annotationError } = await supabaseClient
+      .from('feedback_annotations')
+      .select('id', { count: 'exact', head: true })
+      .eq('feedback_id', feedback_id);
+
+    if (annotationError) throw annotationError;
+
+    const quality = scoreFeedbackQuality({
+      pros: feedback.pros,
+      cons: feedback.cons,
+      scores: feedback.feedback_scores ?? [],
+      rubricSize: Array.isArray(feedback.projects?.rubric_dimensions)
+        ? feedback.projects.rubric_dimensions.length
+        : 0,
+      annotationCount: annotationCount ?? 0,
+    });
+    const points = calculateFeedbackPoints(quality.score, helpful);
+
+    // Rates and awards the points together; rate_feedback only rates feedback
+    // that isn't rated yet, so two concurrent ratings can't both go through
+    const { data: rated, error: rateError } = await supabaseClient.rpc('rate_feedback', {
+      p_feedback_id: feedback_id,
+      p_helpful: helpful,
+      p_quality_score: quality.score,
+      p_points: points,
+    });
+
+    if (rateError?.hint === 'already_rated') {
+      return jsonResponse({ error: 'Feedback has already been rated' }, 409);
+    }
+    if (rateError) throw rateError;
+
+    // Ratings count towards badges for both the reviewer and the creator; only
+    // the creator's (the caller's) are returned. The rating itself has been
+    // recorded, so a failure here is only logged.
+    let badges = [];
+    try {
+      const [, creatorBadges] = await Promise.all([
+        awardEarnedBadges(supabaseClient, feedback.user_id),
+        awardEarnedBadges(supabaseClient, user.id),
+      ]);
+      badges = creatorBadges;
+    } catch (badgeError) {
+      console.error('Error awarding badges:', badgeError);
+    }
+
+    return jsonResponse({
+      feedback: rated,
+      quality,
+      points,
+      badges,
+    });
+  } catch (error) {
+    console.error('Error rating feedback:', error);
+    return jsonResponse({ error: error.message }, 400);
+  }
+});
@@ -0,0 +1,126 @@
+import type Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { linkBillingCustomer } from '../_shared/customers.ts';
+
+export type ReconcileBillingCustomersDeps = {
+  stripe: Stripe;
+  supabaseClient: SupabaseClient;
+  /** Only callers presenting this key may run the job */
+  serviceRoleKey: string;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Orphans handled per run; the rest wait for the next one
+const BATCH_SIZE = 100;
+
+// Who a customer belongs to according to Stripe: the user_id create-checkout
+// puts on customers it creates, else the one on the subscription
+async function findStripeUserId(
+  stripe: Stripe,
+  customerId: string,
+  subscriptionId: string,
+): Promise<string | null> {
+  const customer = await stripe.customers.retrieve(customerId);
+  if (!customer.deleted && customer.metadata.user_id) {
+    return customer.metadata.user_id;
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  return subscription.metadata.user_id || subscription.metadata.userId || null;
+}
+
+// Links subscriptions the payments webhook stored without a user (their
+// customer wasn't linked yet). Known customers are matched in the database;
+// for the rest, Stripe metadata names the user. Meant to run on a schedule
+// with the service role key; reconcile_orphaned_subscriptions also runs
+// hourly through pg_cron for the database-only part.
+export function createHandler({ stripe, supabaseClient, serviceRoleKey }: ReconcileBillingCustomersDeps) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+
+      if (!serviceRoleKey || token !== serviceRoleKey) {
+        return jsonResponse({ error: 'Not authorized' }, 401);
+      }
+
+      const { data: attached, error: reconcileError } = await supabaseClient
+        .rpc('reconcile_orphaned_subscriptions');
+
+      if (reconcileError) throw reconcileError;
+
+      const { data: orphans, error: orphansError } = await supabaseClient
+        .from('subscriptions')
+        .select('stripe_id, customer_id')
+        .is('user_id', null)
+        .not('customer_id', 'is', null)
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (orphansError) throw orphansError;
+
+      const linked: string[] = [];
+      const unresolved: string[] = [];
+      const checkedCustomers = new Set<string>();
+
+      for (const orphan of orphans) {
+        if (checkedCustomers.has(orphan.customer_id)) continue;
+        checkedCustomers.add(orphan.customer_id);
+
+        let userId: string | null = null;
+        try {
+          userId = await findStripeUserId(stripe, orphan.customer_id, orphan.stripe_id);
+        } catch (error) {
+          // e.g. a customer deleted in Stripe; try again next run
+          console.error('Error looking up customer:', orphan.customer_id, error.message);
+        }
+
+        // Metadata could name a user that no longer exists
+        const { data: user, error: userError } = userId
+          ? await supabaseClient.from('users').select('user_id').eq('user_id', userId).maybeSingle()
+          : { data: null, error: null };
+
+        if (userError) throw userError;
+
+        if (!user) {
+          unresolved.push(
+            ...orphans
+              .filter(({ customer_id }) => customer_id === orphan.customer_id)
+              .map(({ stripe_id }) => stripe_id),
+          );
+          continue;
+        }
+
+        // Linking adopts every orphan of this customer
+        await linkBillingCustomer(supabaseClient, orphan.customer_id, user.user_id, 'reconciliation');
+        linked.push(orphan.customer_id);
+      }
+
+      if (unresolved.length) {
+        console.warn('Subscriptions still without a user:', unresolved);
+      }
+
+      return jsonResponse({
+        attached_from_known_customers: attached,
+        linked_customers: linked,
+        unresolved_subscriptions: unresolved,
+      });
+    } catch (error) {
+      console.error('Error reconciling billing customers:', error);
+      return jsonResponse({ error: error.message }, 500);
+    }
+  };
+}
@@ -0,0 +1,12 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createStripeClient } from '../_shared/stripe.ts';
+import { createHandler } from './handler.ts';
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+serve(createHandler({
+  stripe: createStripeClient(),
+  supabaseClient: createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey),
+  serviceRoleKey,
+}));
@@ -0,0 +1,288 @@
+import type Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { findCustomerUser, linkBillingCustomer } from '../_shared/customers.ts';
+import { getPriceEntitlements } from '../_shared/plans.ts';
+
+export type ReconcileSubscriptionsDeps = {
+  stripe: Stripe;
+  supabaseClient: SupabaseClient;
+  /** Only callers presenting this key may run the job */
+  serviceRoleKey: string;
+};
+
+type FieldDrift = { local: unknown; stripe: unknown };
+
+type DriftEntry = {
+  stripe_subscription_id: string;
+  action:
+    | 'repaired'
+    | 'created'
+    | 'missing_in_stripe'
+    | 'would_repair'
+    | 'would_create'
+    | 'duplicate_entitled';
+  fields: Record<string, FieldDrift>;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Caps a run at 10,000 Stripe subscriptions so it can't time out; past
+// that, the missing_in_stripe check is skipped
+const STRIPE_PAGE_SIZE = 100;
+const MAX_STRIPE_PAGES = 100;
+const LOCAL_PAGE_SIZE = 1000;
+
+// Statuses Stripe never moves a subscription out of
+const finalStatuses = ['canceled', 'incomplete_expired'];
+
+// The write would give a user a second live plan, which
+// subscriptions_one_entitled_per_user refuses. The row is reported for an
+// admin to sort out in Stripe rather than failing the whole run.
+const isDuplicateEntitled = (error: { code?: string; message?: string } | null) =>
+  error?.code === '23505' && !!error.message?.includes('subscriptions_one_entitled_per_user');
+
+// The columns compared with Stripe, as Stripe has them
+function stripeFields(subscription: Stripe.Subscription) {
+  return {
+    status: subscription.status,
+    stripe_price_id: subscription.items.data[0]?.price.id ?? null,
+    current_period_start: subscription.current_period_start,
+    current_period_end: subscription.current_period_end,
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    canceled_at: subscription.canceled_at ?? null,
+    ended_at: subscription.ended_at ?? null,
+    trial_end: subscription.trial_end ?? null,
+  };
+}
+
+type ComparedFields = ReturnType<typeof stripeFields>;
+
+function diffFields(
+  local: Record<string, unknown>,
+  remote: ComparedFields,
+): Record<string, FieldDrift> {
+  const drift: Record<string, FieldDrift> = {};
+  for (const [field, value] of Object.entries(remote)) {
+    const current = local[field] ?? null;
+    // bigint columns can come back as strings
+    const same = typeof value === 'number' ? Number(current) === value : current === value;
+    if (!same) drift[field] = { local: current, stripe: value };
+  }
+  return drift;
+}
+
+async function loadLocalSubscriptions(supabaseClient: SupabaseClient) {
+  const rows: Record<string, any>[] = [];
+  for (let from = 0; ; from += LOCAL_PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from('subscriptions')
+      .select('stripe_id, status, stripe_price_id, current_period_start, current_period_end, cancel_at_period_end, canceled_at, ended_at, trial_end')
+      .not('stripe_id', 'is', null)
+      .order('created_at', { ascending: true })
+      .range(from, from + LOCAL_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < LOCAL_PAGE_SIZE) return rows;
+  }
+}
+
+// The price's plan columns, when the subscription moved to another price
+async function planFields(stripe: Stripe, subscription: Stripe.Subscription) {
+  const item = subscription.items.data[0];
+  return {
+    price_id: item?.price.id,
+    interval: item?.plan.interval,
+    amount: item?.plan.amount ?? 0,
+    entitlements: await getPriceEntitlements(stripe, item?.price.id),
+  };
+}
+
+/**
+ * Compares every Stripe subscription with its local row, repairs drift in
+ * status, period, price and cancellation fields, stores subscriptions the
+ * webhook never saw, and writes a subscription_reconciliation_reports row.
+ * Pass `{ "dry_run": true }` to report without writing subscriptions.
+ */
+export function createHandler({ stripe, supabaseClient, serviceRoleKey }: ReconcileSubscriptionsDeps) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      return jsonResponse({ error: 'Not authorized' }, 401);
+    }
+
+    const { dry_run: dryRun = false } = await req.json().catch(() => ({}));
+    const startedAt = new Date().toISOString();
+
+    const { data: report, error: reportError } = await supabaseClient
+      .from('subscription_reconciliation_reports')
+      .insert({ dry_run: dryRun, started_at: startedAt })
+      .select('id')
+      .single();
+
+    if (reportError) {
+      console.error('Error starting reconciliation report:', reportError);
+      return jsonResponse({ error: reportError.message }, 500);
+    }
+
+    const drift: DriftEntry[] = [];
+    let checked = 0;
+    let repaired = 0;
+    let created = 0;
+
+    try {
+      const localRows = new Map(
+        (await loadLocalSubscriptions(supabaseClient)).map((row) => [row.stripe_id, row]),
+      );
+      const seen = new Set<string>();
+
+      let startingAfter: string | undefined;
+      let pages = 0;
+      let hasMore = true;
+
+      while (hasMore && pages < MAX_STRIPE_PAGES) {
+        const page = await stripe.subscriptions.list({
+          status: 'all',
+          limit: STRIPE_PAGE_SIZE,
+          ...(startingAfter ? { starting_after: startingAfter } : {}),
+        });
+        pages++;
+        hasMore = page.has_more;
+        startingAfter = page.data[page.data.length - 1]?.id;
+
+        for (const subscription of page.data) {
+          checked++;
+          seen.add(subscription.id);
+          const remote = stripeFields(subscription);
+          const local = localRows.get(subscription.id);
+
+          if (!local) {
+            const entry: DriftEntry = {
+              stripe_subscription_id: subscription.id,
+              action: dryRun ? 'would_create' : 'created',
+              fields: diffFields({}, remote),
+            };
+            drift.push(entry);
+            if (dryRun) continue;
+
+            const userId = subscription.metadata.user_id
+              || await findCustomerUser(supabaseClient, subscription.customer as string);
+            if (userId) {
+              await linkBillingCustomer(supabaseClient, subscription.customer as string, userId, 'subscription');
+            }
+
+            const { error } = await supabaseClient.from('subscriptions').insert({
+              stripe_id: subscription.id,
+              user_id: userId,
+              customer_id: subscription.customer,
+              currency: subscription.currency,
+              started_at: subscription.start_date,
+              trial_start: subscription.trial_start ?? null,
+              metadata: subscription.metadata,
+              last_event_created_at: startedAt,
+              ...remote,
+              ...(await planFields(stripe, subscription)),
+            });
+            if (isDuplicateEntitled(error)) {
+              entry.action = 'duplicate_entitled';
+              continue;
+            }
+            if (error) throw error;
+            created++;
+            continue;
+          }
+
+          const fields = diffFields(local, remote);
+          if (!Object.keys(fields).length) continue;
+
+          const entry: DriftEntry = {
+            stripe_subscription_id: subscription.id,
+            action: dryRun ? 'would_repair' : 'repaired',
+            fields,
+          };
+          drift.push(entry);
+          if (dryRun) continue;
+
+          // Stamped as the last applied event so a delayed webhook from
+          // before this run can't roll the repair back
+          const { error } = await supabaseClient
+            .from('subscriptions')
+            .update({
+              ...remote,
+              ...(fields.stripe_price_id ? await planFields(stripe, subscription) : {}),
+              last_event_created_at: startedAt,
+            })
+            .eq('stripe_id', subscription.id);
+          if (isDuplicateEntitled(error)) {
+            entry.action = 'duplicate_entitled';
+            continue;
+          }
+          if (error) throw error;
+          repaired++;
+        }
+      }
+
+      // Only meaningful when every Stripe subscription was listed
+      if (!hasMore) {
+        for (const [stripeId, row] of localRows) {
+          if (seen.has(stripeId) || finalStatuses.includes(row.status)) continue;
+          drift.push({
+            stripe_subscription_id: stripeId,
+            action: 'missing_in_stripe',
+            fields: { status: { local: row.status, stripe: null } },
+          });
+        }
+      } else {
+        console.warn('Stopped after', pages, 'pages; the rest is left for the next run');
+      }
+
+      const summary = {
+        status: 'succeeded',
+        checked_count: checked,
+        drifted_count: drift.length,
+        repaired_count: repaired,
+        created_count: created,
+        drift,
+        finished_at: new Date().toISOString(),
+      };
+      const { error: finishError } = await supabaseClient
+        .from('subscription_reconciliation_reports')
+        .update(summary)
+        .eq('id', report.id);
+
+      if (finishError) throw finishError;
+
+      return jsonResponse({ id: report.id, dry_run: dryRun, ...summary });
+    } catch (error) {
+      console.error('Error reconciling subscriptions:', error);
+      await supabaseClient
+        .from('subscription_reconciliation_reports')
+        .update({
+          status: 'failed',
+          error: error.message,
+          checked_count: checked,
+          drifted_count: drift.length,
+          repaired_count: repaired,
+          created_count: created,
+          drift,
+          finished_at: new Date().toISOString(),
+        })
+        .eq('id', report.id);
+
+      return jsonResponse({ id: report.id, error: error.message }, 500);
+    }
+  };
+}
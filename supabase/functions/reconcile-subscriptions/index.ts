@@ -0,0 +1,15 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createStripeClient } from '../_shared/stripe.ts';
+import { createHandler } from './handler.ts';
+
+// Called daily by the reconcile-subscriptions cron job (see
+// 20261019370000_schedule_subscription_reconciliation.sql) with the service
+// role key
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+serve(createHandler({
+  stripe: createStripeClient(),
+  supabaseClient: createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey),
+  serviceRoleKey,
+}));
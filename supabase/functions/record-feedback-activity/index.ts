@@ -0,0 +1,46 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { awardEarnedBadges } from '../_shared/badges.ts';
+import { recordStreakActivity } from '../_shared/streaks.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Called by the app after the signed-in user writes feedback. Advances their
+// streak and re-evaluates their badges from server-side data, so the request
+// body is not trusted.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const streak = await recordStreakActivity(supabaseClient, user.id);
+    const badges = await awardEarnedBadges(supabaseClient, user.id);
+
+    return jsonResponse({ badges, streak });
+  } catch (error) {
+    console.error('Error recording feedback activity:', error);
+    return jsonResponse({ error: error.message }, 400);
+  }
+});
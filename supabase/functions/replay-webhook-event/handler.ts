@@ -0,0 +1,130 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { type EventDeps, processEvent } from '../payments-webhook/handler.ts';
+
+export type ReplayWebhookEventDeps = EventDeps;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+async function isAdmin(supabaseClient: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabaseClient
+    .from('admin_users')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return !!data;
+}
+
+// The Stripe event as the payments webhook received it, rebuilt from the
+// stored row (which keeps event.data.object)
+function toStripeEvent(row: any) {
+  return {
+    id: row.stripe_event_id,
+    type: row.event_type,
+    created: Math.floor(new Date(row.event_created_at ?? row.created_at).getTime() / 1000),
+    data: { object: row.data },
+  };
+}
+
+// Re-runs a failed payments webhook event through the same code path as a
+// live delivery. Admins only; events that succeeded or are in flight are
+// left alone.
+export function createHandler(deps: ReplayWebhookEventDeps) {
+  const { supabaseClient } = deps;
+
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const { event_id } = await req.json();
+
+      if (!event_id || typeof event_id !== 'string') {
+        throw new Error('Missing required parameters');
+      }
+
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+      if (authError || !user) {
+        return jsonResponse({ error: 'Not authenticated' }, 401);
+      }
+
+      if (!await isAdmin(supabaseClient, user.id)) {
+        return jsonResponse({ error: 'Not allowed' }, 403);
+      }
+
+      const { data: row, error: fetchError } = await supabaseClient
+        .from('webhook_events')
+        .select('*')
+        .eq('id', event_id)
+        .maybeSingle();
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      if (!row) {
+        return jsonResponse({ error: 'Event not found' }, 404);
+      }
+
+      if (row.processing_status !== 'failed') {
+        return jsonResponse({ error: 'Only failed events can be replayed' }, 409);
+      }
+
+      const { error: markError } = await supabaseClient
+        .from('webhook_events')
+        .update({
+          replay_count: row.replay_count + 1,
+          last_replayed_at: new Date().toISOString(),
+          last_replayed_by: user.id,
+        })
+        .eq('id', row.id);
+
+      if (markError) {
+        throw markError;
+      }
+
+      console.log('Replaying webhook event:', row.stripe_event_id, 'for', user.id);
+
+      // processEvent records failures on the row itself; the caller gets the
+      // updated row either way
+      let result: unknown;
+      try {
+        const response = await processEvent(deps, toStripeEvent(row));
+        result = await response.json().catch(() => null);
+      } catch (error) {
+        result = { error: error.message };
+      }
+
+      const { data: event, error: reloadError } = await supabaseClient
+        .from('webhook_events')
+        .select('*')
+        .eq('id', row.id)
+        .single();
+
+      if (reloadError) {
+        throw reloadError;
+      }
+
+      return jsonResponse({ result, event });
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+      return jsonResponse({ error: error.message }, 400);
+    }
+  };
+}
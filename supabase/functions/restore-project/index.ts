@@ -0,0 +1,72 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  loadEntitlements,
+  projectLimitFromError,
+  projectLimitMessage,
+} from '../_shared/entitlements.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Brings one of the signed-in user's archived projects back, if their plan
+// has room for another active project.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { project_id } = await req.json();
+
+    if (!project_id) {
+      throw new Error('Missing required parameters');
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const entitlements = await loadEntitlements(supabaseClient, user.id);
+
+    // Counted and restored under a lock on the user, like create-project
+    const { data, error } = await supabaseClient
+      .rpc('restore_project_within_limits', {
+        p_user_id: user.id,
+        p_project_id: project_id,
+        p_max_active_projects: entitlements.maxActiveProjects,
+      })
+      .maybeSingle();
+
+    const limit = projectLimitFromError(error);
+    if (limit) {
+      return jsonResponse({ error: projectLimitMessage(limit, entitlements), limit }, 403);
+    }
+    if (error) throw error;
+
+    if (!data) {
+      return jsonResponse({ error: 'Project not found' }, 404);
+    }
+
+    return jsonResponse({ project: data });
+  } catch (error) {
+    console.error('Error restoring project:', error);
+    return jsonResponse({ error: error.message }, 400);
+  }
+});
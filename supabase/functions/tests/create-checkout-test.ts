@@ -0,0 +1,233 @@
+import {
+  assertEquals,
+  assertExists,
+} from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../create-checkout/handler.ts';
+import { createFakeStripe } from './helpers/fake-stripe.ts';
+import * as fixtures from './helpers/fixtures.ts';
+import {
+  createTestUser,
+  hasLocalDatabase,
+  supabaseClient,
+} from './helpers/local-db.ts';
+
+type TestUser = Awaited<ReturnType<typeof createTestUser>>;
+
+function setup() {
+  const fake = createFakeStripe();
+  const pro = fixtures.product();
+  const monthly = fixtures.recurringPrice(pro.id, { metadata: { trial_days: '14' } });
+  const packProduct = fixtures.product({ name: '500 points', metadata: { credit_points: '500' } });
+  const pack = fixtures.oneTimePrice(packProduct.id);
+  fake.add(pro, monthly, packProduct, pack);
+
+  const handler = createHandler({
+    stripe: fake.stripe,
+    supabaseClient,
+    siteUrl: 'http://localhost:5173',
+  });
+  const checkout = async (user: TestUser | null, body: Record<string, unknown>) => {
+    const response = await handler(new Request('http://localhost/create-checkout', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(user ? { Authorization: `Bearer ${user.accessToken}` } : {}),
+      },
+      body: JSON.stringify({ return_url: 'http://localhost:5173/success', ...body }),
+    }));
+    return { status: response.status, body: await response.json() };
+  };
+  const createdSessions = () =>
+    fake.requests
+      .filter((r) => r.method === 'POST' && r.path === '/v1/checkout/sessions')
+      .map((r) => r.params);
+  const createdSession = () => createdSessions()[0];
+
+  return { fake, monthly, pack, checkout, createdSession, createdSessions };
+}
+
+async function savedCustomerId(userId: string): Promise<string | null> {
+  const { data, error } = await supabaseClient
+    .from('users')
+    .select('stripe_customer_id')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+  return data.stripe_customer_id;
+}
+
+async function insertSubscription(userId: string, fields: Record<string, unknown>) {
+  const { error } = await supabaseClient.from('subscriptions').insert({
+    stripe_id: fixtures.fakeId('sub'),
+    user_id: userId,
+    ...fields,
+  });
+  if (error) throw error;
+}
+
+Deno.test({
+  name: 'create-checkout requires a signed-in user',
+  ignore: !hasLocalDatabase,
+  fn: async () => {
+    const { monthly, checkout, createdSession } = setup();
+
+    const { status } = await checkout(null, { price_id: monthly.id });
+
+    assertEquals(status, 401);
+    assertEquals(createdSession(), undefined);
+  },
+});
+
+Deno.test('create-checkout only returns to the app', async () => {
+  const { monthly, checkout, createdSession } = setup();
+
+  const { status, body } = await checkout(null, {
+    price_id: monthly.id,
+    return_url: 'https://evil.example/success',
+  });
+
+  assertEquals(status, 400);
+  assertEquals(body.error, 'Invalid return URL');
+  assertEquals(createdSession(), undefined);
+});
+
+Deno.test({
+  name: 'create-checkout creates and saves a customer for a first-time buyer',
+  ignore: !hasLocalDatabase,
+  fn: async () => {
+    const { fake, monthly, checkout, createdSession } = setup();
+    const user = await createTestUser();
+
+    // A user_id in the body is ignored; the token decides who is buying
+    const { status, body } = await checkout(user, {
+      price_id: monthly.id,
+      user_id: crypto.randomUUID(),
+    });
+
+    assertEquals(status, 200);
+    assertEquals(body.trial_days, 14);
+    const customerId = await savedCustomerId(user.id);
+    assertExists(customerId);
+    assertEquals(fake.get(customerId)!.email, user.email);
+    assertEquals(fake.get(customerId)!.metadata.user_id, user.id);
+
+    const params = createdSession()!;
+    assertEquals(params.mode, 'subscription');
+    assertEquals(params.customer, customerId);
+    assertEquals(params.customer_email, undefined);
+    assertEquals(params.metadata.user_id, user.id);
+    assertEquals(params.subscription_data.metadata.user_id, user.id);
+    assertEquals(params.subscription_data.trial_period_days, '14');
+    assertEquals(params.allow_promotion_codes, 'true');
+  },
+});
+
+Deno.test({
+  name: 'create-checkout reuses the customer and skips the trial for returning subscribers',
+  ignore: !hasLocalDatabase,
+  fn: async () => {
+    const { fake, monthly, checkout, createdSession } = setup();
+    const user = await createTestUser();
+    const customerId = fixtures.fakeId('cus');
+    await insertSubscription(user.id, { customer_id: customerId, status: 'canceled' });
+
+    const { status, body } = await checkout(user, { price_id: monthly.id });
+
+    assertEquals(status, 200);
+    assertEquals(body.trial_days, 0);
+    assertEquals(await savedCustomerId(user.id), customerId);
+    assertEquals(fake.requests.filter((r) => r.path === '/v1/customers').length, 0);
+    const params = createdSession()!;
+    assertEquals(params.customer, customerId);
+    assertEquals(params.subscription_data.trial_period_days, undefined);
+  },
+});
+
+Deno.test({
+  name: 'create-checkout refuses a second active subscription',
+  ignore: !hasLocalDatabase,
+  fn: async () => {
+    const { monthly, pack, checkout, createdSessions } = setup();
+    const user = await createTestUser();
+    await insertSubscription(user.id, {
+      customer_id: fixtures.fakeId('cus'),
+      status: 'active',
+    });
+
+    const refused = await checkout(user, { price_id: monthly.id });
+    assertEquals(refused.status, 409);
+    assertEquals(createdSessions().length, 0);
+
+    // Subscribers can still buy credit packs
+    const packCheckout = await checkout(user, { price_id: pack.id });
+    assertEquals(packCheckout.status, 200);
+    assertEquals(createdSessions().length, 1);
+  },
+});
+
+Deno.test({
+  name: 'create-checkout sells credit packs as one-time payments',
+  ignore: !hasLocalDatabase,
+  fn: async () => {
+    const { fake, pack, checkout, createdSession } = setup();
+    const user = await createTestUser();
+
+    const { status } = await checkout(user, { price_id: pack.id });
+    assertEquals(status, 200);
+    const params = createdSession()!;
+    assertEquals(params.mode, 'payment');
+    assertEquals(params.invoice_creation.enabled, 'true');
+    assertEquals(params.subscription_data, undefined);
+
+    // A one-time price without credit_points isn't for sale
+    const other = fixtures.oneTimePrice(fixtures.product().id);
+    fake.add(other);
+    const rejected = await checkout(user, { price_id: other.id });
+    assertEquals(rejected.status, 400);
+  },
+});
+
+Deno.test({
+  name: 'create-checkout applies a valid promotion code and rejects an unknown one',
+  ignore: !hasLocalDatabase,
+  fn: async () => {
+    const { fake, monthly, checkout, createdSession } = setup();
+    const user = await createTestUser();
+    const promotionCode = {
+      id: fixtures.fakeId('promo'),
+      object: 'promotion_code',
+      code: 'LAUNCH20',
+      active: true,
+      expires_at: null,
+      max_redemptions: null,
+      times_redeemed: 0,
+      restrictions: { minimum_amount: null, minimum_amount_currency: null },
+      coupon: {
+        id: fixtures.fakeId('coupon'),
+        object: 'coupon',
+        valid: true,
+        percent_off: 20,
+        duration: 'once',
+        applies_to: null,
+      },
+    };
+    fake.add(promotionCode);
+
+    const applied = await checkout(user, {
+      price_id: monthly.id,
+      promotion_code: 'LAUNCH20',
+    });
+    assertEquals(applied.status, 200);
+    const params = createdSession()!;
+    assertEquals(params.discounts[0].promotion_code, promotionCode.id);
+    assertEquals(params.allow_promotion_codes, undefined);
+
+    const unknown = await checkout(user, {
+      price_id: monthly.id,
+      promotion_code: 'NOPE',
+    });
+    assertEquals(unknown.status, 400);
+    assertExists(unknown.body.error);
+  },
+});
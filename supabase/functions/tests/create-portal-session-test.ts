@@ -0,0 +1,74 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../create-portal-session/handler.ts';
+import { createFakeStripe } from './helpers/fake-stripe.ts';
+import * as fixtures from './helpers/fixtures.ts';
+import {
+  createTestUser,
+  hasLocalDatabase,
+  supabaseClient,
+} from './helpers/local-db.ts';
+
+function setup() {
+  const fake = createFakeStripe();
+  const handler = createHandler({
+    stripe: fake.stripe,
+    supabaseClient,
+    siteUrl: 'http://localhost:5173',
+  });
+  const openPortal = async (accessToken: string | null, returnUrl: string) => {
+    const response = await handler(new Request('http://localhost/create-portal-session', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      body: JSON.stringify({ return_url: returnUrl }),
+    }));
+    return { status: response.status, body: await response.json() };
+  };
+  const createdSessions = () =>
+    fake.requests.filter((r) => r.method === 'POST' && r.path === '/v1/billing_portal/sessions');
+
+  return { openPortal, createdSessions };
+}
+
+Deno.test('create-portal-session only returns to the app', async () => {
+  const { openPortal, createdSessions } = setup();
+
+  for (const returnUrl of ['https://evil.example/billing', 'javascript:alert(1)', '/billing']) {
+    const { status, body } = await openPortal(null, returnUrl);
+    assertEquals(status, 400);
+    assertEquals(body.error, 'Invalid return URL');
+  }
+  assertEquals(createdSessions().length, 0);
+});
+
+Deno.test({
+  name: 'create-portal-session opens the portal for the user\'s customer',
+  ignore: !hasLocalDatabase,
+  fn: async () => {
+    const { openPortal, createdSessions } = setup();
+    const user = await createTestUser();
+    const customerId = fixtures.fakeId('cus');
+    const { error } = await supabaseClient.from('subscriptions').insert({
+      stripe_id: fixtures.fakeId('sub'),
+      user_id: user.id,
+      customer_id: customerId,
+      status: 'active',
+    });
+    if (error) throw error;
+
+    const { status, body } = await openPortal(
+      user.accessToken,
+      'http://localhost:5173/dashboard/billing',
+    );
+
+    assertEquals(status, 200);
+    assertEquals(body.url.startsWith('https://billing.stripe.test/'), true);
+    assertEquals(createdSessions()[0].params.customer, customerId);
+    assertEquals(
+      createdSessions()[0].params.return_url,
+      'http://localhost:5173/dashboard/billing',
+    );
+  },
+});
@@ -0,0 +1,96 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  calculateFeedbackPoints,
+  countSpecificitySignals,
+  scoreFeedbackQuality,
+} from '../_shared/rules/feedback-quality.ts';
+
+// Pure scoring rules; no database or Stripe needed
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+const empty = { pros: '', cons: '', scores: [], rubricSize: 0, annotationCount: 0 };
+
+Deno.test('scoreFeedbackQuality gives empty feedback 0', () => {
+  assertEquals(scoreFeedbackQuality(empty), {
+    score: 0,
+    breakdown: { length: 0, specificity: 0, coverage: 0, annotations: 0 },
+  });
+});
+
+Deno.test('scoreFeedbackQuality keeps vague one-liners in the lowest band', () => {
+  const { score } = scoreFeedbackQuality({ ...empty, pros: 'Looks good, nice work' });
+  assert(score < 10, `expected a low score, got ${score}`);
+});
+
+Deno.test('scoreFeedbackQuality scales length up to the target word count', () => {
+  const half = scoreFeedbackQuality({ ...empty, pros: words(75) });
+  assertEquals(half.breakdown.length, 0.5);
+  assertEquals(half.score, 15);
+
+  const long = scoreFeedbackQuality({ ...empty, pros: words(400) });
+  assertEquals(long.breakdown.length, 1);
+  assertEquals(long.score, 30);
+});
+
+Deno.test('scoreFeedbackQuality only counts rubric comments of 5+ words', () => {
+  const { breakdown } = scoreFeedbackQuality({
+    ...empty,
+    scores: [
+      { comment: 'one two three four five' },
+      { comment: 'short' },
+      { comment: '' },
+      { comment: 'one two three four five six' },
+    ],
+    rubricSize: 4,
+  });
+
+  assertEquals(breakdown.coverage, 0.5);
+});
+
+Deno.test('scoreFeedbackQuality caps annotations at the target', () => {
+  const { breakdown, score } = scoreFeedbackQuality({ ...empty, annotationCount: 8 });
+
+  assertEquals(breakdown.annotations, 1);
+  assertEquals(score, 15);
+});
+
+Deno.test('scoreFeedbackQuality gives thorough, specific feedback 100', () => {
+  const { score, breakdown } = scoreFeedbackQuality({
+    pros: `The headline is clear and the pricing page loads fast on mobile. ${words(120)}`,
+    cons: 'The signup button should use more contrast; consider a bigger font, ' +
+      'maybe 18px, instead of the grey "Get started" copy.',
+    scores: [
+      { comment: 'Navigation menu is easy to follow overall' },
+      { comment: 'Checkout form asks for too many fields' },
+    ],
+    rubricSize: 2,
+    annotationCount: 4,
+  });
+
+  assertEquals(breakdown, { length: 1, specificity: 1, coverage: 1, annotations: 1 });
+  assertEquals(score, 100);
+});
+
+Deno.test('countSpecificitySignals counts concrete terms, suggestions and numbers', () => {
+  // "signup", "button", "should" and the number
+  assertEquals(countSpecificitySignals('The signup button should be 2x bigger'), 4);
+  assertEquals(countSpecificitySignals('Nice work, I liked it'), 0);
+});
+
+Deno.test('calculateFeedbackPoints scales helpful feedback from 10 to 50', () => {
+  assertEquals(calculateFeedbackPoints(0, true), 10);
+  assertEquals(calculateFeedbackPoints(50, true), 30);
+  assertEquals(calculateFeedbackPoints(100, true), 50);
+});
+
+Deno.test('calculateFeedbackPoints gives unhelpful feedback at most 5', () => {
+  assertEquals(calculateFeedbackPoints(0, false), 0);
+  assertEquals(calculateFeedbackPoints(50, false), 3);
+  assertEquals(calculateFeedbackPoints(100, false), 5);
+});
+
+Deno.test('calculateFeedbackPoints clamps scores outside 0-100', () => {
+  assertEquals(calculateFeedbackPoints(150, true), 50);
+  assertEquals(calculateFeedbackPoints(-10, true), 10);
+});
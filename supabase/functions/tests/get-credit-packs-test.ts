@@ -0,0 +1,52 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../get-credit-packs/handler.ts';
+import { createFakeStripe } from './helpers/fake-stripe.ts';
+import * as fixtures from './helpers/fixtures.ts';
+
+const request = () => new Request('http://localhost/get-credit-packs', { method: 'POST' });
+
+function seedPacks() {
+  const fake = createFakeStripe();
+
+  const small = fixtures.product({ name: '500 points', metadata: { credit_points: '500' } });
+  const large = fixtures.product({ name: '2000 points', metadata: { credit_points: '2000' } });
+  const retired = fixtures.product({ name: 'Old pack', active: false, metadata: { credit_points: '100' } });
+  const plan = fixtures.product({ name: 'Pro', metadata: { tier: 'pro' } });
+
+  fake.add(
+    small,
+    large,
+    retired,
+    plan,
+    fixtures.oneTimePrice(large.id, { unit_amount: 1500 }),
+    fixtures.oneTimePrice(small.id, { unit_amount: 500 }),
+    fixtures.oneTimePrice(retired.id),
+    // Subscriptions and one-time prices without points aren't packs
+    fixtures.recurringPrice(plan.id),
+    fixtures.oneTimePrice(plan.id),
+  );
+
+  return { fake, small, large };
+}
+
+Deno.test('get-credit-packs lists one-time prices that grant points, smallest first', async () => {
+  const { fake } = seedPacks();
+  const response = await createHandler({ stripe: fake.stripe })(request());
+  const packs = await response.json();
+
+  assertEquals(response.status, 200);
+  assertEquals(
+    packs.map((pack: { name: string; points: number; amount: number }) => [pack.name, pack.points, pack.amount]),
+    [['500 points', 500, 500], ['2000 points', 2000, 1500]],
+  );
+});
+
+Deno.test('get-credit-packs serves the packs from its cache', async () => {
+  const { fake } = seedPacks();
+  const handler = createHandler({ stripe: fake.stripe });
+
+  await handler(request());
+  await handler(request());
+
+  assertEquals(fake.requests.filter((r) => r.path === '/v1/prices').length, 1);
+});
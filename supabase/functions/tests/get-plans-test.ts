@@ -0,0 +1,76 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../get-plans/handler.ts';
+import { createFakeStripe } from './helpers/fake-stripe.ts';
+import * as fixtures from './helpers/fixtures.ts';
+
+const request = () => new Request('http://localhost/get-plans', { method: 'POST' });
+
+function seedCatalog() {
+  const fake = createFakeStripe();
+
+  const basic = fixtures.product({
+    name: 'Basic',
+    metadata: { tier: 'basic', sort_order: '1' },
+  });
+  const pro = fixtures.product({
+    name: 'Pro',
+    metadata: { tier: 'pro', sort_order: '2', features: 'Everything in Basic | Priority support', highlighted: 'true' },
+  });
+  const retired = fixtures.product({ name: 'Legacy', active: false });
+  const pack = fixtures.product({ name: '500 points', metadata: { credit_points: '500' } });
+
+  fake.add(
+    basic,
+    pro,
+    retired,
+    pack,
+    fixtures.recurringPrice(basic.id, { unit_amount: 500 }),
+    fixtures.recurringPrice(pro.id, { unit_amount: 1200, metadata: { trial_days: '14' } }),
+    // The cheaper of two monthly prices wins
+    fixtures.recurringPrice(pro.id, { unit_amount: 1500 }),
+    fixtures.recurringPrice(pro.id, {
+      unit_amount: 12000,
+      recurring: { interval: 'year', interval_count: 1 },
+    }),
+    // Quarterly billing isn't offered
+    fixtures.recurringPrice(pro.id, {
+      unit_amount: 3000,
+      recurring: { interval: 'month', interval_count: 3 },
+    }),
+    fixtures.recurringPrice(retired.id),
+    fixtures.oneTimePrice(pack.id),
+  );
+
+  return { fake, basic, pro };
+}
+
+Deno.test('get-plans groups monthly and yearly prices per product', async () => {
+  const { fake, basic, pro } = seedCatalog();
+  const response = await createHandler({ stripe: fake.stripe })(request());
+  const plans = await response.json();
+
+  assertEquals(response.status, 200);
+  assertEquals(plans.map((plan: { product_id: string }) => plan.product_id), [basic.id, pro.id]);
+
+  const [basicPlan, proPlan] = plans;
+  assertEquals(basicPlan.tier, 'basic');
+  assertEquals(basicPlan.monthly.amount, 500);
+  assertEquals(basicPlan.yearly, null);
+  assertEquals(basicPlan.features.length, 3);
+
+  assertEquals(proPlan.features, ['Everything in Basic', 'Priority support']);
+  assertEquals(proPlan.highlighted, true);
+  assertEquals(proPlan.monthly.amount, 1200);
+  assertEquals(proPlan.monthly.trial_days, 14);
+  assertEquals(proPlan.yearly.amount, 12000);
+});
+
+Deno.test('get-plans serves the catalog from its cache', async () => {
+  const { fake } = seedCatalog();
+  const handler = createHandler({ stripe: fake.stripe });
+
+  await handler(request());
+  await handler(request());
+
+  assertEquals(fake.requests.filter((r) => r.path === '/v1/prices').length, 1);
+});
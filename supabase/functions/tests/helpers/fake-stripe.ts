@@ -0,0 +1,262 @@
+import type Stripe from 'https://esm.sh/stripe@13.6.0?target=deno';
+import { createStripeClient } from '../../_shared/stripe.ts';
+
+// deno-lint-ignore no-explicit-any
+type StripeObject = Record<string, any>;
+
+export type FakeStripeRequest = {
+  method: string;
+  path: string;
+  params: StripeObject;
+};
+
+export type FakeStripe = {
+  /** A real Stripe client whose requests never leave the process */
+  stripe: Stripe;
+  /** Every request the client made, oldest first */
+  requests: FakeStripeRequest[];
+  /** Seeds (or replaces) objects by id */
+  add: (...objects: StripeObject[]) => void;
+  get: (id: string) => StripeObject | undefined;
+  /** Line items returned for a checkout session */
+  setLineItems: (sessionId: string, items: StripeObject[]) => void;
+};
+
+// Stripe sends params form-encoded with bracketed keys, e.g.
+// `line_items[0][price]=price_1` or `expand[0]=data.product`
+function parseParams(params: URLSearchParams): StripeObject {
+  const result: StripeObject = {};
+  for (const [key, value] of params) {
+    const path = key.replace(/\]/g, '').split('[');
+    let target = result;
+    path.forEach((part, i) => {
+      if (i === path.length - 1) {
+        target[part] = value;
+      } else {
+        target[part] ??= /^\d+$/.test(path[i + 1]) ? [] : {};
+        target = target[part];
+      }
+    });
+  }
+  return result;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Request-Id': 'req_fake' },
+  });
+
+const notFound = (message: string) =>
+  json({
+    error: { type: 'invalid_request_error', code: 'resource_missing', message },
+  }, 404);
+
+// A page of `data`, honouring `limit` and `starting_after` when given
+function list(data: StripeObject[], url: string, params: StripeObject = {}) {
+  const start = params.starting_after
+    ? data.findIndex((object) => object.id === params.starting_after) + 1
+    : 0;
+  const limit = params.limit ? Number(params.limit) : data.length;
+  const page = data.slice(start, start + limit);
+  return { object: 'list', data: page, has_more: start + limit < data.length, url };
+}
+
+/**
+ * An in-memory stand-in for the parts of the Stripe API the edge functions
+ * call. Objects are seeded with `add` and served back (with `expand`
+ * support); writes update them. Anything else answers 404 like Stripe does
+ * for an unknown URL, so a test fails loudly instead of reaching the network.
+ */
+export function createFakeStripe(): FakeStripe {
+  const objects = new Map<string, StripeObject>();
+  const lineItems = new Map<string, StripeObject[]>();
+  const requests: FakeStripeRequest[] = [];
+  let nextId = 1;
+
+  const clone = <T>(value: T): T => structuredClone(value);
+  const ofType = (type: string) =>
+    [...objects.values()].filter((object) => object.object === type).map(clone);
+
+  // Swaps ids for the objects they name along a dotted expand path
+  function expandPath(value: StripeObject | null, parts: string[]): StripeObject | null {
+    if (!parts.length || value == null) return value;
+    if (Array.isArray(value)) return value.map((item) => expandPath(item, parts));
+
+    const [head, ...rest] = parts;
+    let field = value[head];
+    if (typeof field === 'string' && objects.has(field)) {
+      field = clone(objects.get(field));
+    }
+    return { ...value, [head]: expandPath(field, rest) };
+  }
+
+  const expand = (value: StripeObject, params: StripeObject) =>
+    ((params.expand ?? []) as string[]).reduce(
+      (expanded, path) => expandPath(expanded, path.split('.'))!,
+      value,
+    );
+
+  const retrieve = (id: string, type: string, params: StripeObject) => {
+    const object = objects.get(id);
+    if (!object || object.object !== type) {
+      return notFound(`No such ${type.replace(/_/g, ' ')}: '${id}'`);
+    }
+    return json(expand(clone(object), params));
+  };
+
+  function createCheckoutSession(params: StripeObject): StripeObject {
+    const id = `cs_test_fake_${nextId++}`;
+    const items = (params.line_items ?? []).map((item: StripeObject, i: number) => {
+      const price = objects.get(item.price);
+      return {
+        id: `li_fake_${id}_${i}`,
+        object: 'item',
+        price: clone(price),
+        quantity: Number(item.quantity ?? 1),
+        amount_total: (price?.unit_amount ?? 0) * Number(item.quantity ?? 1),
+        currency: price?.currency ?? 'usd',
+        description: price?.nickname ?? null,
+      };
+    });
+    const session = {
+      id,
+      object: 'checkout.session',
+      url: `https://checkout.stripe.test/${id}`,
+      mode: params.mode,
+      status: 'open',
+      payment_status: 'unpaid',
+      customer: params.customer ?? null,
+      customer_email: params.customer_email ?? null,
+      metadata: params.metadata ?? {},
+      success_url: params.success_url,
+      cancel_url: params.cancel_url,
+      amount_total: items.reduce((sum: number, item: StripeObject) => sum + item.amount_total, 0),
+      currency: items[0]?.currency ?? 'usd',
+      subscription: null,
+      payment_intent: null,
+    };
+    objects.set(id, session);
+    lineItems.set(id, items);
+    return clone(session);
+  }
+
+  async function fakeFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const method = (init?.method ?? 'GET').toUpperCase();
+    const params = parseParams(
+      method === 'GET' || method === 'DELETE'
+        ? url.searchParams
+        : new URLSearchParams(typeof init?.body === 'string' ? init.body : ''),
+    );
+    const path = url.pathname;
+    requests.push({ method, path, params });
+
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && path === '/v1/prices') {
+      const prices = ofType('price').filter((price) =>
+        (params.active === undefined || String(price.active) === params.active) &&
+        (params.type === undefined || price.type === params.type)
+      );
+      return json(expand(list(prices, path, params), params));
+    }
+    if (method === 'GET' && (match = path.match(/^\/v1\/prices\/([^/]+)$/))) {
+      return retrieve(match[1], 'price', params);
+    }
+    if (method === 'GET' && (match = path.match(/^\/v1\/products\/([^/]+)$/))) {
+      return retrieve(match[1], 'product', params);
+    }
+    if (method === 'POST' && path === '/v1/customers') {
+      const customer = {
+        id: `cus_fake_${nextId++}`,
+        object: 'customer',
+        email: params.email ?? null,
+        metadata: params.metadata ?? {},
+      };
+      objects.set(customer.id, customer);
+      return json(clone(customer));
+    }
+    if (method === 'GET' && (match = path.match(/^\/v1\/customers\/([^/]+)$/))) {
+      return retrieve(match[1], 'customer', params);
+    }
+    if (method === 'GET' && (match = path.match(/^\/v1\/charges\/([^/]+)$/))) {
+      return retrieve(match[1], 'charge', params);
+    }
+    if (method === 'GET' && path === '/v1/subscriptions') {
+      // Like Stripe, canceled subscriptions are listed only for status=all
+      const subscriptions = ofType('subscription').filter((subscription) =>
+        params.status === 'all'
+          ? true
+          : params.status
+          ? subscription.status === params.status
+          : subscription.status !== 'canceled'
+      );
+      return json(expand(list(subscriptions, path, params), params));
+    }
+    if (method === 'GET' && (match = path.match(/^\/v1\/subscriptions\/([^/]+)$/))) {
+      return retrieve(match[1], 'subscription', params);
+    }
+    if (method === 'POST' && (match = path.match(/^\/v1\/subscriptions\/([^/]+)$/))) {
+      const subscription = objects.get(match[1]);
+      if (!subscription) return notFound(`No such subscription: '${match[1]}'`);
+      subscription.metadata = { ...subscription.metadata, ...params.metadata };
+      return json(clone(subscription));
+    }
+    if (method === 'DELETE' && (match = path.match(/^\/v1\/subscriptions\/([^/]+)$/))) {
+      const subscription = objects.get(match[1]);
+      if (!subscription) return notFound(`No such subscription: '${match[1]}'`);
+      subscription.status = 'canceled';
+      subscription.canceled_at = subscription.ended_at = Math.floor(Date.now() / 1000);
+      return json(clone(subscription));
+    }
+    if (method === 'POST' && path === '/v1/checkout/sessions') {
+      return json(createCheckoutSession(params));
+    }
+    if (method === 'GET' && (match = path.match(/^\/v1\/checkout\/sessions\/([^/]+)\/line_items$/))) {
+      return json(expand(list(clone(lineItems.get(match[1]) ?? []), path), params));
+    }
+    if (method === 'GET' && (match = path.match(/^\/v1\/checkout\/sessions\/([^/]+)$/))) {
+      const session = objects.get(match[1]);
+      if (!session) return notFound(`No such checkout.session: '${match[1]}'`);
+      const withItems = {
+        ...clone(session),
+        line_items: list(clone(lineItems.get(match[1]) ?? []), `${path}/line_items`),
+      };
+      return json(expand(withItems, params));
+    }
+    if (method === 'POST' && path === '/v1/billing_portal/sessions') {
+      const id = `bps_fake_${nextId++}`;
+      return json({
+        id,
+        object: 'billing_portal.session',
+        customer: params.customer,
+        return_url: params.return_url,
+        url: `https://billing.stripe.test/${id}`,
+      });
+    }
+    if (method === 'GET' && path === '/v1/promotion_codes') {
+      const codes = ofType('promotion_code').filter((code) =>
+        (params.code === undefined || code.code === params.code) &&
+        (params.active === undefined || String(code.active) === params.active)
+      );
+      return json(expand(list(codes, path, params), params));
+    }
+    if (method === 'GET' && path === '/v1/invoices') {
+      const invoices = ofType('invoice')
+        .filter((invoice) => !params.customer || invoice.customer === params.customer)
+        .sort((a, b) => b.created - a.created);
+      return json(expand(list(invoices, path, params), params));
+    }
+
+    return notFound(`Unrecognized request URL (${method}: ${path}) in the fake Stripe`);
+  }
+
+  return {
+    stripe: createStripeClient(fakeFetch, 'sk_test_fake'),
+    requests,
+    add: (...added) => added.forEach((object) => objects.set(object.id, clone(object))),
+    get: (id) => clone(objects.get(id)),
+    setLineItems: (sessionId, items) => lineItems.set(sessionId, clone(items)),
+  };
+}
@@ -0,0 +1,228 @@
+// Builders for the Stripe objects and webhook events the edge functions
+// handle. Each returns a plausible Stripe-shaped object with fixed defaults;
+// pass overrides for what a test cares about.
+
+// deno-lint-ignore no-explicit-any
+type StripeObject = Record<string, any>;
+
+export const WEBHOOK_SECRET = 'whsec_test_fake';
+
+let sequence = 0;
+export const fakeId = (prefix: string) =>
+  `${prefix}_test_${Date.now().toString(36)}${(++sequence).toString(36)}`;
+
+export const now = () => Math.floor(Date.now() / 1000);
+
+export const product = (overrides: StripeObject = {}): StripeObject => ({
+  id: fakeId('prod'),
+  object: 'product',
+  active: true,
+  name: 'Pro',
+  description: 'For teams collecting lots of feedback',
+  metadata: { tier: 'pro' },
+  ...overrides,
+});
+
+export const recurringPrice = (
+  productId: string,
+  overrides: StripeObject = {},
+): StripeObject => ({
+  id: fakeId('price'),
+  object: 'price',
+  active: true,
+  type: 'recurring',
+  product: productId,
+  currency: 'usd',
+  unit_amount: 1200,
+  nickname: null,
+  recurring: { interval: 'month', interval_count: 1 },
+  metadata: {},
+  ...overrides,
+});
+
+export const oneTimePrice = (
+  productId: string,
+  overrides: StripeObject = {},
+): StripeObject => ({
+  ...recurringPrice(productId),
+  type: 'one_time',
+  recurring: null,
+  unit_amount: 500,
+  ...overrides,
+});
+
+export const subscription = (
+  price: StripeObject,
+  overrides: StripeObject = {},
+): StripeObject => {
+  const start = now();
+  return {
+    id: fakeId('sub'),
+    object: 'subscription',
+    customer: fakeId('cus'),
+    status: 'active',
+    currency: price.currency,
+    start_date: start,
+    current_period_start: start,
+    current_period_end: start + 30 * 24 * 60 * 60,
+    cancel_at_period_end: false,
+    canceled_at: null,
+    ended_at: null,
+    trial_start: null,
+    trial_end: null,
+    metadata: {},
+    items: {
+      object: 'list',
+      data: [{
+        id: fakeId('si'),
+        object: 'subscription_item',
+        price,
+        plan: {
+          id: price.id,
+          object: 'plan',
+          amount: price.unit_amount,
+          currency: price.currency,
+          interval: price.recurring?.interval,
+        },
+        quantity: 1,
+      }],
+    },
+    ...overrides,
+  };
+};
+
+export const checkoutSession = (overrides: StripeObject = {}): StripeObject => ({
+  id: fakeId('cs'),
+  object: 'checkout.session',
+  mode: 'subscription',
+  status: 'complete',
+  payment_status: 'paid',
+  customer: fakeId('cus'),
+  subscription: null,
+  payment_intent: null,
+  amount_total: 1200,
+  currency: 'usd',
+  metadata: {},
+  ...overrides,
+});
+
+export const lineItem = (price: StripeObject, quantity = 1): StripeObject => ({
+  id: fakeId('li'),
+  object: 'item',
+  price,
+  quantity,
+  amount_total: (price.unit_amount ?? 0) * quantity,
+  currency: price.currency,
+  description: null,
+});
+
+export const invoice = (overrides: StripeObject = {}): StripeObject => ({
+  id: fakeId('in'),
+  object: 'invoice',
+  number: 'FAKE-0001',
+  customer: fakeId('cus'),
+  subscription: null,
+  charge: null,
+  status: 'open',
+  attempt_count: 1,
+  amount_due: 1200,
+  amount_paid: 0,
+  total: 1200,
+  currency: 'usd',
+  created: now(),
+  description: null,
+  hosted_invoice_url: 'https://invoice.stripe.test/i/fake',
+  invoice_pdf: 'https://invoice.stripe.test/i/fake/pdf',
+  next_payment_attempt: null,
+  last_finalization_error: null,
+  lines: { object: 'list', data: [] },
+  ...overrides,
+});
+
+export const charge = (overrides: StripeObject = {}): StripeObject => ({
+  id: fakeId('ch'),
+  object: 'charge',
+  amount: 1200,
+  currency: 'usd',
+  status: 'failed',
+  failure_code: 'card_declined',
+  failure_message: 'Your card was declined.',
+  ...overrides,
+});
+
+export const dispute = (
+  chargeId: string,
+  overrides: StripeObject = {},
+): StripeObject => ({
+  id: fakeId('dp'),
+  object: 'dispute',
+  amount: 1200,
+  currency: 'usd',
+  charge: chargeId,
+  payment_intent: null,
+  reason: 'fraudulent',
+  status: 'needs_response',
+  created: now(),
+  ...overrides,
+});
+
+export const event = (
+  type: string,
+  object: StripeObject,
+  overrides: StripeObject = {},
+): StripeObject => ({
+  id: fakeId('evt'),
+  object: 'event',
+  api_version: '2023-10-16',
+  created: now(),
+  livemode: false,
+  pending_webhooks: 1,
+  request: { id: null, idempotency_key: null },
+  type,
+  data: { object },
+  ...overrides,
+});
+
+const toHex = (bytes: ArrayBuffer) =>
+  [...new Uint8Array(bytes)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * A `Stripe-Signature` header for `payload`, computed the way Stripe signs
+ * webhooks (HMAC-SHA256 of "<timestamp>.<payload>").
+ */
+export async function signPayload(
+  payload: string,
+  secret = WEBHOOK_SECRET,
+  timestamp = now(),
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    encoder.encode(`${timestamp}.${payload}`),
+  );
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+/** A signed webhook delivery of `stripeEvent`, as Stripe would POST it. */
+export async function webhookRequest(
+  stripeEvent: StripeObject,
+  secret = WEBHOOK_SECRET,
+): Promise<Request> {
+  const payload = JSON.stringify(stripeEvent);
+  return new Request('http://localhost/payments-webhook', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': await signPayload(payload, secret),
+    },
+    body: payload,
+  });
+}
@@ -0,0 +1,67 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// The local stack from `supabase start` (see ../README.md). Tests that need
+// the database are skipped when these aren't set.
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+export const hasLocalDatabase = Boolean(supabaseUrl && serviceRoleKey);
+
+export const supabaseClient = createClient(
+  supabaseUrl || 'http://127.0.0.1:54321',
+  serviceRoleKey || 'missing-service-role-key',
+  { auth: { persistSession: false } },
+);
+
+/**
+ * Signs up a throwaway user and signs them in. The auth trigger creates
+ * their public.users row, which subscriptions and point transactions
+ * reference; `accessToken` is what the app sends as `Authorization`.
+ */
+export async function createTestUser(): Promise<{
+  id: string;
+  email: string;
+  accessToken: string;
+}> {
+  const email = `test-${crypto.randomUUID()}@example.test`;
+  const password = crypto.randomUUID();
+  const { data, error } = await supabaseClient.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+  });
+
+  if (error) throw error;
+
+  // Signing in on the shared client would swap its service role for the user
+  const { data: signIn, error: signInError } = await createClient(
+    supabaseUrl,
+    serviceRoleKey,
+    { auth: { persistSession: false } },
+  ).auth.signInWithPassword({ email, password });
+
+  if (signInError) throw signInError;
+  return { id: data.user.id, email, accessToken: signIn.session.access_token };
+}
+
+export async function findSubscription(stripeId: string) {
+  const { data, error } = await supabaseClient
+    .from('subscriptions')
+    .select('*')
+    .eq('stripe_id', stripeId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function findWebhookEvent(stripeEventId: string) {
+  const { data, error } = await supabaseClient
+    .from('webhook_events')
+    .select('*')
+    .eq('stripe_event_id', stripeEventId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,95 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../list-invoices/handler.ts';
+import { createFakeStripe } from './helpers/fake-stripe.ts';
+import * as fixtures from './helpers/fixtures.ts';
+import { createTestUser, hasLocalDatabase, supabaseClient } from './helpers/local-db.ts';
+
+// deno-lint-ignore no-explicit-any
+type StripeObject = Record<string, any>;
+
+// A user who paid through two Stripe customers: the one on their row and an
+// older one only linked in billing_customers
+async function setup() {
+  const fake = createFakeStripe();
+  const user = await createTestUser();
+  const current = fixtures.fakeId('cus');
+  const earlier = fixtures.fakeId('cus');
+
+  const { error: profileError } = await supabaseClient
+    .from('users')
+    .update({ stripe_customer_id: current })
+    .eq('user_id', user.id);
+  if (profileError) throw profileError;
+
+  const { error: linkError } = await supabaseClient.from('billing_customers').insert([
+    { stripe_customer_id: current, user_id: user.id, source: 'checkout' },
+    { stripe_customer_id: earlier, user_id: user.id, source: 'subscription' },
+  ]);
+  if (linkError) throw linkError;
+
+  const handler = createHandler({ stripe: fake.stripe, supabaseClient });
+  const list = async (body: StripeObject = {}, token = user.accessToken) => {
+    const response = await handler(new Request('http://localhost/list-invoices', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    }));
+    return { status: response.status, body: await response.json() };
+  };
+
+  return { fake, current, earlier, list };
+}
+
+const ids = (body: StripeObject) => body.invoices.map((invoice: StripeObject) => invoice.id);
+
+const dbTest = (name: string, fn: () => Promise<void>) =>
+  Deno.test({ name: `list-invoices ${name}`, ignore: !hasLocalDatabase, fn });
+
+dbTest('needs a signed-in user', async () => {
+  const { list } = await setup();
+  const { status } = await list({}, 'not-a-token');
+  assertEquals(status, 401);
+});
+
+dbTest('merges invoices from every customer of the user, newest first', async () => {
+  const { fake, current, earlier, list } = await setup();
+  const created = fixtures.now();
+  const newest = fixtures.invoice({ customer: current, created });
+  const middle = fixtures.invoice({ customer: earlier, created: created - 60 });
+  const oldest = fixtures.invoice({ customer: current, created: created - 120 });
+  const draft = fixtures.invoice({ customer: earlier, created: created - 30, status: 'draft' });
+  const someoneElse = fixtures.invoice({ created: created - 10 });
+  fake.add(newest, middle, oldest, draft, someoneElse);
+
+  const { status, body } = await list({ limit: 10 });
+
+  assertEquals(status, 200);
+  assertEquals(ids(body), [newest.id, middle.id, oldest.id]);
+  assertEquals(body.has_more, false);
+  assertEquals(body.next_cursor, null);
+});
+
+dbTest('pages through both customers without skipping or repeating', async () => {
+  const { fake, current, earlier, list } = await setup();
+  const created = fixtures.now();
+  const invoices = [current, earlier, earlier, current, earlier].map((customer, i) =>
+    fixtures.invoice({ customer, created: created - i * 60 })
+  );
+  fake.add(...invoices);
+
+  const seen: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const { body } = await list({ limit: 2, starting_after: cursor ?? undefined });
+    seen.push(...ids(body));
+    cursor = body.next_cursor;
+  } while (cursor);
+
+  assertEquals(seen, invoices.map((invoice) => invoice.id));
+});
+
+dbTest('rejects a cursor it did not issue', async () => {
+  const { list } = await setup();
+  const { status } = await list({ starting_after: 'in_not_a_cursor' });
+  assertEquals(status, 400);
+});
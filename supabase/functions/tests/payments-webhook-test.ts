@@ -0,0 +1,600 @@
+import {
+  assert,
+  assertEquals,
+  assertExists,
+} from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../payments-webhook/handler.ts';
+import { createFakeStripe } from './helpers/fake-stripe.ts';
+import * as fixtures from './helpers/fixtures.ts';
+import {
+  createTestUser,
+  findSubscription,
+  findWebhookEvent,
+  hasLocalDatabase,
+  supabaseClient,
+} from './helpers/local-db.ts';
+
+// deno-lint-ignore no-explicit-any
+type StripeObject = Record<string, any>;
+
+// A fresh fake Stripe seeded with a Pro and a Basic plan and a credit pack,
+// a user, and a way to deliver signed events to the webhook
+async function setup() {
+  const fake = createFakeStripe();
+  const pro = fixtures.product({ metadata: { tier: 'pro' } });
+  const proMonthly = fixtures.recurringPrice(pro.id);
+  const basic = fixtures.product({ name: 'Basic', metadata: { tier: 'basic' } });
+  const basicMonthly = fixtures.recurringPrice(basic.id, { unit_amount: 500 });
+  const packProduct = fixtures.product({ name: '250 points', metadata: { credit_points: '250' } });
+  const pack = fixtures.oneTimePrice(packProduct.id);
+  fake.add(pro, proMonthly, basic, basicMonthly, packProduct, pack);
+
+  const user = await createTestUser();
+  const handler = createHandler({
+    stripe: fake.stripe,
+    supabaseClient,
+    webhookSecret: fixtures.WEBHOOK_SECRET,
+  });
+
+  const deliver = async (stripeEvent: StripeObject, secret?: string) => {
+    const response = await handler(await fixtures.webhookRequest(stripeEvent, secret));
+    return { status: response.status, body: await response.json() };
+  };
+
+  // An active Pro subscription, stored through the created event
+  const subscribe = async (overrides: StripeObject = {}) => {
+    const subscription = fixtures.subscription(proMonthly, {
+      metadata: { user_id: user.id },
+      ...overrides,
+    });
+    fake.add(subscription);
+    const { status } = await deliver(
+      fixtures.event('customer.subscription.created', subscription),
+    );
+    assertEquals(status, 200);
+    return subscription;
+  };
+
+  const paidPackSession = (overrides: StripeObject = {}) => {
+    const session = fixtures.checkoutSession({
+      mode: 'payment',
+      amount_total: pack.unit_amount,
+      metadata: { user_id: user.id },
+      ...overrides,
+    });
+    fake.add(session);
+    fake.setLineItems(session.id, [fixtures.lineItem(pack)]);
+    return session;
+  };
+
+  return { fake, user, proMonthly, basicMonthly, deliver, subscribe, paidPackSession };
+}
+
+async function creditPurchases(sessionId: string) {
+  const { data, error } = await supabaseClient
+    .from('credit_purchases')
+    .select('*')
+    .eq('stripe_checkout_session_id', sessionId);
+
+  if (error) throw error;
+  return data;
+}
+
+async function pointBalance(userId: string) {
+  const { data, error } = await supabaseClient
+    .from('point_transactions')
+    .select('balance_after')
+    .eq('user_id', userId)
+    .order('id', { ascending: false })
+    .limit(1)
+    .single();
+
+  if (error) throw error;
+  return data.balance_after;
+}
+
+async function accountFlags(userId: string) {
+  const { data, error } = await supabaseClient
+    .from('account_flags')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return data;
+}
+
+const dbTest = (name: string, fn: () => Promise<void>) =>
+  Deno.test({ name: `payments-webhook ${name}`, ignore: !hasLocalDatabase, fn });
+
+dbTest('stores a new subscription with its plan entitlements', async () => {
+  const { user, proMonthly, subscribe } = await setup();
+  const subscription = await subscribe();
+
+  const row = await findSubscription(subscription.id);
+  assertExists(row);
+  assertEquals(row.user_id, user.id);
+  assertEquals(row.status, 'active');
+  assertEquals(row.price_id, proMonthly.id);
+  assertEquals(row.amount, proMonthly.unit_amount);
+  assertEquals(row.entitlements.tier, 'pro');
+
+  // Later events for this customer resolve the user without metadata
+  const { data: link } = await supabaseClient
+    .from('billing_customers')
+    .select('user_id')
+    .eq('stripe_customer_id', subscription.customer)
+    .single();
+  assertEquals(link?.user_id, user.id);
+});
+
+dbTest('resolves the user through billing_customers when metadata has none', async () => {
+  const { fake, user, proMonthly, deliver } = await setup();
+  const subscription = fixtures.subscription(proMonthly);
+  const { error } = await supabaseClient.from('billing_customers').insert({
+    stripe_customer_id: subscription.customer,
+    user_id: user.id,
+    source: 'checkout',
+  });
+  if (error) throw error;
+  fake.add(subscription);
+
+  const { status } = await deliver(
+    fixtures.event('customer.subscription.created', subscription),
+  );
+
+  assertEquals(status, 200);
+  assertEquals((await findSubscription(subscription.id)).user_id, user.id);
+});
+
+dbTest('keeps a subscription with an unknown customer until it is linked', async () => {
+  const { fake, user, proMonthly, deliver } = await setup();
+  const subscription = fixtures.subscription(proMonthly);
+  fake.add(subscription);
+
+  const { status } = await deliver(
+    fixtures.event('customer.subscription.created', subscription),
+  );
+
+  assertEquals(status, 200);
+  assertEquals((await findSubscription(subscription.id)).user_id, null);
+
+  const { error } = await supabaseClient.from('billing_customers').insert({
+    stripe_customer_id: subscription.customer,
+    user_id: user.id,
+    source: 'reconciliation',
+  });
+  if (error) throw error;
+  assertEquals((await findSubscription(subscription.id)).user_id, user.id);
+});
+
+dbTest('applies plan changes from customer.subscription.updated', async () => {
+  const { basicMonthly, deliver, subscribe } = await setup();
+  const subscription = await subscribe();
+
+  const updated = fixtures.subscription(basicMonthly, {
+    id: subscription.id,
+    customer: subscription.customer,
+    metadata: subscription.metadata,
+    cancel_at_period_end: true,
+  });
+  const { status } = await deliver(
+    fixtures.event('customer.subscription.updated', updated),
+  );
+
+  assertEquals(status, 200);
+  const row = await findSubscription(subscription.id);
+  assertEquals(row.price_id, basicMonthly.id);
+  assertEquals(row.amount, basicMonthly.unit_amount);
+  assertEquals(row.cancel_at_period_end, true);
+  assertEquals(row.entitlements.tier, 'basic');
+});
+
+dbTest('cancels on customer.subscription.deleted', async () => {
+  const { deliver, subscribe } = await setup();
+  const subscription = await subscribe();
+
+  const { status } = await deliver(fixtures.event(
+    'customer.subscription.deleted',
+    { ...subscription, status: 'canceled', ended_at: fixtures.now() },
+  ));
+
+  assertEquals(status, 200);
+  assertEquals((await findSubscription(subscription.id)).status, 'canceled');
+});
+
+dbTest('stores an update that arrives before the created event', async () => {
+  const { user, proMonthly, deliver } = await setup();
+  const subscription = fixtures.subscription(proMonthly, { metadata: { user_id: user.id } });
+  const createdAt = fixtures.now();
+
+  const updated = await deliver(fixtures.event(
+    'customer.subscription.updated',
+    { ...subscription, cancel_at_period_end: true },
+    { created: createdAt + 5 },
+  ));
+  assertEquals(updated.status, 200);
+
+  const created = fixtures.event(
+    'customer.subscription.created',
+    { ...subscription, status: 'incomplete' },
+    { created: createdAt },
+  );
+  const { body } = await deliver(created);
+
+  assertEquals(body.message, 'Ignored out-of-order event');
+  const row = await findSubscription(subscription.id);
+  assertEquals(row.user_id, user.id);
+  assertEquals(row.status, 'active');
+  assertEquals(row.cancel_at_period_end, true);
+});
+
+dbTest('cancels a second plan paid for alongside an active one', async () => {
+  const { fake, basicMonthly, deliver, subscribe } = await setup();
+  const first = await subscribe();
+  // Checked out in another tab before the first one was stored
+  const second = fixtures.subscription(basicMonthly, {
+    customer: first.customer,
+    metadata: first.metadata,
+  });
+  fake.add(second);
+
+  const { status } = await deliver(
+    fixtures.event('customer.subscription.created', second),
+  );
+
+  assertEquals(status, 200);
+  const cancel = fake.requests.find((r) =>
+    r.method === 'DELETE' && r.path === `/v1/subscriptions/${second.id}`
+  );
+  assertExists(cancel);
+  assertEquals(cancel.params.prorate, 'true');
+  assertEquals(cancel.params.invoice_now, 'true');
+  assertEquals((await findSubscription(second.id)).status, 'canceled');
+  assertEquals((await findSubscription(first.id)).status, 'active');
+});
+
+dbTest('links a subscription checkout to its session', async () => {
+  const { fake, user, deliver, subscribe } = await setup();
+  const subscription = await subscribe();
+  const session = fixtures.checkoutSession({
+    subscription: subscription.id,
+    metadata: { user_id: user.id },
+  });
+
+  const { status } = await deliver(fixtures.event('checkout.session.completed', session));
+
+  assertEquals(status, 200);
+  assertEquals(fake.get(subscription.id)!.metadata.checkoutSessionId, session.id);
+  const row = await findSubscription(subscription.id);
+  assertEquals(row.user_id, user.id);
+  assertEquals(row.metadata.checkoutSessionId, session.id);
+});
+
+dbTest('credits a paid credit pack checkout once', async () => {
+  const { user, deliver, paidPackSession } = await setup();
+  const session = paidPackSession();
+
+  const first = await deliver(fixtures.event('checkout.session.completed', session));
+  // A separate event for the same session must not credit it again
+  const second = await deliver(
+    fixtures.event('checkout.session.async_payment_succeeded', session),
+  );
+
+  assertEquals(first.status, 200);
+  assertEquals(second.status, 200);
+  const purchases = await creditPurchases(session.id);
+  assertEquals(purchases.length, 1);
+  assertEquals(purchases[0].user_id, user.id);
+  assertEquals(purchases[0].points, 250);
+});
+
+dbTest('waits for delayed payments before crediting a pack', async () => {
+  const { deliver, paidPackSession } = await setup();
+  const session = paidPackSession({ payment_status: 'unpaid' });
+
+  const completed = await deliver(fixtures.event('checkout.session.completed', session));
+  assertEquals(completed.body.message, 'Awaiting payment');
+  assertEquals((await creditPurchases(session.id)).length, 0);
+
+  const succeeded = await deliver(fixtures.event(
+    'checkout.session.async_payment_succeeded',
+    { ...session, payment_status: 'paid' },
+  ));
+  assertEquals(succeeded.status, 200);
+  assertEquals((await creditPurchases(session.id)).length, 1);
+});
+
+// A credited pack and the charge that paid for it
+async function buyPack(context: Awaited<ReturnType<typeof setup>>) {
+  const paymentIntent = fixtures.fakeId('pi');
+  const session = context.paidPackSession({ payment_intent: paymentIntent });
+  const { status } = await context.deliver(
+    fixtures.event('checkout.session.completed', session),
+  );
+  assertEquals(status, 200);
+
+  const charge = fixtures.charge({
+    amount: session.amount_total,
+    status: 'succeeded',
+    payment_intent: paymentIntent,
+    customer: session.customer,
+    metadata: { user_id: context.user.id },
+  });
+  context.fake.add(charge);
+  return charge;
+}
+
+dbTest('takes back the points of a refunded credit pack', async () => {
+  const context = await setup();
+  const { user, deliver } = context;
+  const charge = await buyPack(context);
+  const balance = await pointBalance(user.id);
+
+  // Half refunded, then the rest
+  const partial = await deliver(fixtures.event('charge.refunded', {
+    ...charge,
+    amount_refunded: charge.amount / 2,
+  }));
+  assertEquals(partial.status, 200);
+  assertEquals(partial.body.pointsClawedBack, 125);
+
+  const full = await deliver(fixtures.event('charge.refunded', {
+    ...charge,
+    amount_refunded: charge.amount,
+    refunded: true,
+  }));
+  assertEquals(full.body.pointsClawedBack, 125);
+  assertEquals(await pointBalance(user.id), balance - 250);
+
+  const flags = await accountFlags(user.id);
+  assertEquals(flags.length, 1);
+  assertEquals(flags[0].reason, 'refund');
+  assertEquals(flags[0].source_id, charge.id);
+});
+
+dbTest('claws back spent points even below zero', async () => {
+  const context = await setup();
+  const { user, deliver } = context;
+  const charge = await buyPack(context);
+  const { error } = await supabaseClient.rpc('award_points', {
+    p_user_id: user.id,
+    p_amount: -(await pointBalance(user.id)),
+    p_reason: 'adjustment',
+  });
+  if (error) throw error;
+
+  await deliver(fixtures.event('charge.refunded', { ...charge, amount_refunded: charge.amount }));
+
+  assertEquals(await pointBalance(user.id), -250);
+});
+
+dbTest('holds a disputed pack\'s points until the dispute is won', async () => {
+  const context = await setup();
+  const { user, deliver } = context;
+  const charge = await buyPack(context);
+  const balance = await pointBalance(user.id);
+  const dispute = fixtures.dispute(charge.id, {
+    amount: charge.amount,
+    payment_intent: charge.payment_intent,
+  });
+
+  const opened = await deliver(fixtures.event('charge.dispute.created', dispute));
+  assertEquals(opened.status, 200);
+  assertEquals(opened.body.pointsClawedBack, 250);
+  assertEquals(await pointBalance(user.id), balance - 250);
+  assertEquals((await accountFlags(user.id))[0].reason, 'dispute');
+
+  const closed = await deliver(
+    fixtures.event('charge.dispute.closed', { ...dispute, status: 'won' }),
+  );
+  assertEquals(closed.status, 200);
+  assertEquals(await pointBalance(user.id), balance);
+  assertExists((await accountFlags(user.id))[0].resolved_at);
+});
+
+dbTest('keeps the points and the flag when a dispute is lost', async () => {
+  const context = await setup();
+  const { user, deliver } = context;
+  const charge = await buyPack(context);
+  const balance = await pointBalance(user.id);
+  const dispute = fixtures.dispute(charge.id, { amount: charge.amount });
+
+  // Closed without the created event ever arriving
+  const { status } = await deliver(
+    fixtures.event('charge.dispute.closed', { ...dispute, status: 'lost' }),
+  );
+
+  assertEquals(status, 200);
+  assertEquals(await pointBalance(user.id), balance - 250);
+  const flags = await accountFlags(user.id);
+  assertEquals(flags.length, 1);
+  assertEquals(flags[0].resolved_at, null);
+});
+
+dbTest('notifies admins of a dispute', async () => {
+  const context = await setup();
+  const charge = await buyPack(context);
+  const admin = await createTestUser();
+  const { error } = await supabaseClient.from('admin_users').insert({ user_id: admin.id });
+  if (error) throw error;
+  const dispute = fixtures.dispute(charge.id, { amount: charge.amount });
+
+  await context.deliver(fixtures.event('charge.dispute.created', dispute));
+
+  const { data: notifications } = await supabaseClient
+    .from('notifications')
+    .select('kind, title')
+    .eq('user_id', admin.id);
+  assertEquals(notifications, [{ kind: 'dispute_opened', title: 'Payment disputed' }]);
+});
+
+dbTest('acknowledges invoice.payment_succeeded', async () => {
+  const { deliver, subscribe } = await setup();
+  const subscription = await subscribe();
+  const stripeEvent = fixtures.event('invoice.payment_succeeded', fixtures.invoice({
+    customer: subscription.customer,
+    subscription: subscription.id,
+    status: 'paid',
+    amount_paid: 1200,
+  }));
+
+  const { status } = await deliver(stripeEvent);
+
+  assertEquals(status, 200);
+  assertEquals((await findWebhookEvent(stripeEvent.id)).processing_status, 'succeeded');
+});
+
+dbTest('starts dunning on invoice.payment_failed', async () => {
+  const { fake, deliver, subscribe } = await setup();
+  const subscription = await subscribe();
+  const declined = fixtures.charge();
+  fake.add(declined);
+  const failedInvoice = fixtures.invoice({
+    customer: subscription.customer,
+    subscription: subscription.id,
+    charge: declined.id,
+    next_payment_attempt: fixtures.now() + 3 * 24 * 60 * 60,
+  });
+
+  const { status } = await deliver(fixtures.event('invoice.payment_failed', failedInvoice));
+
+  assertEquals(status, 200);
+  const row = await findSubscription(subscription.id);
+  assertEquals(row.status, 'past_due');
+  assertExists(row.past_due_since);
+
+  const { data: failures, error } = await supabaseClient
+    .from('payment_failures')
+    .select('*')
+    .eq('stripe_invoice_id', failedInvoice.id);
+  if (error) throw error;
+  assertEquals(failures.length, 1);
+  assertEquals(failures[0].failure_message, declined.failure_message);
+});
+
+dbTest('starts dunning when the past_due update arrives before the failed invoice', async () => {
+  const { fake, deliver, subscribe } = await setup();
+  const subscription = await subscribe();
+  const declined = fixtures.charge();
+  fake.add(declined);
+  const failedInvoice = fixtures.invoice({
+    customer: subscription.customer,
+    subscription: subscription.id,
+    charge: declined.id,
+  });
+  const failedAt = fixtures.now();
+
+  const updated = await deliver(fixtures.event(
+    'customer.subscription.updated',
+    { ...subscription, status: 'past_due' },
+    { created: failedAt + 1 },
+  ));
+  assertEquals(updated.status, 200);
+
+  const invoiceEvent = fixtures.event(
+    'invoice.payment_failed',
+    failedInvoice,
+    { created: failedAt },
+  );
+  const { status } = await deliver(invoiceEvent);
+
+  assertEquals(status, 200);
+  assertEquals((await findWebhookEvent(invoiceEvent.id)).skip_reason, null);
+  assertExists((await findSubscription(subscription.id)).past_due_since);
+
+  const { data: failures, error } = await supabaseClient
+    .from('payment_failures')
+    .select('id')
+    .eq('stripe_invoice_id', failedInvoice.id);
+  if (error) throw error;
+  assertEquals(failures.length, 1);
+});
+
+dbTest('keeps a late failed invoice on record without reopening dunning', async () => {
+  const { fake, deliver, subscribe } = await setup();
+  const subscription = await subscribe();
+  const declined = fixtures.charge();
+  fake.add(declined);
+  const failedInvoice = fixtures.invoice({
+    customer: subscription.customer,
+    subscription: subscription.id,
+    charge: declined.id,
+  });
+  const failedAt = fixtures.now();
+
+  // The retry succeeded and the subscription is active again
+  const recovered = await deliver(fixtures.event(
+    'customer.subscription.updated',
+    subscription,
+    { created: failedAt + 60 },
+  ));
+  assertEquals(recovered.status, 200);
+
+  const { status } = await deliver(fixtures.event(
+    'invoice.payment_failed',
+    failedInvoice,
+    { created: failedAt },
+  ));
+
+  assertEquals(status, 200);
+  const row = await findSubscription(subscription.id);
+  assertEquals(row.status, 'active');
+  assertEquals(row.past_due_since, null);
+
+  const { data: failures, error } = await supabaseClient
+    .from('payment_failures')
+    .select('id')
+    .eq('stripe_invoice_id', failedInvoice.id);
+  if (error) throw error;
+  assertEquals(failures.length, 1);
+});
+
+dbTest('acknowledges event types it does not handle', async () => {
+  const { deliver } = await setup();
+  const { status, body } = await deliver(
+    fixtures.event('customer.created', { id: fixtures.fakeId('cus'), object: 'customer' }),
+  );
+
+  assertEquals(status, 200);
+  assertEquals(body.message, 'Unhandled event type: customer.created');
+});
+
+dbTest('rejects events with a bad signature', async () => {
+  const { deliver } = await setup();
+  const stripeEvent = fixtures.event('customer.created', { id: fixtures.fakeId('cus') });
+
+  const { status, body } = await deliver(stripeEvent, 'whsec_someone_else');
+
+  assertEquals(status, 500);
+  assertEquals(body.error, 'Invalid signature');
+  assertEquals(await findWebhookEvent(stripeEvent.id), null);
+});
+
+dbTest('skips a redelivered event', async () => {
+  const { deliver, subscribe } = await setup();
+  const subscription = await subscribe();
+  const stripeEvent = fixtures.event('customer.subscription.deleted', subscription);
+
+  await deliver(stripeEvent);
+  const replay = await deliver(stripeEvent);
+
+  assertEquals(replay.status, 200);
+  assertEquals(replay.body.message, 'Event already processed');
+});
+
+dbTest('ignores an event older than the last one applied', async () => {
+  const { deliver, subscribe } = await setup();
+  const subscription = await subscribe();
+
+  const stale = fixtures.event(
+    'customer.subscription.updated',
+    { ...subscription, status: 'incomplete' },
+    { created: fixtures.now() - 60 * 60 },
+  );
+  const { status, body } = await deliver(stale);
+
+  assertEquals(status, 200);
+  assertEquals(body.message, 'Ignored out-of-order event');
+  assertEquals((await findSubscription(subscription.id)).status, 'active');
+  assert((await findWebhookEvent(stale.id)).skip_reason === 'out_of_order');
+});
@@ -0,0 +1,98 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../reconcile-billing-customers/handler.ts';
+import { createFakeStripe } from './helpers/fake-stripe.ts';
+import * as fixtures from './helpers/fixtures.ts';
+import {
+  createTestUser,
+  findSubscription,
+  hasLocalDatabase,
+  supabaseClient,
+} from './helpers/local-db.ts';
+
+// deno-lint-ignore no-explicit-any
+type StripeObject = Record<string, any>;
+
+const JOB_KEY = 'test-service-role-key';
+
+async function setup() {
+  const fake = createFakeStripe();
+  const pro = fixtures.product({ metadata: { tier: 'pro' } });
+  const proMonthly = fixtures.recurringPrice(pro.id);
+  fake.add(pro, proMonthly);
+
+  const user = await createTestUser();
+  const handler = createHandler({
+    stripe: fake.stripe,
+    supabaseClient,
+    serviceRoleKey: JOB_KEY,
+  });
+
+  const run = async (key = JOB_KEY) => {
+    const response = await handler(new Request('http://localhost/reconcile-billing-customers', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${key}` },
+    }));
+    return { status: response.status, body: await response.json() };
+  };
+
+  // A subscription the webhook stored before its customer was linked
+  const storeOrphan = async (customerMetadata: StripeObject, subscriptionMetadata: StripeObject = {}) => {
+    const customer = { id: fixtures.fakeId('cus'), object: 'customer', metadata: customerMetadata };
+    const subscription = fixtures.subscription(proMonthly, {
+      customer: customer.id,
+      metadata: subscriptionMetadata,
+    });
+    fake.add(customer, subscription);
+
+    const { error } = await supabaseClient.from('subscriptions').insert({
+      stripe_id: subscription.id,
+      user_id: null,
+      customer_id: customer.id,
+      status: subscription.status,
+    });
+    if (error) throw error;
+    return subscription;
+  };
+
+  return { user, run, storeOrphan };
+}
+
+const reconcileTest = (name: string, fn: () => Promise<void>) =>
+  Deno.test({ name: `reconcile-billing-customers ${name}`, ignore: !hasLocalDatabase, fn });
+
+reconcileTest('only runs for the service role', async () => {
+  const { run } = await setup();
+  const { status } = await run('someone-else');
+  assertEquals(status, 401);
+});
+
+reconcileTest('links an orphan to the user its Stripe customer names', async () => {
+  const { user, run, storeOrphan } = await setup();
+  const orphan = await storeOrphan({ user_id: user.id });
+
+  const { status, body } = await run();
+
+  assertEquals(status, 200);
+  assert(body.linked_customers.includes(orphan.customer));
+  assertEquals((await findSubscription(orphan.id)).user_id, user.id);
+});
+
+reconcileTest('falls back to the user on the subscription metadata', async () => {
+  const { user, run, storeOrphan } = await setup();
+  const orphan = await storeOrphan({}, { user_id: user.id });
+
+  const { body } = await run();
+
+  assert(body.linked_customers.includes(orphan.customer));
+  assertEquals((await findSubscription(orphan.id)).user_id, user.id);
+});
+
+reconcileTest('leaves orphans Stripe has no user for', async () => {
+  const { run, storeOrphan } = await setup();
+  const orphan = await storeOrphan({}, { user_id: 'no-such-user' });
+
+  const { body } = await run();
+
+  assert(body.unresolved_subscriptions.includes(orphan.id));
+  assertEquals((await findSubscription(orphan.id)).user_id, null);
+});
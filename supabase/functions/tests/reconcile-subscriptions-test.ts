@@ -0,0 +1,181 @@
+import {
+  assertEquals,
+  assertExists,
+} from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../reconcile-subscriptions/handler.ts';
+import { createFakeStripe } from './helpers/fake-stripe.ts';
+import * as fixtures from './helpers/fixtures.ts';
+import {
+  createTestUser,
+  findSubscription,
+  hasLocalDatabase,
+  supabaseClient,
+} from './helpers/local-db.ts';
+
+// deno-lint-ignore no-explicit-any
+type StripeObject = Record<string, any>;
+
+const JOB_KEY = 'test-service-role-key';
+
+async function setup() {
+  const fake = createFakeStripe();
+  const pro = fixtures.product({ metadata: { tier: 'pro' } });
+  const proMonthly = fixtures.recurringPrice(pro.id);
+  const basic = fixtures.product({ name: 'Basic', metadata: { tier: 'basic' } });
+  const basicMonthly = fixtures.recurringPrice(basic.id, { unit_amount: 500 });
+  fake.add(pro, proMonthly, basic, basicMonthly);
+
+  const user = await createTestUser();
+  const handler = createHandler({
+    stripe: fake.stripe,
+    supabaseClient,
+    serviceRoleKey: JOB_KEY,
+  });
+
+  const run = async (body: StripeObject = {}, key = JOB_KEY) => {
+    const response = await handler(new Request('http://localhost/reconcile-subscriptions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${key}` },
+      body: JSON.stringify(body),
+    }));
+    return { status: response.status, body: await response.json() };
+  };
+
+  // A local row matching `subscription` as the webhook would have stored it
+  const storeLocally = async (subscription: StripeObject, fields: StripeObject = {}) => {
+    const item = subscription.items.data[0];
+    const { error } = await supabaseClient.from('subscriptions').insert({
+      stripe_id: subscription.id,
+      user_id: user.id,
+      customer_id: subscription.customer,
+      status: subscription.status,
+      price_id: item.price.id,
+      stripe_price_id: item.price.id,
+      current_period_start: subscription.current_period_start,
+      current_period_end: subscription.current_period_end,
+      cancel_at_period_end: subscription.cancel_at_period_end,
+      canceled_at: subscription.canceled_at,
+      ended_at: subscription.ended_at,
+      trial_end: subscription.trial_end,
+      ...fields,
+    });
+    if (error) throw error;
+  };
+
+  return { fake, user, proMonthly, basicMonthly, run, storeLocally };
+}
+
+const driftFor = (body: StripeObject, stripeId: string) =>
+  body.drift.find((entry: StripeObject) => entry.stripe_subscription_id === stripeId);
+
+const reconcileTest = (name: string, fn: () => Promise<void>) =>
+  Deno.test({ name: `reconcile-subscriptions ${name}`, ignore: !hasLocalDatabase, fn });
+
+reconcileTest('only runs for the service role', async () => {
+  const { run } = await setup();
+  const { status } = await run({}, 'someone-else');
+  assertEquals(status, 401);
+});
+
+reconcileTest('repairs rows that drifted from Stripe', async () => {
+  const { fake, user, proMonthly, basicMonthly, run, storeLocally } = await setup();
+  const stale = fixtures.subscription(proMonthly, { metadata: { user_id: user.id } });
+  await storeLocally(stale);
+  // Missed webhooks: the customer switched to Basic and then canceled
+  const current = fixtures.subscription(basicMonthly, {
+    id: stale.id,
+    customer: stale.customer,
+    metadata: stale.metadata,
+    status: 'canceled',
+    canceled_at: fixtures.now(),
+    ended_at: fixtures.now(),
+  });
+  fake.add(current);
+  // Someone else's, since a user has only one live plan
+  const other = await createTestUser();
+  const untouched = fixtures.subscription(proMonthly, { metadata: { user_id: other.id } });
+  await storeLocally(untouched, { user_id: other.id });
+  fake.add(untouched);
+
+  const { status, body } = await run();
+
+  assertEquals(status, 200);
+  const entry = driftFor(body, stale.id);
+  assertEquals(entry.action, 'repaired');
+  assertEquals(entry.fields.status, { local: 'active', stripe: 'canceled' });
+  assertEquals(entry.fields.stripe_price_id.stripe, basicMonthly.id);
+  assertEquals(driftFor(body, untouched.id), undefined);
+
+  const row = await findSubscription(stale.id);
+  assertEquals(row.status, 'canceled');
+  assertEquals(row.price_id, basicMonthly.id);
+  assertEquals(row.amount, basicMonthly.unit_amount);
+  assertEquals(row.entitlements.tier, 'basic');
+  assertExists(row.canceled_at);
+
+  const { data: report } = await supabaseClient
+    .from('subscription_reconciliation_reports')
+    .select('*')
+    .eq('id', body.id)
+    .single();
+  assertEquals(report?.status, 'succeeded');
+  assertEquals(driftFor(report!, stale.id).action, 'repaired');
+});
+
+reconcileTest('stores subscriptions the webhook never saw', async () => {
+  const { fake, user, proMonthly, run } = await setup();
+  const unseen = fixtures.subscription(proMonthly, { metadata: { user_id: user.id } });
+  fake.add(unseen);
+
+  const { body } = await run();
+
+  assertEquals(driftFor(body, unseen.id).action, 'created');
+  const row = await findSubscription(unseen.id);
+  assertEquals(row.user_id, user.id);
+  assertEquals(row.status, 'active');
+  assertEquals(row.entitlements.tier, 'pro');
+});
+
+reconcileTest('reports without writing on a dry run', async () => {
+  const { fake, user, proMonthly, run, storeLocally } = await setup();
+  const subscription = fixtures.subscription(proMonthly, { metadata: { user_id: user.id } });
+  await storeLocally(subscription, { cancel_at_period_end: false });
+  fake.add({ ...subscription, cancel_at_period_end: true });
+
+  const { body } = await run({ dry_run: true });
+
+  assertEquals(body.dry_run, true);
+  assertEquals(driftFor(body, subscription.id).action, 'would_repair');
+  assertEquals(body.repaired_count, 0);
+  assertEquals((await findSubscription(subscription.id)).cancel_at_period_end, false);
+});
+
+reconcileTest('flags live local rows that Stripe does not have', async () => {
+  const { proMonthly, run, storeLocally } = await setup();
+  const phantom = fixtures.subscription(proMonthly);
+  await storeLocally(phantom);
+
+  const { body } = await run();
+
+  const entry = driftFor(body, phantom.id);
+  assertEquals(entry.action, 'missing_in_stripe');
+  // Reported only; nothing to repair it from
+  assertEquals((await findSubscription(phantom.id)).status, 'active');
+});
+
+reconcileTest('reports a second live plan for a user instead of failing', async () => {
+  const { fake, user, proMonthly, basicMonthly, run, storeLocally } = await setup();
+  const current = fixtures.subscription(proMonthly, { metadata: { user_id: user.id } });
+  await storeLocally(current);
+  fake.add(current);
+  const duplicate = fixtures.subscription(basicMonthly, { metadata: { user_id: user.id } });
+  fake.add(duplicate);
+
+  const { status, body } = await run();
+
+  assertEquals(status, 200);
+  assertEquals(driftFor(body, duplicate.id).action, 'duplicate_entitled');
+  assertEquals(body.created_count, 0);
+  assertEquals(await findSubscription(duplicate.id), null);
+  assertEquals((await findSubscription(current.id)).status, 'active');
+});
@@ -0,0 +1,111 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler as createWebhookHandler } from '../payments-webhook/handler.ts';
+import { createHandler } from '../replay-webhook-event/handler.ts';
+import { createFakeStripe } from './helpers/fake-stripe.ts';
+import * as fixtures from './helpers/fixtures.ts';
+import {
+  createTestUser,
+  findWebhookEvent,
+  hasLocalDatabase,
+  supabaseClient,
+} from './helpers/local-db.ts';
+
+// A credit pack checkout whose line items Stripe "lost", so the webhook
+// fails it, plus an admin and a plain user to replay it with
+async function setup() {
+  const fake = createFakeStripe();
+  const packProduct = fixtures.product({ name: '250 points', metadata: { credit_points: '250' } });
+  const pack = fixtures.oneTimePrice(packProduct.id);
+  fake.add(packProduct, pack);
+
+  const buyer = await createTestUser();
+  const admin = await createTestUser();
+  const { error } = await supabaseClient.from('admin_users').insert({ user_id: admin.id });
+  if (error) throw error;
+
+  const session = fixtures.checkoutSession({
+    mode: 'payment',
+    amount_total: pack.unit_amount,
+    metadata: { user_id: buyer.id },
+  });
+  fake.add(session);
+
+  const webhook = createWebhookHandler({
+    stripe: fake.stripe,
+    supabaseClient,
+    webhookSecret: fixtures.WEBHOOK_SECRET,
+  });
+  const stripeEvent = fixtures.event('checkout.session.completed', session);
+  const delivery = await webhook(await fixtures.webhookRequest(stripeEvent));
+  assertEquals(delivery.status, 400);
+
+  const failed = await findWebhookEvent(stripeEvent.id);
+  assertEquals(failed.processing_status, 'failed');
+
+  const handler = createHandler({ stripe: fake.stripe, supabaseClient });
+  const replay = async (accessToken: string, eventId = failed.id) => {
+    const response = await handler(new Request('http://localhost/replay-webhook-event', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ event_id: eventId }),
+    }));
+    return { status: response.status, body: await response.json() };
+  };
+
+  return { fake, pack, buyer, admin, session, failed, replay };
+}
+
+const dbTest = (name: string, fn: () => Promise<void>) =>
+  Deno.test({ name: `replay-webhook-event ${name}`, ignore: !hasLocalDatabase, fn });
+
+dbTest('re-runs a failed event through the webhook handlers', async () => {
+  const { fake, pack, admin, session, failed, replay } = await setup();
+  fake.setLineItems(session.id, [fixtures.lineItem(pack)]);
+
+  const { status, body } = await replay(admin.accessToken);
+
+  assertEquals(status, 200);
+  assertEquals(body.result.message, 'Credit pack fulfilled');
+  assertEquals(body.event.processing_status, 'succeeded');
+  assertEquals(body.event.attempts, failed.attempts + 1);
+  assertEquals(body.event.replay_count, 1);
+  assertEquals(body.event.last_replayed_by, admin.id);
+
+  const { data: purchases } = await supabaseClient
+    .from('credit_purchases')
+    .select('id')
+    .eq('stripe_checkout_session_id', session.id);
+  assertEquals(purchases?.length, 1);
+});
+
+dbTest('keeps the event failed when the replay fails again', async () => {
+  const { admin, replay } = await setup();
+
+  const { status, body } = await replay(admin.accessToken);
+
+  assertEquals(status, 200);
+  assertEquals(body.result.error, 'Unable to fulfil credit pack purchase');
+  assertEquals(body.event.processing_status, 'failed');
+});
+
+dbTest('only replays failed events', async () => {
+  const { fake, pack, admin, session, replay } = await setup();
+  fake.setLineItems(session.id, [fixtures.lineItem(pack)]);
+  await replay(admin.accessToken);
+
+  const { status, body } = await replay(admin.accessToken);
+
+  assertEquals(status, 409);
+  assertEquals(body.error, 'Only failed events can be replayed');
+});
+
+dbTest('rejects callers who are not admins', async () => {
+  const { buyer, replay } = await setup();
+
+  const { status } = await replay(buyer.accessToken);
+
+  assertEquals(status, 403);
+});
@@ -0,0 +1,47 @@
+import type Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import { validatePromotionCode } from '../_shared/promotions.ts';
+
+export type ValidatePromoCodeDeps = {
+  stripe: Stripe;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Checks a promotion code before checkout so PricingSection can show what it
+// gives. create-checkout validates it again against the chosen price.
+export function createHandler({ stripe }: ValidatePromoCodeDeps) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const { code, price_id } = await req.json();
+
+      if (!code) {
+        throw new Error('Missing required parameters');
+      }
+
+      const price = price_id ? await stripe.prices.retrieve(price_id) : undefined;
+      const check = await validatePromotionCode(stripe, code, price);
+
+      return jsonResponse(
+        check.valid
+          ? { valid: true, code: check.promotionCode.code, description: check.description }
+          : { valid: false, reason: check.reason },
+      );
+    } catch (error) {
+      console.error('Error validating promotion code:', error);
+      return jsonResponse({ error: error.message }, 400);
+    }
+  };
+}
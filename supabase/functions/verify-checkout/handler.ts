@@ -0,0 +1,131 @@
+import Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getCreditPoints } from '../_shared/plans.ts';
+
+export type VerifyCheckoutDeps = {
+  stripe: Stripe;
+  supabaseClient: SupabaseClient;
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Types (mirrored by CheckoutVerification in src/lib/billing.ts)
+type CheckoutVerification = {
+  session_id: string;
+  mode: 'subscription' | 'payment';
+  status: 'open' | 'complete' | 'expired' | null;
+  payment_status: 'paid' | 'unpaid' | 'no_payment_required';
+  fulfilled: boolean;
+  product_name: string | null;
+  amount_total: number | null;
+  currency: string | null;
+  interval: 'month' | 'year' | null;
+  trial_end: number | null;
+  credit_points: number | null;
+};
+
+// Reports what a checkout session bought and whether the payments webhook
+// has fulfilled it yet (written the subscription, or credited the pack).
+// The success page polls this until `fulfilled` is true. Sessions created
+// for another user are reported as not found.
+export function createHandler({ stripe, supabaseClient }: VerifyCheckoutDeps) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const { session_id } = await req.json();
+
+      if (!session_id || typeof session_id !== 'string') {
+        throw new Error('Missing required parameters');
+      }
+
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+      if (authError || !user) {
+        return jsonResponse({ error: 'Not authenticated' }, 401);
+      }
+
+      let session: Stripe.Checkout.Session;
+      try {
+        session = await stripe.checkout.sessions.retrieve(session_id, {
+          expand: ['line_items.data.price.product'],
+        });
+      } catch (error) {
+        if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+          return jsonResponse({ error: 'Checkout session not found' }, 404);
+        }
+        throw error;
+      }
+
+      if (session.metadata?.user_id !== user.id || session.mode === 'setup') {
+        return jsonResponse({ error: 'Checkout session not found' }, 404);
+      }
+
+      const price = session.line_items?.data[0]?.price ?? null;
+      const product = (price?.product as Stripe.Product | undefined) ?? null;
+
+      let fulfilled = false;
+      let trialEnd: number | null = null;
+
+      if (session.mode === 'subscription' && session.subscription) {
+        const subscriptionId = typeof session.subscription === 'string'
+          ? session.subscription
+          : session.subscription.id;
+
+        const { data: subscription, error: subscriptionError } = await supabaseClient
+          .from('subscriptions')
+          .select('trial_end')
+          .eq('stripe_id', subscriptionId)
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (subscriptionError) throw subscriptionError;
+
+        fulfilled = !!subscription;
+        trialEnd = subscription?.trial_end ?? null;
+      } else if (session.mode === 'payment') {
+        const { data: purchase, error: purchaseError } = await supabaseClient
+          .from('credit_purchases')
+          .select('id')
+          .eq('stripe_checkout_session_id', session.id)
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (purchaseError) throw purchaseError;
+
+        fulfilled = !!purchase;
+      }
+
+      const verification: CheckoutVerification = {
+        session_id: session.id,
+        mode: session.mode,
+        status: session.status,
+        payment_status: session.payment_status,
+        fulfilled,
+        product_name: product?.name ?? null,
+        amount_total: session.amount_total,
+        currency: session.currency,
+        interval: (price?.recurring?.interval as 'month' | 'year' | undefined) ?? null,
+        trial_end: trialEnd,
+        credit_points: price && product ? getCreditPoints(price, product) || null : null,
+      };
+
+      return jsonResponse(verification);
+    } catch (error) {
+      console.error('Error verifying checkout session:', error);
+      return jsonResponse({ error: error.message }, 400);
+    }
+  };
+}
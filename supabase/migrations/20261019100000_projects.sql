@@ -0,0 +1,62 @@
+-- Projects submitted by creators for review
+
+-- Keeps updated_at current on any table that opts in via trigger
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = timezone('utc'::text, now());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TABLE IF NOT EXISTS public.projects (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    title text NOT NULL,
+    url text,
+    description text,
+    category text NOT NULL,
+    stage text NOT NULL,
+    goals text,
+    visibility text NOT NULL DEFAULT 'public',
+    status text NOT NULL DEFAULT 'active',
+    archived_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT projects_category_check CHECK (category IN ('website', 'saas', 'mobile_app', 'ecommerce', 'marketplace', 'startup_idea', 'other')),
+    CONSTRAINT projects_stage_check CHECK (stage IN ('idea', 'prototype', 'mvp', 'launched', 'growth')),
+    CONSTRAINT projects_visibility_check CHECK (visibility IN ('public', 'unlisted', 'private')),
+    CONSTRAINT projects_status_check CHECK (status IN ('active', 'archived'))
+);
+
+CREATE INDEX IF NOT EXISTS projects_user_id_idx ON public.projects(user_id);
+CREATE INDEX IF NOT EXISTS projects_category_idx ON public.projects(category);
+CREATE INDEX IF NOT EXISTS projects_status_visibility_idx ON public.projects(status, visibility);
+
+DROP TRIGGER IF EXISTS projects_set_updated_at ON public.projects;
+CREATE TRIGGER projects_set_updated_at
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+-- Owners manage their own projects; projects are archived rather than deleted
+DROP POLICY IF EXISTS "Users can view own projects" ON public.projects;
+CREATE POLICY "Users can view own projects" ON public.projects
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Users can create own projects" ON public.projects;
+CREATE POLICY "Users can create own projects" ON public.projects
+  FOR INSERT WITH CHECK (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Users can update own projects" ON public.projects;
+CREATE POLICY "Users can update own projects" ON public.projects
+  FOR UPDATE USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+-- Signed-in reviewers can open active public and unlisted projects; only
+-- public ones are listed for discovery
+DROP POLICY IF EXISTS "Authenticated users can view shared projects" ON public.projects;
+CREATE POLICY "Authenticated users can view shared projects" ON public.projects
+  FOR SELECT TO authenticated
+  USING (visibility IN ('public', 'unlisted') AND status = 'active');
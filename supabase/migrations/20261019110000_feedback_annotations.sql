@@ -0,0 +1,95 @@
+-- Screenshot uploads and reviewer annotations pinned on top of them
+
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS screenshot_url text;
+
+-- Public bucket for project screenshots, one folder per uploading user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('project-screenshots', 'project-screenshots', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload own project screenshots" ON storage.objects;
+CREATE POLICY "Users can upload own project screenshots" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'project-screenshots'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can replace own project screenshots" ON storage.objects;
+CREATE POLICY "Users can replace own project screenshots" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (
+    bucket_id = 'project-screenshots'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Coordinates are fractions of the rendered image (0-1) so pins line up at
+-- any viewport size. Pins use x/y only; rectangles also set width/height.
+CREATE TABLE IF NOT EXISTS public.feedback_annotations (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    image_url text NOT NULL,
+    kind text NOT NULL,
+    number integer NOT NULL,
+    x numeric NOT NULL,
+    y numeric NOT NULL,
+    width numeric,
+    height numeric,
+    comment text NOT NULL DEFAULT '',
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT feedback_annotations_kind_check CHECK (kind IN ('pin', 'rect')),
+    CONSTRAINT feedback_annotations_position_check CHECK (x BETWEEN 0 AND 1 AND y BETWEEN 0 AND 1),
+    CONSTRAINT feedback_annotations_size_check CHECK (
+        (kind = 'pin' AND width IS NULL AND height IS NULL)
+        OR (kind = 'rect' AND width > 0 AND height > 0 AND x + width <= 1 AND y + height <= 1)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS feedback_annotations_project_id_idx ON public.feedback_annotations(project_id);
+CREATE INDEX IF NOT EXISTS feedback_annotations_user_id_idx ON public.feedback_annotations(user_id);
+
+DROP TRIGGER IF EXISTS feedback_annotations_set_updated_at ON public.feedback_annotations;
+CREATE TRIGGER feedback_annotations_set_updated_at
+  BEFORE UPDATE ON public.feedback_annotations
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.feedback_annotations ENABLE ROW LEVEL SECURITY;
+
+-- Reviewers manage their own annotations on projects shared with them
+DROP POLICY IF EXISTS "Reviewers can view own annotations" ON public.feedback_annotations;
+CREATE POLICY "Reviewers can view own annotations" ON public.feedback_annotations
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Reviewers can create annotations" ON public.feedback_annotations;
+CREATE POLICY "Reviewers can create annotations" ON public.feedback_annotations
+  FOR INSERT WITH CHECK (
+    auth.uid()::text = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id = project_id
+        AND p.status = 'active'
+        AND p.visibility IN ('public', 'unlisted')
+        AND p.user_id <> auth.uid()::text
+    )
+  );
+
+DROP POLICY IF EXISTS "Reviewers can update own annotations" ON public.feedback_annotations;
+CREATE POLICY "Reviewers can update own annotations" ON public.feedback_annotations
+  FOR UPDATE USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Reviewers can delete own annotations" ON public.feedback_annotations;
+CREATE POLICY "Reviewers can delete own annotations" ON public.feedback_annotations
+  FOR DELETE USING (auth.uid()::text = user_id);
+
+-- Creators see every annotation left on their projects
+DROP POLICY IF EXISTS "Creators can view annotations on own projects" ON public.feedback_annotations;
+CREATE POLICY "Creators can view annotations on own projects" ON public.feedback_annotations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id = project_id AND p.user_id = auth.uid()::text
+    )
+  );
@@ -0,0 +1,166 @@
+-- Structured feedback: per-project rubric, one submission per reviewer with a
+-- score and comment per rubric dimension
+
+-- Each dimension is {"key": "...", "label": "..."}; keys are what scores refer to
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS rubric_dimensions jsonb NOT NULL DEFAULT '[
+  {"key": "ux", "label": "User experience"},
+  {"key": "value_proposition", "label": "Value proposition"},
+  {"key": "pricing", "label": "Pricing"},
+  {"key": "copy", "label": "Copy"}
+]'::jsonb;
+
+CREATE TABLE IF NOT EXISTS public.feedback (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    pros text NOT NULL,
+    cons text NOT NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT feedback_project_user_key UNIQUE (project_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS feedback_project_id_idx ON public.feedback(project_id);
+CREATE INDEX IF NOT EXISTS feedback_user_id_idx ON public.feedback(user_id);
+
+DROP TRIGGER IF EXISTS feedback_set_updated_at ON public.feedback;
+CREATE TRIGGER feedback_set_updated_at
+  BEFORE UPDATE ON public.feedback
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- One row per rubric dimension; the label is copied so renaming a dimension
+-- later doesn't rewrite past feedback
+CREATE TABLE IF NOT EXISTS public.feedback_scores (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    feedback_id uuid NOT NULL REFERENCES public.feedback(id) ON DELETE CASCADE,
+    dimension_key text NOT NULL,
+    dimension_label text NOT NULL,
+    score smallint NOT NULL,
+    comment text NOT NULL DEFAULT '',
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT feedback_scores_score_check CHECK (score BETWEEN 1 AND 5),
+    CONSTRAINT feedback_scores_feedback_dimension_key UNIQUE (feedback_id, dimension_key)
+);
+
+CREATE INDEX IF NOT EXISTS feedback_scores_feedback_id_idx ON public.feedback_scores(feedback_id);
+
+ALTER TABLE public.feedback_annotations
+  ADD COLUMN IF NOT EXISTS feedback_id uuid REFERENCES public.feedback(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS feedback_annotations_feedback_id_idx ON public.feedback_annotations(feedback_id);
+
+ALTER TABLE public.feedback ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.feedback_scores ENABLE ROW LEVEL SECURITY;
+
+-- Feedback is written only through submit_feedback; reviewers and the project
+-- owner can read it
+DROP POLICY IF EXISTS "Reviewers can view own feedback" ON public.feedback;
+CREATE POLICY "Reviewers can view own feedback" ON public.feedback
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Creators can view feedback on own projects" ON public.feedback;
+CREATE POLICY "Creators can view feedback on own projects" ON public.feedback
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.projects p
+      WHERE p.id = project_id AND p.user_id = auth.uid()::text
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view scores on visible feedback" ON public.feedback_scores;
+CREATE POLICY "Users can view scores on visible feedback" ON public.feedback_scores
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.feedback f WHERE f.id = feedback_id)
+  );
+
+-- Average score per rubric dimension, evaluated with the caller's RLS so
+-- creators only see their own projects
+CREATE OR REPLACE VIEW public.project_dimension_scores
+WITH (security_invoker = true) AS
+SELECT
+    f.project_id,
+    s.dimension_key,
+    max(s.dimension_label) AS dimension_label,
+    round(avg(s.score), 2) AS average_score,
+    count(*) AS review_count
+FROM public.feedback_scores s
+JOIN public.feedback f ON f.id = s.feedback_id
+GROUP BY f.project_id, s.dimension_key;
+
+-- Records a reviewer's feedback in one transaction. p_scores is an array of
+-- {"key", "score", "comment"} covering every rubric dimension of the project;
+-- p_annotation_ids are the reviewer's annotations to attach to it.
+CREATE OR REPLACE FUNCTION public.submit_feedback(
+    p_project_id uuid,
+    p_pros text,
+    p_cons text,
+    p_scores jsonb,
+    p_annotation_ids uuid[] DEFAULT '{}'
+)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id text := auth.uid()::text;
+  v_project public.projects%ROWTYPE;
+  v_feedback_id uuid;
+  v_dimension jsonb;
+  v_score jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_project FROM public.projects WHERE id = p_project_id;
+
+  IF NOT FOUND
+     OR v_project.status <> 'active'
+     OR v_project.visibility NOT IN ('public', 'unlisted') THEN
+    RAISE EXCEPTION 'Project is not open for feedback';
+  END IF;
+
+  IF v_project.user_id = v_user_id THEN
+    RAISE EXCEPTION 'You cannot review your own project';
+  END IF;
+
+  IF coalesce(trim(p_pros), '') = '' OR coalesce(trim(p_cons), '') = '' THEN
+    RAISE EXCEPTION 'Pros and cons are required';
+  END IF;
+
+  INSERT INTO public.feedback (project_id, user_id, pros, cons)
+  VALUES (p_project_id, v_user_id, trim(p_pros), trim(p_cons))
+  RETURNING id INTO v_feedback_id;
+
+  FOR v_dimension IN SELECT * FROM jsonb_array_elements(v_project.rubric_dimensions)
+  LOOP
+    SELECT value INTO v_score
+    FROM jsonb_array_elements(p_scores)
+    WHERE value->>'key' = v_dimension->>'key'
+    LIMIT 1;
+
+    IF v_score IS NULL THEN
+      RAISE EXCEPTION 'Missing score for %', v_dimension->>'label';
+    END IF;
+
+    INSERT INTO public.feedback_scores (feedback_id, dimension_key, dimension_label, score, comment)
+    VALUES (
+      v_feedback_id,
+      v_dimension->>'key',
+      v_dimension->>'label',
+      (v_score->>'score')::smallint,
+      coalesce(trim(v_score->>'comment'), '')
+    );
+
+    v_score := NULL;
+  END LOOP;
+
+  UPDATE public.feedback_annotations
+  SET feedback_id = v_feedback_id
+  WHERE id = ANY(p_annotation_ids)
+    AND user_id = v_user_id
+    AND project_id = p_project_id;
+
+  RETURN v_feedback_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.submit_feedback(uuid, text, text, jsonb, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_feedback(uuid, text, text, jsonb, uuid[]) TO authenticated;
@@ -0,0 +1,131 @@
+-- Append-only points ledger. Every award or spend is a row; a user's balance
+-- is the balance_after of their latest row and is never stored elsewhere.
+
+CREATE TABLE IF NOT EXISTS public.point_transactions (
+    id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    amount integer NOT NULL,
+    balance_after integer NOT NULL,
+    reason text NOT NULL,
+    description text,
+    source_type text,
+    source_id text,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, clock_timestamp()) NOT NULL,
+    CONSTRAINT point_transactions_amount_check CHECK (amount <> 0)
+);
+
+CREATE INDEX IF NOT EXISTS point_transactions_user_id_idx ON public.point_transactions(user_id, id DESC);
+
+-- A given source can only trigger a given reason once, which makes awards
+-- safe to retry
+CREATE UNIQUE INDEX IF NOT EXISTS point_transactions_source_key
+  ON public.point_transactions(reason, source_type, source_id)
+  WHERE source_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.prevent_point_transaction_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'point_transactions is append-only; record a correcting entry instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS point_transactions_append_only ON public.point_transactions;
+CREATE TRIGGER point_transactions_append_only
+  BEFORE UPDATE OR DELETE ON public.point_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_point_transaction_changes();
+
+ALTER TABLE public.point_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; all writes go through award_points
+DROP POLICY IF EXISTS "Users can view own point transactions" ON public.point_transactions;
+CREATE POLICY "Users can view own point transactions" ON public.point_transactions
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+-- Appends a ledger entry and returns it. Entries for the same user are
+-- serialized on the users row so balance_after is always consistent. If the
+-- (reason, source) pair was already recorded, the existing entry is returned
+-- unchanged. Debits that would take the balance below zero are rejected
+-- unless p_allow_negative is set (e.g. clawing back already-spent points).
+CREATE OR REPLACE FUNCTION public.award_points(
+    p_user_id text,
+    p_amount integer,
+    p_reason text,
+    p_source_type text DEFAULT NULL,
+    p_source_id text DEFAULT NULL,
+    p_description text DEFAULT NULL,
+    p_allow_negative boolean DEFAULT false
+)
+RETURNS public.point_transactions AS $$
+DECLARE
+  v_balance integer;
+  v_entry public.point_transactions%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM public.users WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown user %', p_user_id;
+  END IF;
+
+  IF p_source_id IS NOT NULL THEN
+    SELECT * INTO v_entry
+    FROM public.point_transactions
+    WHERE reason = p_reason
+      AND source_type IS NOT DISTINCT FROM p_source_type
+      AND source_id = p_source_id;
+
+    IF FOUND THEN
+      RETURN v_entry;
+    END IF;
+  END IF;
+
+  SELECT coalesce(
+    (SELECT balance_after FROM public.point_transactions
+     WHERE user_id = p_user_id ORDER BY id DESC LIMIT 1),
+    0
+  ) INTO v_balance;
+
+  IF v_balance + p_amount < 0 AND NOT p_allow_negative THEN
+    RAISE EXCEPTION 'Insufficient points: balance is %, needs %', v_balance, -p_amount
+      USING ERRCODE = 'P0001', HINT = 'insufficient_points';
+  END IF;
+
+  INSERT INTO public.point_transactions (
+    user_id, amount, balance_after, reason, description, source_type, source_id
+  ) VALUES (
+    p_user_id, p_amount, v_balance + p_amount, p_reason, p_description, p_source_type, p_source_id
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.award_points(text, integer, text, text, text, text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.award_points(text, integer, text, text, text, text, boolean) TO service_role;
+
+-- The caller's current balance
+CREATE OR REPLACE FUNCTION public.get_point_balance()
+RETURNS integer AS $$
+  SELECT coalesce(
+    (SELECT balance_after FROM public.point_transactions
+     WHERE user_id = auth.uid()::text ORDER BY id DESC LIMIT 1),
+    0
+  );
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.get_point_balance() TO authenticated;
+
+-- Starting points for every new account
+CREATE OR REPLACE FUNCTION public.award_signup_bonus()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.award_points(NEW.user_id, 100, 'signup_bonus', 'user', NEW.user_id, 'Welcome bonus');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_user_created_award_signup_bonus ON public.users;
+CREATE TRIGGER on_user_created_award_signup_bonus
+  AFTER INSERT ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.award_signup_bonus();
+
+COMMENT ON COLUMN public.users.credits IS 'Unused. Point balances come from public.point_transactions via get_point_balance().';
@@ -0,0 +1,18 @@
+-- Creator ratings and quality scores on feedback. Written only by the
+-- rate-feedback edge function, which also awards the reviewer's points.
+
+ALTER TABLE public.feedback ADD COLUMN IF NOT EXISTS helpful boolean;
+ALTER TABLE public.feedback ADD COLUMN IF NOT EXISTS quality_score smallint;
+ALTER TABLE public.feedback ADD COLUMN IF NOT EXISTS points_awarded integer;
+ALTER TABLE public.feedback ADD COLUMN IF NOT EXISTS rated_at timestamp with time zone;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'feedback_quality_score_check'
+    ) THEN
+        ALTER TABLE public.feedback
+          ADD CONSTRAINT feedback_quality_score_check CHECK (quality_score BETWEEN 0 AND 100);
+    END IF;
+END
+$$;
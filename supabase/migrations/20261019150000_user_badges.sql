@@ -0,0 +1,52 @@
+-- Badges unlocked by users. The catalog and rules live in
+-- supabase/functions/_shared/rules/badges.ts; this table only records which
+-- badge each user has earned and when.
+
+CREATE TABLE IF NOT EXISTS public.user_badges (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    badge_id text NOT NULL,
+    awarded_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT user_badges_user_badge_key UNIQUE (user_id, badge_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_badges_user_id_idx ON public.user_badges(user_id);
+
+ALTER TABLE public.user_badges ENABLE ROW LEVEL SECURITY;
+
+-- Written only by edge functions using the service role
+DROP POLICY IF EXISTS "Users can view own badges" ON public.user_badges;
+CREATE POLICY "Users can view own badges" ON public.user_badges
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+-- Activity counters the badge rules are evaluated against. Keys match
+-- BadgeMetric in supabase/functions/_shared/rules/badges.ts.
+CREATE OR REPLACE FUNCTION public.get_badge_stats(p_user_id text)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'feedbackGiven',
+      (SELECT count(*) FROM public.feedback WHERE user_id = p_user_id),
+    'helpfulFeedback',
+      (SELECT count(*) FROM public.feedback WHERE user_id = p_user_id AND helpful),
+    'highQualityFeedback',
+      (SELECT count(*) FROM public.feedback WHERE user_id = p_user_id AND quality_score >= 80),
+    'categoriesReviewed',
+      (SELECT count(DISTINCT p.category)
+       FROM public.feedback f
+       JOIN public.projects p ON p.id = f.project_id
+       WHERE f.user_id = p_user_id),
+    'annotationsPlaced',
+      (SELECT count(*) FROM public.feedback_annotations
+       WHERE user_id = p_user_id AND feedback_id IS NOT NULL),
+    'projectsShared',
+      (SELECT count(*) FROM public.projects WHERE user_id = p_user_id),
+    'ratingsGiven',
+      (SELECT count(*)
+       FROM public.feedback f
+       JOIN public.projects p ON p.id = f.project_id
+       WHERE p.user_id = p_user_id AND f.rated_at IS NOT NULL)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_badge_stats(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_badge_stats(text) TO service_role;
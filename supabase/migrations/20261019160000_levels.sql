@@ -0,0 +1,42 @@
+-- Reviewer levels. XP is derived from points earned and badges unlocked
+-- (see calculateXp in src/lib/levels.ts); this table defines the curve.
+
+CREATE TABLE IF NOT EXISTS public.levels (
+    level integer PRIMARY KEY CHECK (level >= 1),
+    name text NOT NULL,
+    xp_required integer NOT NULL UNIQUE CHECK (xp_required >= 0),
+    perks text[] DEFAULT '{}'::text[] NOT NULL
+);
+
+ALTER TABLE public.levels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Levels are viewable by everyone" ON public.levels;
+CREATE POLICY "Levels are viewable by everyone" ON public.levels
+  FOR SELECT USING (true);
+
+INSERT INTO public.levels (level, name, xp_required, perks) VALUES
+  (1, 'Newcomer', 0, ARRAY['Review public projects']),
+  (2, 'Observer', 250, ARRAY['Level badge on your reviews']),
+  (3, 'Contributor', 600, ARRAY['Suggest custom rubric dimensions']),
+  (4, 'Critic', 1200, ARRAY['Early access to newly shared projects']),
+  (5, 'Analyst', 2000, ARRAY['Highlighted reviews on project pages']),
+  (6, 'Expert', 3500, ARRAY['Expert flair on your profile']),
+  (7, 'Mentor', 5500, ARRAY['Invite creators to request your review']),
+  (8, 'Luminary', 8000, ARRAY['Featured on the community page'])
+ON CONFLICT (level) DO UPDATE
+  SET name = EXCLUDED.name,
+      xp_required = EXCLUDED.xp_required,
+      perks = EXCLUDED.perks;
+
+-- Raw XP inputs for the signed-in user: points credited to them (spending
+-- doesn't reduce XP) and the number of badges they've unlocked.
+CREATE OR REPLACE FUNCTION public.get_xp_sources()
+RETURNS TABLE (points_earned bigint, badge_count bigint) AS $$
+  SELECT
+    (SELECT COALESCE(sum(amount), 0) FROM public.point_transactions
+     WHERE user_id = auth.uid()::text AND amount > 0),
+    (SELECT count(*) FROM public.user_badges
+     WHERE user_id = auth.uid()::text);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_xp_sources() TO authenticated;
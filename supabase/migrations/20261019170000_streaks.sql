@@ -0,0 +1,64 @@
+-- Daily feedback streaks. Days are counted in the user's own timezone; the
+-- streak rules (grace days, freezes, milestones) live in
+-- supabase/functions/_shared/rules/streaks.ts and are applied by the
+-- record-feedback-activity edge function.
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS timezone text;
+
+CREATE TABLE IF NOT EXISTS public.user_streaks (
+    user_id text PRIMARY KEY REFERENCES public.users(user_id),
+    current_streak integer DEFAULT 0 NOT NULL CHECK (current_streak >= 0),
+    longest_streak integer DEFAULT 0 NOT NULL CHECK (longest_streak >= 0),
+    last_active_date date,
+    streak_started_on date,
+    freezes_available integer DEFAULT 0 NOT NULL CHECK (freezes_available >= 0),
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- One row per local calendar day that counted towards a streak, either by
+-- activity or by spending a freeze. Drives the dashboard heatmap.
+CREATE TABLE IF NOT EXISTS public.streak_days (
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    day date NOT NULL,
+    kind text DEFAULT 'active' NOT NULL CHECK (kind IN ('active', 'frozen')),
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (user_id, day)
+);
+
+DROP TRIGGER IF EXISTS user_streaks_set_updated_at ON public.user_streaks;
+CREATE TRIGGER user_streaks_set_updated_at
+  BEFORE UPDATE ON public.user_streaks
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.user_streaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.streak_days ENABLE ROW LEVEL SECURITY;
+
+-- Both tables are written only by edge functions using the service role
+DROP POLICY IF EXISTS "Users can view own streak" ON public.user_streaks;
+CREATE POLICY "Users can view own streak" ON public.user_streaks
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Users can view own streak days" ON public.streak_days;
+CREATE POLICY "Users can view own streak days" ON public.streak_days
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+-- users has no UPDATE policy, so the timezone is set through this function,
+-- which only accepts names Postgres itself recognises.
+CREATE OR REPLACE FUNCTION public.set_user_timezone(p_timezone text)
+RETURNS text AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', p_timezone;
+  END IF;
+
+  UPDATE public.users
+  SET timezone = p_timezone,
+      updated_at = timezone('utc'::text, now())
+  WHERE user_id = auth.uid()::text;
+
+  RETURN p_timezone;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.set_user_timezone(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_user_timezone(text) TO authenticated;
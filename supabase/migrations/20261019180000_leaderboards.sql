@@ -0,0 +1,111 @@
+-- Leaderboards over points users earn by reviewing. Only earning reasons are
+-- counted, so welcome bonuses, refunds and purchases never move rankings.
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS show_on_leaderboard boolean DEFAULT true NOT NULL;
+
+-- Every leaderboard-eligible credit, tagged with the category of the project
+-- it was earned on (null for points not tied to a project, e.g. streaks).
+-- Reads the full ledger, so it's only reachable through get_leaderboard().
+CREATE OR REPLACE VIEW public.leaderboard_points AS
+SELECT
+  pt.user_id,
+  pt.amount,
+  pt.created_at AS earned_at,
+  p.category
+FROM public.point_transactions pt
+LEFT JOIN public.feedback f
+  ON pt.source_type = 'feedback' AND f.id::text = pt.source_id
+LEFT JOIN public.projects p ON p.id = f.project_id
+WHERE pt.amount > 0
+  AND pt.reason IN ('feedback_rated', 'streak_milestone');
+
+REVOKE ALL ON public.leaderboard_points FROM PUBLIC, anon, authenticated;
+
+-- Top p_limit users for a window ('week', 'month' or 'all', calendar-aligned
+-- in UTC) and optional project category, plus the signed-in viewer's own row
+-- when they're outside the top. Users who opted out are left out of the
+-- ranking; an opted-out viewer gets their row back with a null rank.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+  p_window text DEFAULT 'week',
+  p_category text DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  rank bigint,
+  user_id text,
+  display_name text,
+  avatar_url text,
+  points bigint,
+  is_viewer boolean
+) AS $$
+DECLARE
+  v_since timestamp with time zone;
+BEGIN
+  IF p_window NOT IN ('week', 'month', 'all') THEN
+    RAISE EXCEPTION 'Unknown leaderboard window: %', p_window;
+  END IF;
+
+  v_since := CASE p_window
+    WHEN 'week' THEN date_trunc('week', timezone('utc'::text, now())) AT TIME ZONE 'utc'
+    WHEN 'month' THEN date_trunc('month', timezone('utc'::text, now())) AT TIME ZONE 'utc'
+    ELSE NULL
+  END;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT lp.user_id, sum(lp.amount)::bigint AS points
+    FROM public.leaderboard_points lp
+    WHERE (v_since IS NULL OR lp.earned_at >= v_since)
+      AND (p_category IS NULL OR lp.category = p_category)
+    GROUP BY lp.user_id
+  ),
+  ranked AS (
+    SELECT
+      rank() OVER (ORDER BY t.points DESC) AS rank,
+      t.user_id,
+      t.points
+    FROM totals t
+    JOIN public.users u ON u.user_id = t.user_id
+    WHERE u.show_on_leaderboard
+  ),
+  viewer AS (
+    SELECT r.rank, t.user_id, t.points
+    FROM totals t
+    LEFT JOIN ranked r ON r.user_id = t.user_id
+    WHERE t.user_id = auth.uid()::text
+  ),
+  entries AS (
+    (SELECT r.rank, r.user_id, r.points FROM ranked r ORDER BY r.rank, r.user_id LIMIT p_limit)
+    UNION
+    SELECT v.rank, v.user_id, v.points FROM viewer v
+  )
+  SELECT
+    e.rank,
+    e.user_id,
+    COALESCE(NULLIF(u.full_name, ''), NULLIF(u.name, ''), 'Anonymous reviewer'),
+    u.avatar_url,
+    e.points,
+    e.user_id = auth.uid()::text
+  FROM entries e
+  JOIN public.users u ON u.user_id = e.user_id
+  ORDER BY e.rank NULLS LAST, e.points DESC, e.user_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(text, text, integer) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_leaderboard_visibility(p_visible boolean)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE public.users
+  SET show_on_leaderboard = p_visible,
+      updated_at = timezone('utc'::text, now())
+  WHERE user_id = auth.uid()::text;
+
+  RETURN p_visible;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.set_leaderboard_visibility(boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_leaderboard_visibility(boolean) TO authenticated;
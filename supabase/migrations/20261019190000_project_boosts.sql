@@ -0,0 +1,214 @@
+-- Point redemption: creators spend points on a time-boxed boost that lifts a
+-- project to the top of the reviewer discovery feed.
+
+-- What a boost costs, by length. Prices live here so the client can't pick
+-- its own.
+CREATE TABLE IF NOT EXISTS public.boost_options (
+    duration_hours integer PRIMARY KEY CHECK (duration_hours > 0),
+    cost integer NOT NULL CHECK (cost > 0),
+    label text NOT NULL
+);
+
+ALTER TABLE public.boost_options ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Boost options are viewable by everyone" ON public.boost_options;
+CREATE POLICY "Boost options are viewable by everyone" ON public.boost_options
+  FOR SELECT USING (true);
+
+INSERT INTO public.boost_options (duration_hours, cost, label) VALUES
+  (24, 100, '1 day'),
+  (72, 250, '3 days'),
+  (168, 500, '7 days')
+ON CONFLICT (duration_hours) DO UPDATE
+  SET cost = EXCLUDED.cost,
+      label = EXCLUDED.label;
+
+CREATE TABLE IF NOT EXISTS public.project_boosts (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    points_spent integer NOT NULL CHECK (points_spent > 0),
+    starts_at timestamp with time zone NOT NULL,
+    ends_at timestamp with time zone NOT NULL,
+    status text DEFAULT 'active' NOT NULL CHECK (status IN ('active', 'cancelled')),
+    cancelled_at timestamp with time zone,
+    points_refunded integer DEFAULT 0 NOT NULL CHECK (points_refunded >= 0),
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT project_boosts_window_check CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS project_boosts_project_id_idx ON public.project_boosts(project_id);
+CREATE INDEX IF NOT EXISTS project_boosts_window_idx
+  ON public.project_boosts(starts_at, ends_at) WHERE status = 'active';
+
+ALTER TABLE public.project_boosts ENABLE ROW LEVEL SECURITY;
+
+-- Written only through redeem_project_boost / cancel_project_boost
+DROP POLICY IF EXISTS "Users can view own boosts" ON public.project_boosts;
+CREATE POLICY "Users can view own boosts" ON public.project_boosts
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+-- Boosts running right now, without who paid what. Feeds discovery ordering.
+CREATE OR REPLACE VIEW public.boosted_projects AS
+SELECT project_id, min(starts_at) AS boosted_since, max(ends_at) AS boosted_until
+FROM public.project_boosts
+WHERE status = 'active'
+  AND starts_at <= now()
+  AND ends_at > now()
+GROUP BY project_id;
+
+GRANT SELECT ON public.boosted_projects TO authenticated;
+
+-- Spends the creator's points on a boost of one of the boost_options
+-- lengths. The boost row and the ledger debit commit together, so a failed
+-- debit (HINT 'insufficient_points') leaves no boost behind. At most
+-- max_concurrent boosts may overlap any moment (HINT 'boost_capacity'), and
+-- a project can't have two overlapping boosts (HINT 'already_boosted').
+CREATE OR REPLACE FUNCTION public.redeem_project_boost(
+    p_project_id uuid,
+    p_duration_hours integer,
+    p_starts_at timestamp with time zone DEFAULT NULL
+)
+RETURNS public.project_boosts AS $$
+DECLARE
+  max_concurrent CONSTANT integer := 5;
+  v_user_id text := auth.uid()::text;
+  v_option public.boost_options%ROWTYPE;
+  v_starts_at timestamp with time zone := greatest(coalesce(p_starts_at, now()), now());
+  v_ends_at timestamp with time zone;
+  v_boost public.project_boosts%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE id = p_project_id
+      AND user_id = v_user_id
+      AND status = 'active'
+      AND visibility = 'public'
+  ) THEN
+    RAISE EXCEPTION 'Only your own active, public projects can be boosted';
+  END IF;
+
+  SELECT * INTO v_option FROM public.boost_options WHERE duration_hours = p_duration_hours;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown boost length: % hours', p_duration_hours;
+  END IF;
+
+  v_ends_at := v_starts_at + make_interval(hours => v_option.duration_hours);
+
+  -- Serialize redemptions so two creators can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext('public.project_boosts'));
+
+  IF EXISTS (
+    SELECT 1 FROM public.project_boosts
+    WHERE project_id = p_project_id
+      AND status = 'active'
+      AND starts_at < v_ends_at
+      AND ends_at > v_starts_at
+  ) THEN
+    RAISE EXCEPTION 'This project already has a boost in that period'
+      USING HINT = 'already_boosted';
+  END IF;
+
+  -- Peak overlap within the new window: the most boosts running at any one
+  -- start time inside it (or at its own start)
+  IF (
+    SELECT coalesce(max(overlapping), 0)
+    FROM (
+      SELECT (
+        SELECT count(*) FROM public.project_boosts b
+        WHERE b.status = 'active'
+          AND b.starts_at <= t.at
+          AND b.ends_at > t.at
+      ) AS overlapping
+      FROM (
+        SELECT v_starts_at AS at
+        UNION
+        SELECT starts_at FROM public.project_boosts
+        WHERE status = 'active'
+          AND starts_at > v_starts_at
+          AND starts_at < v_ends_at
+      ) t
+    ) peaks
+  ) >= max_concurrent THEN
+    RAISE EXCEPTION 'All % boost slots are taken for that period', max_concurrent
+      USING HINT = 'boost_capacity';
+  END IF;
+
+  INSERT INTO public.project_boosts (project_id, user_id, points_spent, starts_at, ends_at)
+  VALUES (p_project_id, v_user_id, v_option.cost, v_starts_at, v_ends_at)
+  RETURNING * INTO v_boost;
+
+  PERFORM public.award_points(
+    v_user_id,
+    -v_option.cost,
+    'boost_redeemed',
+    'project_boost',
+    v_boost.id::text,
+    v_option.label || ' project boost'
+  );
+
+  RETURN v_boost;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.redeem_project_boost(uuid, integer, timestamp with time zone) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_project_boost(uuid, integer, timestamp with time zone) TO authenticated;
+
+-- Cancels one of the caller's boosts. Boosts that haven't started yet are
+-- refunded in full; a running boost just stops early.
+CREATE OR REPLACE FUNCTION public.cancel_project_boost(p_boost_id uuid)
+RETURNS public.project_boosts AS $$
+DECLARE
+  v_boost public.project_boosts%ROWTYPE;
+  v_refund integer;
+BEGIN
+  SELECT * INTO v_boost
+  FROM public.project_boosts
+  WHERE id = p_boost_id AND user_id = auth.uid()::text
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Boost not found';
+  END IF;
+
+  IF v_boost.status = 'cancelled' OR v_boost.ends_at <= now() THEN
+    RAISE EXCEPTION 'This boost has already ended';
+  END IF;
+
+  v_refund := CASE WHEN v_boost.starts_at > now() THEN v_boost.points_spent ELSE 0 END;
+
+  UPDATE public.project_boosts
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      points_refunded = v_refund
+  WHERE id = p_boost_id
+  RETURNING * INTO v_boost;
+
+  IF v_refund > 0 THEN
+    PERFORM public.award_points(
+      v_boost.user_id,
+      v_refund,
+      'boost_refund',
+      'project_boost',
+      v_boost.id::text,
+      'Boost cancelled before it started'
+    );
+  END IF;
+
+  RETURN v_boost;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.cancel_project_boost(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_project_boost(uuid) TO authenticated;
+
+-- Refunds give points back rather than earning them, so they don't count as XP
+CREATE OR REPLACE FUNCTION public.get_xp_sources()
+RETURNS TABLE (points_earned bigint, badge_count bigint) AS $$
+  SELECT
+    (SELECT COALESCE(sum(amount), 0) FROM public.point_transactions
+     WHERE user_id = auth.uid()::text AND amount > 0
+       AND reason NOT IN ('boost_refund')),
+    (SELECT count(*) FROM public.user_badges
+     WHERE user_id = auth.uid()::text);
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,111 @@
+-- Idempotent Stripe webhook processing. Each Stripe event is stored once,
+-- keyed on its id, and carries a processing state so retried deliveries of
+-- an already-handled event are acknowledged without being applied again.
+
+ALTER TABLE public.webhook_events
+  ADD COLUMN IF NOT EXISTS processing_status text DEFAULT 'received' NOT NULL,
+  ADD COLUMN IF NOT EXISTS attempts integer DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS last_error text,
+  ADD COLUMN IF NOT EXISTS skip_reason text,
+  ADD COLUMN IF NOT EXISTS event_created_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS processing_started_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS processed_at timestamp with time zone;
+
+-- Rows logged before this migration were handled at the time
+UPDATE public.webhook_events
+SET processing_status = 'succeeded',
+    attempts = 1,
+    event_created_at = created_at,
+    processed_at = modified_at
+WHERE processing_status = 'received' AND attempts = 0;
+
+-- The invoice handlers used to log a second row per event; keep the first
+DELETE FROM public.webhook_events w
+USING public.webhook_events earlier
+WHERE w.stripe_event_id = earlier.stripe_event_id
+  AND (earlier.created_at, earlier.id) < (w.created_at, w.id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'webhook_events_processing_status_check'
+  ) THEN
+    ALTER TABLE public.webhook_events
+      ADD CONSTRAINT webhook_events_processing_status_check
+      CHECK (processing_status IN ('received', 'processing', 'succeeded', 'failed'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'webhook_events_stripe_event_id_key'
+  ) THEN
+    ALTER TABLE public.webhook_events
+      ADD CONSTRAINT webhook_events_stripe_event_id_key UNIQUE (stripe_event_id);
+  END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS webhook_events_processing_status_idx
+  ON public.webhook_events(processing_status);
+
+-- Newest Stripe event applied to each subscription, to spot stale deliveries
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS last_event_created_at timestamp with time zone;
+
+-- Records a delivery and decides whether this caller should process it.
+-- claimed is false when the event already succeeded, or when another
+-- delivery started processing it within the last p_lease_seconds.
+CREATE OR REPLACE FUNCTION public.claim_webhook_event(
+    p_stripe_event_id text,
+    p_event_type text,
+    p_event_created_at timestamp with time zone,
+    p_data jsonb,
+    p_lease_seconds integer DEFAULT 300
+)
+RETURNS TABLE (
+    id uuid,
+    claimed boolean,
+    processing_status text,
+    attempts integer
+) AS $$
+DECLARE
+  v_event public.webhook_events%ROWTYPE;
+BEGIN
+  INSERT INTO public.webhook_events (
+    event_type, type, stripe_event_id, data, created_at, modified_at, event_created_at
+  ) VALUES (
+    p_event_type,
+    split_part(p_event_type, '.', 1),
+    p_stripe_event_id,
+    p_data,
+    p_event_created_at,
+    timezone('utc'::text, now()),
+    p_event_created_at
+  )
+  ON CONFLICT (stripe_event_id) DO NOTHING;
+
+  SELECT * INTO v_event
+  FROM public.webhook_events w
+  WHERE w.stripe_event_id = p_stripe_event_id
+  FOR UPDATE;
+
+  IF v_event.processing_status = 'succeeded'
+     OR (v_event.processing_status = 'processing'
+         AND v_event.processing_started_at > now() - make_interval(secs => p_lease_seconds)) THEN
+    RETURN QUERY SELECT v_event.id, false, v_event.processing_status, v_event.attempts;
+    RETURN;
+  END IF;
+
+  UPDATE public.webhook_events w
+  SET processing_status = 'processing',
+      attempts = w.attempts + 1,
+      processing_started_at = now(),
+      modified_at = timezone('utc'::text, now())
+  WHERE w.id = v_event.id
+  RETURNING * INTO v_event;
+
+  RETURN QUERY SELECT v_event.id, true, v_event.processing_status, v_event.attempts;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.claim_webhook_event(text, text, timestamp with time zone, jsonb, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_webhook_event(text, text, timestamp with time zone, jsonb, integer) TO service_role;
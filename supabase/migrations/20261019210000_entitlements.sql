@@ -0,0 +1,184 @@
+-- Plan entitlements. The payments webhook stores each subscription's
+-- resolved entitlements (see supabase/functions/_shared/rules/entitlements.ts);
+-- limits are enforced by the create-project / restore-project edge functions
+-- and, for boost credits, by redeem_project_boost.
+
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS entitlements jsonb;
+
+-- Projects are created only through create-project, which checks the
+-- creator's plan limits first
+DROP POLICY IF EXISTS "Users can create own projects" ON public.projects;
+
+-- Restoring an archived project makes it count against the active project
+-- limit again, so only restore-project (service role) may do it
+CREATE OR REPLACE FUNCTION public.guard_project_restore()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'archived' AND NEW.status = 'active'
+     AND coalesce(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Projects must be restored through restore-project';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS projects_guard_restore ON public.projects;
+CREATE TRIGGER projects_guard_restore
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.guard_project_restore();
+
+-- The stored entitlements of the user's newest subscription that still
+-- grants them (statuses match entitledStatuses), or null for free users
+CREATE OR REPLACE FUNCTION public.current_entitlements(p_user_id text)
+RETURNS jsonb AS $$
+  SELECT entitlements
+  FROM public.subscriptions
+  WHERE user_id = p_user_id
+    AND status IN ('active', 'trialing', 'past_due')
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.current_entitlements(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.current_entitlements(text) TO service_role;
+
+-- Boosts can now be paid with a monthly plan credit instead of points
+ALTER TABLE public.project_boosts
+  ADD COLUMN IF NOT EXISTS paid_with text DEFAULT 'points' NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'project_boosts_paid_with_check'
+  ) THEN
+    ALTER TABLE public.project_boosts
+      ADD CONSTRAINT project_boosts_paid_with_check CHECK (paid_with IN ('points', 'credit'));
+  END IF;
+END
+$$;
+
+ALTER TABLE public.project_boosts DROP CONSTRAINT IF EXISTS project_boosts_points_spent_check;
+ALTER TABLE public.project_boosts
+  ADD CONSTRAINT project_boosts_points_spent_check
+  CHECK ((paid_with = 'points' AND points_spent > 0) OR (paid_with = 'credit' AND points_spent = 0));
+
+-- Credits spent this calendar month (UTC). A credit boost cancelled before it
+-- started gives its credit back.
+CREATE OR REPLACE FUNCTION public.boost_credits_used(p_user_id text)
+RETURNS integer AS $$
+  SELECT count(*)::integer
+  FROM public.project_boosts
+  WHERE user_id = p_user_id
+    AND paid_with = 'credit'
+    AND created_at >= date_trunc('month', timezone('utc'::text, now())) AT TIME ZONE 'utc'
+    AND NOT (status = 'cancelled' AND cancelled_at < starts_at);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.boost_credits_used(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.boost_credits_used(text) TO service_role;
+
+-- Same as before, except that while the creator has boost credits left this
+-- month the boost is paid with a credit instead of points.
+CREATE OR REPLACE FUNCTION public.redeem_project_boost(
+    p_project_id uuid,
+    p_duration_hours integer,
+    p_starts_at timestamp with time zone DEFAULT NULL
+)
+RETURNS public.project_boosts AS $$
+DECLARE
+  max_concurrent CONSTANT integer := 5;
+  v_user_id text := auth.uid()::text;
+  v_option public.boost_options%ROWTYPE;
+  v_starts_at timestamp with time zone := greatest(coalesce(p_starts_at, now()), now());
+  v_ends_at timestamp with time zone;
+  v_boost public.project_boosts%ROWTYPE;
+  v_credits integer;
+  v_paid_with text := 'points';
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE id = p_project_id
+      AND user_id = v_user_id
+      AND status = 'active'
+      AND visibility = 'public'
+  ) THEN
+    RAISE EXCEPTION 'Only your own active, public projects can be boosted';
+  END IF;
+
+  SELECT * INTO v_option FROM public.boost_options WHERE duration_hours = p_duration_hours;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown boost length: % hours', p_duration_hours;
+  END IF;
+
+  v_ends_at := v_starts_at + make_interval(hours => v_option.duration_hours);
+
+  -- Serialize redemptions so two creators can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext('public.project_boosts'));
+
+  IF EXISTS (
+    SELECT 1 FROM public.project_boosts
+    WHERE project_id = p_project_id
+      AND status = 'active'
+      AND starts_at < v_ends_at
+      AND ends_at > v_starts_at
+  ) THEN
+    RAISE EXCEPTION 'This project already has a boost in that period'
+      USING HINT = 'already_boosted';
+  END IF;
+
+  -- Peak overlap within the new window: the most boosts running at any one
+  -- start time inside it (or at its own start)
+  IF (
+    SELECT coalesce(max(overlapping), 0)
+    FROM (
+      SELECT (
+        SELECT count(*) FROM public.project_boosts b
+        WHERE b.status = 'active'
+          AND b.starts_at <= t.at
+          AND b.ends_at > t.at
+      ) AS overlapping
+      FROM (
+        SELECT v_starts_at AS at
+        UNION
+        SELECT starts_at FROM public.project_boosts
+        WHERE status = 'active'
+          AND starts_at > v_starts_at
+          AND starts_at < v_ends_at
+      ) t
+    ) peaks
+  ) >= max_concurrent THEN
+    RAISE EXCEPTION 'All % boost slots are taken for that period', max_concurrent
+      USING HINT = 'boost_capacity';
+  END IF;
+
+  v_credits := coalesce((public.current_entitlements(v_user_id)->>'boostCreditsPerMonth')::integer, 0);
+  IF public.boost_credits_used(v_user_id) < v_credits THEN
+    v_paid_with := 'credit';
+  END IF;
+
+  INSERT INTO public.project_boosts (project_id, user_id, points_spent, paid_with, starts_at, ends_at)
+  VALUES (
+    p_project_id,
+    v_user_id,
+    CASE WHEN v_paid_with = 'credit' THEN 0 ELSE v_option.cost END,
+    v_paid_with,
+    v_starts_at,
+    v_ends_at
+  )
+  RETURNING * INTO v_boost;
+
+  IF v_paid_with = 'points' THEN
+    PERFORM public.award_points(
+      v_user_id,
+      -v_option.cost,
+      'boost_redeemed',
+      'project_boost',
+      v_boost.id::text,
+      v_option.label || ' project boost'
+    );
+  END IF;
+
+  RETURN v_boost;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
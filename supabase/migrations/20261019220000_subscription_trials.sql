@@ -0,0 +1,5 @@
+-- Free trial window of a subscription, as Stripe timestamps (seconds) like
+-- the other period columns. Set while status is 'trialing' and kept after.
+
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS trial_start bigint;
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS trial_end bigint;
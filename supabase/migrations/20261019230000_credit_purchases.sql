@@ -0,0 +1,95 @@
+-- One-time credit pack purchases. Packs are Stripe one-time prices with a
+-- `credit_points` metadata key; the payments webhook fulfils each paid
+-- checkout session once through fulfil_credit_purchase.
+
+CREATE TABLE IF NOT EXISTS public.credit_purchases (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    stripe_checkout_session_id text NOT NULL,
+    stripe_payment_intent_id text,
+    stripe_price_id text NOT NULL,
+    pack_name text NOT NULL,
+    points integer NOT NULL CHECK (points > 0),
+    amount bigint NOT NULL,
+    currency text NOT NULL,
+    point_transaction_id bigint REFERENCES public.point_transactions(id),
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT credit_purchases_checkout_session_key UNIQUE (stripe_checkout_session_id)
+);
+
+CREATE INDEX IF NOT EXISTS credit_purchases_user_id_idx ON public.credit_purchases(user_id, created_at DESC);
+
+ALTER TABLE public.credit_purchases ENABLE ROW LEVEL SECURITY;
+
+-- Written only by fulfil_credit_purchase
+DROP POLICY IF EXISTS "Users can view own credit purchases" ON public.credit_purchases;
+CREATE POLICY "Users can view own credit purchases" ON public.credit_purchases
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+-- Records the purchase and credits its points in one transaction. A session
+-- that was already fulfilled returns the existing purchase untouched, so
+-- webhook retries and the async payment event can't credit it twice.
+CREATE OR REPLACE FUNCTION public.fulfil_credit_purchase(
+    p_user_id text,
+    p_checkout_session_id text,
+    p_payment_intent_id text,
+    p_price_id text,
+    p_pack_name text,
+    p_points integer,
+    p_amount bigint,
+    p_currency text
+)
+RETURNS public.credit_purchases AS $$
+DECLARE
+  v_purchase public.credit_purchases%ROWTYPE;
+  v_entry public.point_transactions%ROWTYPE;
+BEGIN
+  INSERT INTO public.credit_purchases (
+    user_id, stripe_checkout_session_id, stripe_payment_intent_id,
+    stripe_price_id, pack_name, points, amount, currency
+  )
+  VALUES (
+    p_user_id, p_checkout_session_id, p_payment_intent_id,
+    p_price_id, p_pack_name, p_points, p_amount, p_currency
+  )
+  ON CONFLICT (stripe_checkout_session_id) DO NOTHING
+  RETURNING * INTO v_purchase;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_purchase
+    FROM public.credit_purchases
+    WHERE stripe_checkout_session_id = p_checkout_session_id;
+    RETURN v_purchase;
+  END IF;
+
+  v_entry := public.award_points(
+    p_user_id,
+    p_points,
+    'credit_pack_purchase',
+    'checkout_session',
+    p_checkout_session_id,
+    p_pack_name
+  );
+
+  UPDATE public.credit_purchases
+  SET point_transaction_id = v_entry.id
+  WHERE id = v_purchase.id
+  RETURNING * INTO v_purchase;
+
+  RETURN v_purchase;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.fulfil_credit_purchase(text, text, text, text, text, integer, bigint, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.fulfil_credit_purchase(text, text, text, text, text, integer, bigint, text) TO service_role;
+
+-- Bought points aren't earned either, so they don't count as XP
+CREATE OR REPLACE FUNCTION public.get_xp_sources()
+RETURNS TABLE (points_earned bigint, badge_count bigint) AS $$
+  SELECT
+    (SELECT COALESCE(sum(amount), 0) FROM public.point_transactions
+     WHERE user_id = auth.uid()::text AND amount > 0
+       AND reason NOT IN ('boost_refund', 'credit_pack_purchase')),
+    (SELECT count(*) FROM public.user_badges
+     WHERE user_id = auth.uid()::text);
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,284 @@
+-- Dunning for failed subscription payments. The payments webhook records
+-- each failed attempt through record_payment_failure; process_dunning runs
+-- on a schedule to send reminders and, once the grace period is over,
+-- downgrades the subscription to the grace entitlements (graceEntitlements
+-- in supabase/functions/_shared/rules/entitlements.ts) until the payment
+-- recovers.
+
+-- Single-row settings so the schedule can be tuned without a deploy
+CREATE TABLE IF NOT EXISTS public.dunning_settings (
+    id boolean DEFAULT true PRIMARY KEY CHECK (id),
+    -- Days after the first failure before the plan is downgraded
+    grace_days integer DEFAULT 7 NOT NULL CHECK (grace_days >= 0),
+    -- Days after the first failure on which a reminder is sent
+    reminder_days integer[] DEFAULT '{1,3,5}'::integer[] NOT NULL
+);
+
+INSERT INTO public.dunning_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.dunning_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Dunning settings are viewable by everyone" ON public.dunning_settings;
+CREATE POLICY "Dunning settings are viewable by everyone" ON public.dunning_settings
+  FOR SELECT USING (true);
+
+-- When the current run of failed payments started, and when the grace
+-- period ran out. Both clear once the subscription is paid up again.
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS past_due_since timestamp with time zone;
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS downgraded_at timestamp with time zone;
+
+CREATE TABLE IF NOT EXISTS public.payment_failures (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    stripe_subscription_id text NOT NULL,
+    stripe_invoice_id text NOT NULL,
+    attempt_count integer NOT NULL,
+    amount_due bigint NOT NULL,
+    currency text NOT NULL,
+    failure_message text,
+    hosted_invoice_url text,
+    -- Stripe timestamp of the next automatic retry, if any
+    next_payment_attempt bigint,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CONSTRAINT payment_failures_invoice_attempt_key UNIQUE (stripe_invoice_id, attempt_count)
+);
+
+CREATE INDEX IF NOT EXISTS payment_failures_user_id_idx ON public.payment_failures(user_id, created_at DESC);
+
+ALTER TABLE public.payment_failures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own payment failures" ON public.payment_failures;
+CREATE POLICY "Users can view own payment failures" ON public.payment_failures
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+-- In-app notifications. dedupe_key stops scheduled jobs and webhook retries
+-- from sending the same notification twice.
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    kind text NOT NULL,
+    title text NOT NULL,
+    body text,
+    link text,
+    dedupe_key text UNIQUE,
+    read_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON public.notifications;
+CREATE POLICY "Users can view own notifications" ON public.notifications
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(p_ids uuid[])
+RETURNS void AS $$
+  UPDATE public.notifications
+  SET read_at = timezone('utc'::text, now())
+  WHERE id = ANY(p_ids)
+    AND user_id = auth.uid()::text
+    AND read_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.mark_notifications_read(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(uuid[]) TO authenticated;
+
+-- Records one failed attempt at paying an invoice, marks the subscription
+-- past due and tells the user. Safe to call again for the same attempt.
+CREATE OR REPLACE FUNCTION public.record_payment_failure(
+    p_stripe_subscription_id text,
+    p_stripe_invoice_id text,
+    p_attempt_count integer,
+    p_amount_due bigint,
+    p_currency text,
+    p_failure_message text,
+    p_hosted_invoice_url text,
+    p_next_payment_attempt bigint
+)
+RETURNS public.payment_failures AS $$
+DECLARE
+  v_subscription public.subscriptions%ROWTYPE;
+  v_failure public.payment_failures%ROWTYPE;
+BEGIN
+  SELECT * INTO v_subscription
+  FROM public.subscriptions
+  WHERE stripe_id = p_stripe_subscription_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_subscription.user_id IS NULL THEN
+    RAISE EXCEPTION 'Unknown subscription %', p_stripe_subscription_id;
+  END IF;
+
+  INSERT INTO public.payment_failures (
+    user_id, stripe_subscription_id, stripe_invoice_id, attempt_count,
+    amount_due, currency, failure_message, hosted_invoice_url, next_payment_attempt
+  )
+  VALUES (
+    v_subscription.user_id, p_stripe_subscription_id, p_stripe_invoice_id, p_attempt_count,
+    p_amount_due, p_currency, p_failure_message, p_hosted_invoice_url, p_next_payment_attempt
+  )
+  ON CONFLICT (stripe_invoice_id, attempt_count) DO NOTHING
+  RETURNING * INTO v_failure;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_failure
+    FROM public.payment_failures
+    WHERE stripe_invoice_id = p_stripe_invoice_id
+      AND attempt_count = p_attempt_count;
+    RETURN v_failure;
+  END IF;
+
+  UPDATE public.subscriptions
+  SET status = CASE WHEN status IN ('active', 'trialing') THEN 'past_due' ELSE status END,
+      past_due_since = coalesce(past_due_since, timezone('utc'::text, now()))
+  WHERE id = v_subscription.id;
+
+  INSERT INTO public.notifications (user_id, kind, title, body, link, dedupe_key)
+  VALUES (
+    v_subscription.user_id,
+    'payment_failed',
+    'Your payment didn''t go through',
+    coalesce(p_failure_message, 'We couldn''t charge your card.') ||
+      ' Update your payment method to keep your plan.',
+    '/dashboard/billing',
+    'payment_failed:' || p_stripe_invoice_id || ':' || p_attempt_count
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING;
+
+  RETURN v_failure;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_payment_failure(text, text, integer, bigint, text, text, text, bigint) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_failure(text, text, integer, bigint, text, text, text, bigint) TO service_role;
+
+-- Ends the dunning run as soon as the subscription leaves the past-due
+-- states, whichever webhook (or reconciliation) updated it
+CREATE OR REPLACE FUNCTION public.clear_dunning_on_recovery()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.past_due_since IS NOT NULL
+     AND NEW.status IS DISTINCT FROM OLD.status
+     AND NEW.status NOT IN ('past_due', 'unpaid') THEN
+    IF NEW.status IN ('active', 'trialing') THEN
+      INSERT INTO public.notifications (user_id, kind, title, body, link, dedupe_key)
+      VALUES (
+        NEW.user_id,
+        'payment_recovered',
+        'Payment received',
+        'Thanks! Your plan is fully active again.',
+        '/dashboard/billing',
+        'payment_recovered:' || NEW.id || ':' || extract(epoch FROM OLD.past_due_since)::bigint
+      )
+      ON CONFLICT (dedupe_key) DO NOTHING;
+    END IF;
+
+    NEW.past_due_since := NULL;
+    NEW.downgraded_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS subscriptions_clear_dunning ON public.subscriptions;
+CREATE TRIGGER subscriptions_clear_dunning
+  BEFORE UPDATE ON public.subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.clear_dunning_on_recovery();
+
+-- Scheduled step: sends the latest reminder that has come due for each past
+-- due subscription and downgrades those past the grace period. Returns how
+-- many subscriptions it looked at.
+CREATE OR REPLACE FUNCTION public.process_dunning()
+RETURNS integer AS $$
+DECLARE
+  v_settings public.dunning_settings%ROWTYPE;
+  v_subscription public.subscriptions%ROWTYPE;
+  v_days_past_due integer;
+  v_reminder_day integer;
+  v_count integer := 0;
+BEGIN
+  SELECT * INTO v_settings FROM public.dunning_settings WHERE id;
+
+  FOR v_subscription IN
+    SELECT * FROM public.subscriptions
+    WHERE status IN ('past_due', 'unpaid')
+      AND past_due_since IS NOT NULL
+      AND user_id IS NOT NULL
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_count := v_count + 1;
+    v_days_past_due := floor(
+      extract(epoch FROM timezone('utc'::text, now()) - v_subscription.past_due_since) / 86400
+    );
+
+    SELECT max(day) INTO v_reminder_day
+    FROM unnest(v_settings.reminder_days) AS day
+    WHERE day <= v_days_past_due;
+
+    IF v_reminder_day IS NOT NULL AND v_subscription.downgraded_at IS NULL THEN
+      INSERT INTO public.notifications (user_id, kind, title, body, link, dedupe_key)
+      VALUES (
+        v_subscription.user_id,
+        'dunning_reminder',
+        'Update your payment method',
+        CASE
+          WHEN v_settings.grace_days > v_days_past_due THEN
+            'Your plan will be limited in ' || (v_settings.grace_days - v_days_past_due) ||
+            CASE WHEN v_settings.grace_days - v_days_past_due = 1 THEN ' day' ELSE ' days' END ||
+            ' unless the payment goes through.'
+          ELSE 'Your plan will be limited soon unless the payment goes through.'
+        END,
+        '/dashboard/billing',
+        'dunning_reminder:' || v_subscription.id || ':' ||
+          extract(epoch FROM v_subscription.past_due_since)::bigint || ':' || v_reminder_day
+      )
+      ON CONFLICT (dedupe_key) DO NOTHING;
+    END IF;
+
+    IF v_days_past_due >= v_settings.grace_days AND v_subscription.downgraded_at IS NULL THEN
+      UPDATE public.subscriptions
+      SET downgraded_at = timezone('utc'::text, now())
+      WHERE id = v_subscription.id;
+
+      INSERT INTO public.notifications (user_id, kind, title, body, link, dedupe_key)
+      VALUES (
+        v_subscription.user_id,
+        'plan_downgraded',
+        'Your plan is limited',
+        'We still couldn''t collect your payment, so paid features are paused. Update your card to restore them.',
+        '/dashboard/billing',
+        'plan_downgraded:' || v_subscription.id || ':' ||
+          extract(epoch FROM v_subscription.past_due_since)::bigint
+      )
+      ON CONFLICT (dedupe_key) DO NOTHING;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.process_dunning() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.process_dunning() TO service_role;
+
+-- Hourly, where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-dunning', '15 * * * *', 'SELECT public.process_dunning()');
+  END IF;
+END
+$$;
+
+-- A downgraded subscription no longer grants plan boost credits
+CREATE OR REPLACE FUNCTION public.current_entitlements(p_user_id text)
+RETURNS jsonb AS $$
+  SELECT CASE WHEN downgraded_at IS NULL THEN entitlements END
+  FROM public.subscriptions
+  WHERE user_id = p_user_id
+    AND status IN ('active', 'trialing', 'past_due')
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
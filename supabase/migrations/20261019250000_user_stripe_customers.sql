@@ -0,0 +1,33 @@
+-- The Stripe customer each user checks out as. create-checkout creates it on
+-- a user's first checkout (or adopts the one on their latest subscription)
+-- and every later checkout reuses it, so one person maps to one customer.
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS stripe_customer_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS users_stripe_customer_id_key
+  ON public.users(stripe_customer_id)
+  WHERE stripe_customer_id IS NOT NULL;
+
+-- Existing subscribers keep the customer Stripe already knows them by,
+-- unless it's shared with another user (left for reconciliation)
+UPDATE public.users u
+SET stripe_customer_id = latest.customer_id
+FROM (
+  SELECT DISTINCT ON (user_id) user_id, customer_id
+  FROM public.subscriptions
+  WHERE customer_id IS NOT NULL
+  ORDER BY user_id, created_at DESC
+) latest
+WHERE u.user_id = latest.user_id
+  AND u.stripe_customer_id IS NULL
+  AND latest.customer_id IN (
+    SELECT customer_id
+    FROM public.subscriptions
+    WHERE customer_id IS NOT NULL
+    GROUP BY customer_id
+    HAVING count(DISTINCT user_id) = 1
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.users other
+    WHERE other.stripe_customer_id = latest.customer_id
+  );
@@ -0,0 +1,94 @@
+-- Every Stripe customer we know of and the user it belongs to. Webhooks
+-- resolve users through this table instead of matching emails; a user can
+-- have several customers (older checkouts created one each), while
+-- users.stripe_customer_id stays the one new checkouts use.
+
+CREATE TABLE IF NOT EXISTS public.billing_customers (
+    stripe_customer_id text PRIMARY KEY,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    -- How the link was made: checkout, subscription, backfill or reconciliation
+    source text NOT NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS billing_customers_user_id_idx ON public.billing_customers(user_id);
+
+ALTER TABLE public.billing_customers ENABLE ROW LEVEL SECURITY;
+
+-- Written only by edge functions with the service role
+DROP POLICY IF EXISTS "Users can view own billing customers" ON public.billing_customers;
+CREATE POLICY "Users can view own billing customers" ON public.billing_customers
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+-- Existing links: checkout customers first, then customers on subscriptions.
+-- A customer that appears for two users keeps its earliest owner.
+INSERT INTO public.billing_customers (stripe_customer_id, user_id, source)
+SELECT stripe_customer_id, user_id, 'backfill'
+FROM public.users
+WHERE stripe_customer_id IS NOT NULL
+ON CONFLICT (stripe_customer_id) DO NOTHING;
+
+INSERT INTO public.billing_customers (stripe_customer_id, user_id, source)
+SELECT DISTINCT ON (customer_id) customer_id, user_id, 'backfill'
+FROM public.subscriptions
+WHERE customer_id IS NOT NULL AND user_id IS NOT NULL
+ORDER BY customer_id, created_at
+ON CONFLICT (stripe_customer_id) DO NOTHING;
+
+-- Subscriptions stored before their customer could be linked to a user have
+-- a null user_id. Gives each one whose customer is now known its user, and
+-- returns how many were linked.
+CREATE OR REPLACE FUNCTION public.reconcile_orphaned_subscriptions()
+RETURNS integer AS $$
+DECLARE
+  v_linked integer;
+BEGIN
+  UPDATE public.subscriptions s
+  SET user_id = bc.user_id,
+      updated_at = timezone('utc'::text, now())
+  FROM public.billing_customers bc
+  WHERE s.user_id IS NULL
+    AND s.customer_id = bc.stripe_customer_id;
+
+  GET DIAGNOSTICS v_linked = ROW_COUNT;
+  RETURN v_linked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.reconcile_orphaned_subscriptions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reconcile_orphaned_subscriptions() TO service_role;
+
+-- A new link adopts that customer's orphaned subscriptions straight away
+CREATE OR REPLACE FUNCTION public.link_orphaned_subscriptions()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.subscriptions
+  SET user_id = NEW.user_id,
+      updated_at = timezone('utc'::text, now())
+  WHERE user_id IS NULL
+    AND customer_id = NEW.stripe_customer_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS link_orphaned_subscriptions ON public.billing_customers;
+CREATE TRIGGER link_orphaned_subscriptions
+  AFTER INSERT ON public.billing_customers
+  FOR EACH ROW EXECUTE FUNCTION public.link_orphaned_subscriptions();
+
+SELECT public.reconcile_orphaned_subscriptions();
+
+-- Hourly, where pg_cron is available. Orphans whose customer isn't linked
+-- yet need Stripe and are handled by the reconcile-billing-customers function.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'reconcile-orphaned-subscriptions',
+      '45 * * * *',
+      'SELECT public.reconcile_orphaned_subscriptions()'
+    );
+  END IF;
+END
+$$;
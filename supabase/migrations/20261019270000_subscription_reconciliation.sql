@@ -0,0 +1,40 @@
+-- One row per run of the reconcile-subscriptions job, which compares every
+-- Stripe subscription with its local row and repairs drift left by missed
+-- or failed webhooks. `drift` lists what differed, per subscription:
+--   [{ "stripe_subscription_id": "sub_...", "action": "repaired",
+--      "fields": { "status": { "local": "active", "stripe": "canceled" } } }]
+-- Actions: repaired, created (it had no local row), missing_in_stripe
+-- (reported only), duplicate_entitled (the write would give its user a
+-- second live plan), or would_repair / would_create on a dry run.
+
+CREATE TABLE IF NOT EXISTS public.subscription_reconciliation_reports (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    status text DEFAULT 'running' NOT NULL,
+    dry_run boolean DEFAULT false NOT NULL,
+    checked_count integer DEFAULT 0 NOT NULL,
+    drifted_count integer DEFAULT 0 NOT NULL,
+    repaired_count integer DEFAULT 0 NOT NULL,
+    created_count integer DEFAULT 0 NOT NULL,
+    drift jsonb DEFAULT '[]'::jsonb NOT NULL,
+    error text,
+    started_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    finished_at timestamp with time zone
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'subscription_reconciliation_reports_status_check'
+  ) THEN
+    ALTER TABLE public.subscription_reconciliation_reports
+      ADD CONSTRAINT subscription_reconciliation_reports_status_check
+      CHECK (status IN ('running', 'succeeded', 'failed'));
+  END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS subscription_reconciliation_reports_started_at_idx
+  ON public.subscription_reconciliation_reports(started_at DESC);
+
+-- Written and read only with the service role
+ALTER TABLE public.subscription_reconciliation_reports ENABLE ROW LEVEL SECURITY;
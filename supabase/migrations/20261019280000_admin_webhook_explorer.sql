@@ -0,0 +1,35 @@
+-- Staff allowed into the admin pages. Granted by hand, e.g.
+--   INSERT INTO public.admin_users (user_id) VALUES ('<auth user id>');
+-- A separate table rather than a flag on users, which users can edit.
+
+CREATE TABLE IF NOT EXISTS public.admin_users (
+    user_id text PRIMARY KEY REFERENCES public.users(user_id),
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Read only through is_admin()
+ALTER TABLE public.admin_users ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.admin_users WHERE user_id = auth.uid()::text
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.is_admin() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated, service_role;
+
+-- Admins can browse stored Stripe events; writes stay with the webhook
+DROP POLICY IF EXISTS "Admins can view webhook events" ON public.webhook_events;
+CREATE POLICY "Admins can view webhook events" ON public.webhook_events
+  FOR SELECT USING (public.is_admin());
+
+-- Who last re-ran a failed event from the admin explorer
+ALTER TABLE public.webhook_events
+  ADD COLUMN IF NOT EXISTS replay_count integer DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS last_replayed_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS last_replayed_by text REFERENCES public.users(user_id);
+
+CREATE INDEX IF NOT EXISTS webhook_events_event_created_at_idx
+  ON public.webhook_events(event_created_at DESC);
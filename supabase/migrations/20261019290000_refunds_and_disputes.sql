@@ -0,0 +1,396 @@
+-- Refunds, disputes and chargebacks. The payments webhook reports each one
+-- through record_charge_refund, record_dispute and close_dispute. These take
+-- back the points of a refunded or disputed credit pack, flag the account
+-- for review and notify the admins (admin_users).
+
+-- How much of a pack has been refunded and how many of its points were taken
+-- back, by refunds and open disputes together
+ALTER TABLE public.credit_purchases
+  ADD COLUMN IF NOT EXISTS amount_refunded bigint DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS points_clawed_back integer DEFAULT 0 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS credit_purchases_payment_intent_idx
+  ON public.credit_purchases(stripe_payment_intent_id);
+
+CREATE TABLE IF NOT EXISTS public.payment_disputes (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    stripe_dispute_id text NOT NULL,
+    stripe_charge_id text NOT NULL,
+    stripe_payment_intent_id text,
+    -- NULL when the charge couldn't be traced to a user
+    user_id text REFERENCES public.users(user_id),
+    credit_purchase_id uuid REFERENCES public.credit_purchases(id),
+    amount bigint NOT NULL,
+    currency text NOT NULL,
+    reason text,
+    status text NOT NULL,
+    -- Points taken back when the dispute opened; returned if it's won
+    points_clawed_back integer DEFAULT 0 NOT NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    closed_at timestamp with time zone,
+    CONSTRAINT payment_disputes_stripe_dispute_id_key UNIQUE (stripe_dispute_id)
+);
+
+CREATE INDEX IF NOT EXISTS payment_disputes_user_id_idx ON public.payment_disputes(user_id);
+
+ALTER TABLE public.payment_disputes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view payment disputes" ON public.payment_disputes;
+CREATE POLICY "Admins can view payment disputes" ON public.payment_disputes
+  FOR SELECT USING (public.is_admin());
+
+-- Accounts an admin should look at. One flag per refunded charge or dispute;
+-- resolved_at is set when a dispute is won.
+CREATE TABLE IF NOT EXISTS public.account_flags (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id text NOT NULL REFERENCES public.users(user_id),
+    reason text NOT NULL,
+    -- The Stripe charge (refunds) or dispute behind the flag
+    source_id text NOT NULL,
+    details text,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL,
+    resolved_at timestamp with time zone,
+    CONSTRAINT account_flags_source_key UNIQUE (reason, source_id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'account_flags_reason_check'
+  ) THEN
+    ALTER TABLE public.account_flags
+      ADD CONSTRAINT account_flags_reason_check CHECK (reason IN ('refund', 'dispute'));
+  END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS account_flags_open_idx
+  ON public.account_flags(user_id) WHERE resolved_at IS NULL;
+
+ALTER TABLE public.account_flags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view account flags" ON public.account_flags;
+CREATE POLICY "Admins can view account flags" ON public.account_flags
+  FOR SELECT USING (public.is_admin());
+
+-- Sends every admin the same notification, once per dedupe key
+CREATE OR REPLACE FUNCTION public.notify_admins(
+    p_kind text,
+    p_title text,
+    p_body text,
+    p_dedupe_key text
+)
+RETURNS void AS $$
+  INSERT INTO public.notifications (user_id, kind, title, body, link, dedupe_key)
+  SELECT user_id, p_kind, p_title, p_body, '/dashboard/admin/webhooks',
+         p_dedupe_key || ':' || user_id
+  FROM public.admin_users
+  ON CONFLICT (dedupe_key) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.notify_admins(text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notify_admins(text, text, text, text) TO service_role;
+
+-- Takes up to p_points of a pack's points back, never more than it credited.
+-- The balance may go negative when they were already spent. Returns how
+-- many were taken; 0 if (p_reason, p_source_id) was already applied.
+CREATE OR REPLACE FUNCTION public.claw_back_credit_purchase(
+    p_purchase_id uuid,
+    p_points integer,
+    p_reason text,
+    p_source_id text
+)
+RETURNS integer AS $$
+DECLARE
+  v_purchase public.credit_purchases%ROWTYPE;
+  v_points integer;
+BEGIN
+  SELECT * INTO v_purchase
+  FROM public.credit_purchases
+  WHERE id = p_purchase_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.point_transactions
+    WHERE reason = p_reason AND source_type = 'stripe' AND source_id = p_source_id
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  v_points := least(p_points, v_purchase.points - v_purchase.points_clawed_back);
+  IF v_points <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM public.award_points(
+    v_purchase.user_id,
+    -v_points,
+    p_reason,
+    'stripe',
+    p_source_id,
+    v_purchase.pack_name,
+    true
+  );
+
+  UPDATE public.credit_purchases
+  SET points_clawed_back = points_clawed_back + v_points
+  WHERE id = v_purchase.id;
+
+  RETURN v_points;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.claw_back_credit_purchase(uuid, integer, text, text) FROM PUBLIC, anon, authenticated;
+
+-- A full or partial refund of a charge. p_amount_refunded is Stripe's running
+-- total, so each new refund takes back the points it adds up to. p_user_id
+-- is the webhook's best guess when the charge isn't a credit pack.
+-- Returns the points taken back.
+CREATE OR REPLACE FUNCTION public.record_charge_refund(
+    p_stripe_charge_id text,
+    p_payment_intent_id text,
+    p_user_id text,
+    p_amount bigint,
+    p_amount_refunded bigint,
+    p_currency text
+)
+RETURNS integer AS $$
+DECLARE
+  v_purchase public.credit_purchases%ROWTYPE;
+  v_user_id text := p_user_id;
+  v_clawed integer := 0;
+  v_refunded_points integer;
+BEGIN
+  SELECT * INTO v_purchase
+  FROM public.credit_purchases
+  WHERE stripe_payment_intent_id = p_payment_intent_id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    v_user_id := v_purchase.user_id;
+    v_refunded_points := CASE
+      WHEN p_amount <= 0 OR p_amount_refunded >= p_amount THEN v_purchase.points
+      ELSE ceil(v_purchase.points * p_amount_refunded::numeric / p_amount)::integer
+    END;
+
+    v_clawed := public.claw_back_credit_purchase(
+      v_purchase.id,
+      v_refunded_points - v_purchase.points_clawed_back,
+      'credit_pack_refund',
+      p_stripe_charge_id || ':' || p_amount_refunded
+    );
+
+    UPDATE public.credit_purchases
+    SET amount_refunded = greatest(amount_refunded, p_amount_refunded)
+    WHERE id = v_purchase.id;
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    INSERT INTO public.account_flags (user_id, reason, source_id, details)
+    VALUES (
+      v_user_id,
+      'refund',
+      p_stripe_charge_id,
+      coalesce(v_purchase.pack_name, 'Charge') || ' refunded'
+    )
+    ON CONFLICT (reason, source_id) DO NOTHING;
+  END IF;
+
+  PERFORM public.notify_admins(
+    'charge_refunded',
+    'Charge refunded',
+    format(
+      '%s of %s %s refunded on %s%s%s.',
+      (p_amount_refunded / 100.0)::numeric(12, 2),
+      (p_amount / 100.0)::numeric(12, 2),
+      upper(p_currency),
+      p_stripe_charge_id,
+      CASE WHEN v_user_id IS NULL THEN ' (no matching user)' ELSE ' for ' || v_user_id END,
+      CASE WHEN v_clawed > 0 THEN ', ' || v_clawed || ' points taken back' ELSE '' END
+    ),
+    'charge_refunded:' || p_stripe_charge_id || ':' || p_amount_refunded
+  );
+
+  RETURN v_clawed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_charge_refund(text, text, text, bigint, bigint, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_charge_refund(text, text, text, bigint, bigint, text) TO service_role;
+
+-- A new dispute (chargeback or inquiry). The money is held while it's open,
+-- so a disputed pack loses all its remaining points. Safe to call again for
+-- the same dispute, which only refreshes its status.
+CREATE OR REPLACE FUNCTION public.record_dispute(
+    p_stripe_dispute_id text,
+    p_stripe_charge_id text,
+    p_payment_intent_id text,
+    p_user_id text,
+    p_amount bigint,
+    p_currency text,
+    p_reason text,
+    p_status text
+)
+RETURNS public.payment_disputes AS $$
+DECLARE
+  v_dispute public.payment_disputes%ROWTYPE;
+  v_purchase public.credit_purchases%ROWTYPE;
+  v_clawed integer := 0;
+BEGIN
+  SELECT * INTO v_purchase
+  FROM public.credit_purchases
+  WHERE stripe_payment_intent_id = p_payment_intent_id;
+
+  INSERT INTO public.payment_disputes (
+    stripe_dispute_id, stripe_charge_id, stripe_payment_intent_id, user_id,
+    credit_purchase_id, amount, currency, reason, status
+  )
+  VALUES (
+    p_stripe_dispute_id, p_stripe_charge_id, p_payment_intent_id,
+    coalesce(v_purchase.user_id, p_user_id), v_purchase.id,
+    p_amount, p_currency, p_reason, p_status
+  )
+  ON CONFLICT (stripe_dispute_id) DO NOTHING
+  RETURNING * INTO v_dispute;
+
+  IF NOT FOUND THEN
+    UPDATE public.payment_disputes
+    SET status = p_status
+    WHERE stripe_dispute_id = p_stripe_dispute_id
+      AND closed_at IS NULL
+    RETURNING * INTO v_dispute;
+
+    IF NOT FOUND THEN
+      SELECT * INTO v_dispute
+      FROM public.payment_disputes
+      WHERE stripe_dispute_id = p_stripe_dispute_id;
+    END IF;
+    RETURN v_dispute;
+  END IF;
+
+  IF v_purchase.id IS NOT NULL THEN
+    v_clawed := public.claw_back_credit_purchase(
+      v_purchase.id,
+      v_purchase.points,
+      'credit_pack_dispute',
+      p_stripe_dispute_id
+    );
+
+    UPDATE public.payment_disputes
+    SET points_clawed_back = v_clawed
+    WHERE id = v_dispute.id
+    RETURNING * INTO v_dispute;
+  END IF;
+
+  IF v_dispute.user_id IS NOT NULL THEN
+    INSERT INTO public.account_flags (user_id, reason, source_id, details)
+    VALUES (
+      v_dispute.user_id,
+      'dispute',
+      p_stripe_dispute_id,
+      'Payment disputed: ' || coalesce(p_reason, 'no reason given')
+    )
+    ON CONFLICT (reason, source_id) DO NOTHING;
+  END IF;
+
+  PERFORM public.notify_admins(
+    'dispute_opened',
+    'Payment disputed',
+    format(
+      '%s %s disputed on %s (%s)%s%s.',
+      (p_amount / 100.0)::numeric(12, 2), upper(p_currency), p_stripe_charge_id,
+      coalesce(p_reason, 'no reason given'),
+      CASE WHEN v_dispute.user_id IS NULL THEN ', no matching user' ELSE ' by ' || v_dispute.user_id END,
+      CASE WHEN v_clawed > 0 THEN ', ' || v_clawed || ' points taken back' ELSE '' END
+    ),
+    'dispute_opened:' || p_stripe_dispute_id
+  );
+
+  RETURN v_dispute;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_dispute(text, text, text, text, bigint, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_dispute(text, text, text, text, bigint, text, text, text) TO service_role;
+
+-- The final outcome of a dispute. Won (or an inquiry closed without a
+-- chargeback) returns the points taken when it opened and resolves the
+-- flag; lost keeps both. Closing an already closed dispute does nothing.
+CREATE OR REPLACE FUNCTION public.close_dispute(
+    p_stripe_dispute_id text,
+    p_status text
+)
+RETURNS public.payment_disputes AS $$
+DECLARE
+  v_dispute public.payment_disputes%ROWTYPE;
+  v_won boolean := p_status IN ('won', 'warning_closed');
+BEGIN
+  SELECT * INTO v_dispute
+  FROM public.payment_disputes
+  WHERE stripe_dispute_id = p_stripe_dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown dispute %', p_stripe_dispute_id;
+  END IF;
+
+  IF v_dispute.closed_at IS NOT NULL THEN
+    RETURN v_dispute;
+  END IF;
+
+  IF v_won AND v_dispute.points_clawed_back > 0 THEN
+    PERFORM public.award_points(
+      v_dispute.user_id,
+      v_dispute.points_clawed_back,
+      'credit_pack_dispute_won',
+      'stripe',
+      p_stripe_dispute_id,
+      'Dispute resolved'
+    );
+
+    UPDATE public.credit_purchases
+    SET points_clawed_back = points_clawed_back - v_dispute.points_clawed_back
+    WHERE id = v_dispute.credit_purchase_id;
+  END IF;
+
+  IF v_won THEN
+    UPDATE public.account_flags
+    SET resolved_at = timezone('utc'::text, now())
+    WHERE reason = 'dispute' AND source_id = p_stripe_dispute_id;
+  END IF;
+
+  UPDATE public.payment_disputes
+  SET status = p_status,
+      closed_at = timezone('utc'::text, now())
+  WHERE id = v_dispute.id
+  RETURNING * INTO v_dispute;
+
+  PERFORM public.notify_admins(
+    'dispute_closed',
+    CASE WHEN v_won THEN 'Dispute won' ELSE 'Dispute lost' END,
+    format(
+      'Dispute on %s closed as %s.%s',
+      v_dispute.stripe_charge_id, p_status,
+      CASE WHEN v_won AND v_dispute.points_clawed_back > 0
+        THEN ' ' || v_dispute.points_clawed_back || ' points returned.' ELSE '' END
+    ),
+    'dispute_closed:' || p_stripe_dispute_id
+  );
+
+  RETURN v_dispute;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.close_dispute(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.close_dispute(text, text) TO service_role;
+
+-- Points returned after a won dispute were bought, not earned
+CREATE OR REPLACE FUNCTION public.get_xp_sources()
+RETURNS TABLE (points_earned bigint, badge_count bigint) AS $$
+  SELECT
+    (SELECT COALESCE(sum(amount), 0) FROM public.point_transactions
+     WHERE user_id = auth.uid()::text AND amount > 0
+       AND reason NOT IN ('boost_refund', 'credit_pack_purchase', 'credit_pack_dispute_won')),
+    (SELECT count(*) FROM public.user_badges
+     WHERE user_id = auth.uid()::text);
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,19 @@
+-- The monthly feedback request limit counts projects by created_at, and the
+-- owner UPDATE policy would otherwise let users backdate projects (or hand
+-- them to someone else) to get around it. Neither column changes after
+-- insert, whoever is updating.
+CREATE OR REPLACE FUNCTION public.guard_project_immutable_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.created_at IS DISTINCT FROM OLD.created_at
+     OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A project''s owner and creation time can''t be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS projects_guard_immutable_columns ON public.projects;
+CREATE TRIGGER projects_guard_immutable_columns
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.guard_project_immutable_columns();
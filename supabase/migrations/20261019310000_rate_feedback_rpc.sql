@@ -0,0 +1,46 @@
+-- Records a creator's rating and awards the reviewer's points in one
+-- transaction, so a failed award can't leave a rating without its points.
+-- The score and points are computed by rate-feedback (see
+-- _shared/rules/feedback-quality.ts). Feedback that was already rated is
+-- rejected with HINT 'already_rated'.
+CREATE OR REPLACE FUNCTION public.rate_feedback(
+    p_feedback_id uuid,
+    p_helpful boolean,
+    p_quality_score integer,
+    p_points integer
+)
+RETURNS public.feedback AS $$
+DECLARE
+  v_feedback public.feedback%ROWTYPE;
+BEGIN
+  UPDATE public.feedback
+  SET helpful = p_helpful,
+      quality_score = p_quality_score,
+      points_awarded = p_points,
+      rated_at = timezone('utc'::text, now())
+  WHERE id = p_feedback_id
+    AND rated_at IS NULL
+  RETURNING * INTO v_feedback;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feedback has already been rated'
+      USING HINT = 'already_rated';
+  END IF;
+
+  IF p_points > 0 THEN
+    PERFORM public.award_points(
+      v_feedback.user_id,
+      p_points,
+      'feedback_rated',
+      'feedback',
+      p_feedback_id::text,
+      CASE WHEN p_helpful THEN 'Feedback rated helpful' ELSE 'Feedback rated' END
+    );
+  END IF;
+
+  RETURN v_feedback;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.rate_feedback(uuid, boolean, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rate_feedback(uuid, boolean, integer, integer) TO service_role;
@@ -0,0 +1,74 @@
+-- get_leaderboard is callable by anon (the landing page shows top
+-- contributors), so it shouldn't hand out users' internal ids. Rows now carry
+-- display fields only; the viewer's own row is still marked by is_viewer.
+-- p_limit is clamped to 1-100 so one call can't list every ranked user.
+-- The return type changes, so the function is dropped and recreated.
+
+DROP FUNCTION IF EXISTS public.get_leaderboard(text, text, integer);
+
+CREATE FUNCTION public.get_leaderboard(
+  p_window text DEFAULT 'week',
+  p_category text DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  rank bigint,
+  display_name text,
+  avatar_url text,
+  points bigint,
+  is_viewer boolean
+) AS $$
+DECLARE
+  v_since timestamp with time zone;
+BEGIN
+  IF p_window NOT IN ('week', 'month', 'all') THEN
+    RAISE EXCEPTION 'Unknown leaderboard window: %', p_window;
+  END IF;
+
+  v_since := CASE p_window
+    WHEN 'week' THEN date_trunc('week', timezone('utc'::text, now())) AT TIME ZONE 'utc'
+    WHEN 'month' THEN date_trunc('month', timezone('utc'::text, now())) AT TIME ZONE 'utc'
+    ELSE NULL
+  END;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT lp.user_id, sum(lp.amount)::bigint AS points
+    FROM public.leaderboard_points lp
+    WHERE (v_since IS NULL OR lp.earned_at >= v_since)
+      AND (p_category IS NULL OR lp.category = p_category)
+    GROUP BY lp.user_id
+  ),
+  ranked AS (
+    SELECT
+      rank() OVER (ORDER BY t.points DESC) AS rank,
+      t.user_id,
+      t.points
+    FROM totals t
+    JOIN public.users u ON u.user_id = t.user_id
+    WHERE u.show_on_leaderboard
+  ),
+  viewer AS (
+    SELECT r.rank, t.user_id, t.points
+    FROM totals t
+    LEFT JOIN ranked r ON r.user_id = t.user_id
+    WHERE t.user_id = auth.uid()::text
+  ),
+  entries AS (
+    (SELECT r.rank, r.user_id, r.points FROM ranked r ORDER BY r.rank, r.user_id LIMIT least(greatest(p_limit, 1), 100))
+    UNION
+    SELECT v.rank, v.user_id, v.points FROM viewer v
+  )
+  SELECT
+    e.rank,
+    COALESCE(NULLIF(u.full_name, ''), NULLIF(u.name, ''), 'Anonymous reviewer'),
+    u.avatar_url,
+    e.points,
+    e.user_id = auth.uid()::text
+  FROM entries e
+  JOIN public.users u ON u.user_id = e.user_id
+  ORDER BY e.rank NULLS LAST, e.points DESC, e.user_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(text, text, integer) TO anon, authenticated;
@@ -0,0 +1,50 @@
+-- A user pays for one plan at a time. create-checkout turns away a second
+-- subscription checkout, but two started together both pass its check and
+-- can both be paid. With this index the second subscription's row can't be
+-- stored as entitled; the payments webhook cancels it in Stripe instead.
+-- The statuses are entitledStatuses in _shared/rules/entitlements.ts.
+
+-- Users who already have more than one entitled row keep the newest; the
+-- others are stored as canceled and the admins are told, since Stripe may
+-- still be billing them. reconcile-subscriptions reports them as
+-- duplicate_entitled until they're canceled in Stripe too.
+DO $$
+DECLARE
+  v_duplicate record;
+BEGIN
+  FOR v_duplicate IN
+    SELECT s.id, s.stripe_id, s.user_id
+    FROM (
+      SELECT
+        id,
+        stripe_id,
+        user_id,
+        row_number() OVER (PARTITION BY user_id ORDER BY created_at DESC, id) AS position
+      FROM public.subscriptions
+      WHERE user_id IS NOT NULL
+        AND status IN ('active', 'trialing', 'past_due')
+    ) s
+    WHERE s.position > 1
+  LOOP
+    UPDATE public.subscriptions
+    SET status = 'canceled',
+        updated_at = timezone('utc'::text, now())
+    WHERE id = v_duplicate.id;
+
+    PERFORM public.notify_admins(
+      'duplicate_subscription',
+      'Duplicate subscription',
+      format(
+        '%s had more than one live subscription; %s was marked canceled. Cancel it in Stripe if it is still billing.',
+        v_duplicate.user_id,
+        coalesce(v_duplicate.stripe_id, v_duplicate.id::text)
+      ),
+      'duplicate_subscription:' || v_duplicate.id
+    );
+  END LOOP;
+END
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS subscriptions_one_entitled_per_user
+  ON public.subscriptions(user_id)
+  WHERE status IN ('active', 'trialing', 'past_due');
@@ -0,0 +1,9 @@
+-- Owners could upload and replace their project screenshots but not delete
+-- them, so they had no way to take one down. Same folder rule as upload.
+DROP POLICY IF EXISTS "Users can delete own project screenshots" ON storage.objects;
+CREATE POLICY "Users can delete own project screenshots" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'project-screenshots'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,93 @@
+-- Invoice events skip the webhook's out-of-order check, since a failed
+-- renewal must start dunning even when the past_due update for it arrived
+-- first. A failure delivered after the subscription recovered must not put
+-- it back into dunning, though: nothing would clear past_due_since again
+-- and process_dunning would downgrade a paying customer. The failure now
+-- carries its event's time and only moves the subscription when it's newer
+-- than the last subscription event applied, or that event left it past due.
+
+DROP FUNCTION IF EXISTS public.record_payment_failure(text, text, integer, bigint, text, text, text, bigint);
+
+-- Records one failed attempt at paying an invoice, marks the subscription
+-- past due and tells the user. Safe to call again for the same attempt.
+CREATE OR REPLACE FUNCTION public.record_payment_failure(
+    p_stripe_subscription_id text,
+    p_stripe_invoice_id text,
+    p_attempt_count integer,
+    p_amount_due bigint,
+    p_currency text,
+    p_failure_message text,
+    p_hosted_invoice_url text,
+    p_next_payment_attempt bigint,
+    p_event_created_at timestamp with time zone
+)
+RETURNS public.payment_failures AS $$
+DECLARE
+  v_subscription public.subscriptions%ROWTYPE;
+  v_failure public.payment_failures%ROWTYPE;
+  v_stale boolean;
+BEGIN
+  SELECT * INTO v_subscription
+  FROM public.subscriptions
+  WHERE stripe_id = p_stripe_subscription_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_subscription.user_id IS NULL THEN
+    RAISE EXCEPTION 'Unknown subscription %', p_stripe_subscription_id;
+  END IF;
+
+  INSERT INTO public.payment_failures (
+    user_id, stripe_subscription_id, stripe_invoice_id, attempt_count,
+    amount_due, currency, failure_message, hosted_invoice_url, next_payment_attempt
+  )
+  VALUES (
+    v_subscription.user_id, p_stripe_subscription_id, p_stripe_invoice_id, p_attempt_count,
+    p_amount_due, p_currency, p_failure_message, p_hosted_invoice_url, p_next_payment_attempt
+  )
+  ON CONFLICT (stripe_invoice_id, attempt_count) DO NOTHING
+  RETURNING * INTO v_failure;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_failure
+    FROM public.payment_failures
+    WHERE stripe_invoice_id = p_stripe_invoice_id
+      AND attempt_count = p_attempt_count;
+    RETURN v_failure;
+  END IF;
+
+  v_stale := v_subscription.last_event_created_at IS NOT NULL
+    AND p_event_created_at <= v_subscription.last_event_created_at;
+
+  -- A subscription event newer than this failure already set the status.
+  -- If it recovered since, the attempt is only kept on record; if it's past
+  -- due, dunning starts from here.
+  IF v_stale AND v_subscription.status NOT IN ('past_due', 'unpaid') THEN
+    RETURN v_failure;
+  END IF;
+
+  UPDATE public.subscriptions
+  SET status = CASE
+        WHEN NOT v_stale AND status IN ('active', 'trialing') THEN 'past_due'
+        ELSE status
+      END,
+      past_due_since = coalesce(past_due_since, timezone('utc'::text, now()))
+  WHERE id = v_subscription.id;
+
+  INSERT INTO public.notifications (user_id, kind, title, body, link, dedupe_key)
+  VALUES (
+    v_subscription.user_id,
+    'payment_failed',
+    'Your payment didn''t go through',
+    coalesce(p_failure_message, 'We couldn''t charge your card.') ||
+      ' Update your payment method to keep your plan.',
+    '/dashboard/billing',
+    'payment_failed:' || p_stripe_invoice_id || ':' || p_attempt_count
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING;
+
+  RETURN v_failure;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_payment_failure(text, text, integer, bigint, text, text, text, bigint, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_failure(text, text, integer, bigint, text, text, text, bigint, timestamp with time zone) TO service_role;
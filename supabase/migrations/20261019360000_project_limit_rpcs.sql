@@ -0,0 +1,118 @@
+-- Plan limits on projects are checked and applied in one transaction. Each
+-- function locks the owner's users row first (as award_points does), so
+-- parallel requests from one user are counted one after another instead of
+-- all passing the same check. The limits come from create-project and
+-- restore-project, which resolve the user's entitlements; null means
+-- unlimited. A request over a limit raises with HINT 'max_active_projects'
+-- or 'feedback_requests_per_month'.
+
+-- Inserts a project for p_user_id from the fields in p_project. Columns it
+-- leaves out get their defaults; ownership, status and timestamps can't be
+-- set through it.
+CREATE OR REPLACE FUNCTION public.create_project_within_limits(
+    p_user_id text,
+    p_project jsonb,
+    p_max_active_projects integer,
+    p_feedback_requests_per_month integer
+)
+RETURNS public.projects AS $$
+DECLARE
+  v_fields jsonb := p_project - ARRAY['id', 'user_id', 'status', 'archived_at', 'created_at', 'updated_at'];
+  v_columns text;
+  v_project public.projects%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM public.users WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown user %', p_user_id;
+  END IF;
+
+  IF p_max_active_projects IS NOT NULL AND (
+    SELECT count(*) FROM public.projects
+    WHERE user_id = p_user_id AND status = 'active'
+  ) >= p_max_active_projects THEN
+    RAISE EXCEPTION 'Active project limit reached'
+      USING HINT = 'max_active_projects';
+  END IF;
+
+  -- Calendar month in UTC, archived projects included
+  IF p_feedback_requests_per_month IS NOT NULL AND (
+    SELECT count(*) FROM public.projects
+    WHERE user_id = p_user_id
+      AND created_at >= date_trunc('month', timezone('utc'::text, now())) AT TIME ZONE 'utc'
+  ) >= p_feedback_requests_per_month THEN
+    RAISE EXCEPTION 'Monthly feedback request limit reached'
+      USING HINT = 'feedback_requests_per_month';
+  END IF;
+
+  SELECT string_agg(quote_ident(c.column_name), ', ')
+  INTO v_columns
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = 'projects'
+    AND v_fields ? c.column_name;
+
+  EXECUTE format(
+    'INSERT INTO public.projects (user_id%1$s) '
+    'SELECT $1%1$s FROM jsonb_populate_record(NULL::public.projects, $2) '
+    'RETURNING *',
+    CASE WHEN v_columns IS NULL THEN '' ELSE ', ' || v_columns END
+  )
+  INTO v_project
+  USING p_user_id, v_fields;
+
+  RETURN v_project;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.create_project_within_limits(text, jsonb, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_project_within_limits(text, jsonb, integer, integer) TO service_role;
+
+-- Makes one of p_user_id's archived projects active again. Returns nothing
+-- when the project isn't theirs, and the project as is when it's already
+-- active.
+CREATE OR REPLACE FUNCTION public.restore_project_within_limits(
+    p_user_id text,
+    p_project_id uuid,
+    p_max_active_projects integer
+)
+RETURNS SETOF public.projects AS $$
+DECLARE
+  v_project public.projects%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM public.users WHERE user_id = p_user_id FOR UPDATE;
+
+  SELECT * INTO v_project
+  FROM public.projects
+  WHERE id = p_project_id
+    AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_project.status = 'active' THEN
+    RETURN NEXT v_project;
+    RETURN;
+  END IF;
+
+  IF p_max_active_projects IS NOT NULL AND (
+    SELECT count(*) FROM public.projects
+    WHERE user_id = p_user_id AND status = 'active'
+  ) >= p_max_active_projects THEN
+    RAISE EXCEPTION 'Active project limit reached'
+      USING HINT = 'max_active_projects';
+  END IF;
+
+  UPDATE public.projects
+  SET status = 'active',
+      archived_at = NULL
+  WHERE id = p_project_id
+  RETURNING * INTO v_project;
+
+  RETURN NEXT v_project;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.restore_project_within_limits(text, uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_project_within_limits(text, uuid, integer) TO service_role;
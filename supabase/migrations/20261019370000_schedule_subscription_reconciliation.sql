@@ -0,0 +1,32 @@
+-- Runs the reconcile-subscriptions edge function daily, where pg_cron and
+-- pg_net are available. Stripe is only reachable from the function, so the
+-- job calls it over HTTP with the service role key. Both the project URL and
+-- the key are read from Vault at run time, so they never sit in cron.job:
+--   SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'reconcile-subscriptions',
+      '30 3 * * *',
+      $job$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/supabase-functions-reconcile-subscriptions',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (
+            SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+          )
+        ),
+        body := '{}'::jsonb,
+        -- A run pages through every Stripe subscription
+        timeout_milliseconds := 150000
+      );
+      $job$
+    );
+  END IF;
+END
+$$;
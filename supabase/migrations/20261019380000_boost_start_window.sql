@@ -0,0 +1,137 @@
+-- A scheduled boost is refunded in full if cancelled before it starts, so
+-- with no limit on the start time a creator could hold boost slots months
+-- ahead at no cost. Boosts now have to start within 30 days.
+
+-- Same as before, except that the start can be at most 30 days away
+-- (HINT 'boost_start_too_late').
+CREATE OR REPLACE FUNCTION public.redeem_project_boost(
+    p_project_id uuid,
+    p_duration_hours integer,
+    p_starts_at timestamp with time zone DEFAULT NULL
+)
+RETURNS public.project_boosts AS $$
+DECLARE
+  max_concurrent CONSTANT integer := 5;
+  max_lead CONSTANT interval := interval '30 days';
+  v_user_id text := auth.uid()::text;
+  v_option public.boost_options%ROWTYPE;
+  v_starts_at timestamp with time zone := greatest(coalesce(p_starts_at, now()), now());
+  v_ends_at timestamp with time zone;
+  v_boost public.project_boosts%ROWTYPE;
+  v_credits integer;
+  v_paid_with text := 'points';
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE id = p_project_id
+      AND user_id = v_user_id
+      AND status = 'active'
+      AND visibility = 'public'
+  ) THEN
+    RAISE EXCEPTION 'Only your own active, public projects can be boosted';
+  END IF;
+
+  SELECT * INTO v_option FROM public.boost_options WHERE duration_hours = p_duration_hours;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown boost length: % hours', p_duration_hours;
+  END IF;
+
+  IF v_starts_at > now() + max_lead THEN
+    RAISE EXCEPTION 'Boosts can start at most % ahead', max_lead
+      USING HINT = 'boost_start_too_late';
+  END IF;
+
+  v_ends_at := v_starts_at + make_interval(hours => v_option.duration_hours);
+
+  -- Serialize redemptions so two creators can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext('public.project_boosts'));
+
+  IF EXISTS (
+    SELECT 1 FROM public.project_boosts
+    WHERE project_id = p_project_id
+      AND status = 'active'
+      AND starts_at < v_ends_at
+      AND ends_at > v_starts_at
+  ) THEN
+    RAISE EXCEPTION 'This project already has a boost in that period'
+      USING HINT = 'already_boosted';
+  END IF;
+
+  -- Peak overlap within the new window: the most boosts running at any one
+  -- start time inside it (or at its own start)
+  IF (
+    SELECT coalesce(max(overlapping), 0)
+    FROM (
+      SELECT (
+        SELECT count(*) FROM public.project_boosts b
+        WHERE b.status = 'active'
+          AND b.starts_at <= t.at
+          AND b.ends_at > t.at
+      ) AS overlapping
+      FROM (
+        SELECT v_starts_at AS at
+        UNION
+        SELECT starts_at FROM public.project_boosts
+        WHERE status = 'active'
+          AND starts_at > v_starts_at
+          AND starts_at < v_ends_at
+      ) t
+    ) peaks
+  ) >= max_concurrent THEN
+    RAISE EXCEPTION 'All % boost slots are taken for that period', max_concurrent
+      USING HINT = 'boost_capacity';
+  END IF;
+
+  v_credits := coalesce((public.current_entitlements(v_user_id)->>'boostCreditsPerMonth')::integer, 0);
+  IF public.boost_credits_used(v_user_id) < v_credits THEN
+    v_paid_with := 'credit';
+  END IF;
+
+  INSERT INTO public.project_boosts (project_id, user_id, points_spent, paid_with, starts_at, ends_at)
+  VALUES (
+    p_project_id,
+    v_user_id,
+    CASE WHEN v_paid_with = 'credit' THEN 0 ELSE v_option.cost END,
+    v_paid_with,
+    v_starts_at,
+    v_ends_at
+  )
+  RETURNING * INTO v_boost;
+
+  IF v_paid_with = 'points' THEN
+    PERFORM public.award_points(
+      v_user_id,
+      -v_option.cost,
+      'boost_redeemed',
+      'project_boost',
+      v_boost.id::text,
+      v_option.label || ' project boost'
+    );
+  END IF;
+
+  RETURN v_boost;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The view ran with its owner's rights, bypassing RLS on project_boosts.
+-- It now runs as the caller and reads the running boosts through a function
+-- that exposes only the project and window, never who paid or how much.
+CREATE OR REPLACE FUNCTION public.running_boost_windows()
+RETURNS TABLE (project_id uuid, boosted_since timestamp with time zone, boosted_until timestamp with time zone) AS $$
+  SELECT project_id, min(starts_at), max(ends_at)
+  FROM public.project_boosts
+  WHERE status = 'active'
+    AND starts_at <= now()
+    AND ends_at > now()
+  GROUP BY project_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.running_boost_windows() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.running_boost_windows() TO authenticated;
+
+CREATE OR REPLACE VIEW public.boosted_projects
+WITH (security_invoker = true) AS
+SELECT project_id, boosted_since, boosted_until
+FROM public.running_boost_windows();
+
+GRANT SELECT ON public.boosted_projects TO authenticated;
@@ -0,0 +1,74 @@
+-- Saving annotations used to delete the reviewer's annotations on an image
+-- and insert the drafts again as two separate requests: a failed insert lost
+-- them all, and annotations already attached to submitted feedback were
+-- deleted along with the drafts. Saving is now one function call, and
+-- submitted annotations are left alone.
+
+-- Replaces the caller's draft annotations (those not attached to feedback
+-- yet) on a project image with p_annotations, an array of
+-- {"kind", "x", "y", "width", "height", "comment"} numbered in array order.
+-- Returns the saved drafts.
+CREATE OR REPLACE FUNCTION public.save_reviewer_annotations(
+    p_project_id uuid,
+    p_image_url text,
+    p_annotations jsonb
+)
+RETURNS SETOF public.feedback_annotations AS $$
+DECLARE
+  v_user_id text := auth.uid()::text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Same rule as the insert policy: someone else's shared, active project
+  IF NOT EXISTS (
+    SELECT 1 FROM public.projects p
+    WHERE p.id = p_project_id
+      AND p.status = 'active'
+      AND p.visibility IN ('public', 'unlisted')
+      AND p.user_id <> v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Project is not open for feedback';
+  END IF;
+
+  DELETE FROM public.feedback_annotations
+  WHERE project_id = p_project_id
+    AND user_id = v_user_id
+    AND image_url = p_image_url
+    AND feedback_id IS NULL;
+
+  INSERT INTO public.feedback_annotations
+    (project_id, user_id, image_url, kind, number, x, y, width, height, comment)
+  SELECT
+    p_project_id,
+    v_user_id,
+    p_image_url,
+    a.value->>'kind',
+    a.position,
+    (a.value->>'x')::numeric,
+    (a.value->>'y')::numeric,
+    CASE WHEN a.value->>'kind' = 'rect' THEN (a.value->>'width')::numeric END,
+    CASE WHEN a.value->>'kind' = 'rect' THEN (a.value->>'height')::numeric END,
+    coalesce(trim(a.value->>'comment'), '')
+  FROM jsonb_array_elements(coalesce(p_annotations, '[]'::jsonb)) WITH ORDINALITY AS a(value, position);
+
+  RETURN QUERY
+  SELECT * FROM public.feedback_annotations
+  WHERE project_id = p_project_id
+    AND user_id = v_user_id
+    AND image_url = p_image_url
+    AND feedback_id IS NULL
+  ORDER BY number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.save_reviewer_annotations(uuid, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_reviewer_annotations(uuid, text, jsonb) TO authenticated;
+
+-- Only submit_feedback attaches annotations to feedback. Reviewers can edit
+-- their drafts, but can't attach them or edit them once submitted.
+DROP POLICY IF EXISTS "Reviewers can update own annotations" ON public.feedback_annotations;
+CREATE POLICY "Reviewers can update own annotations" ON public.feedback_annotations
+  FOR UPDATE USING (auth.uid()::text = user_id AND feedback_id IS NULL)
+  WITH CHECK (auth.uid()::text = user_id AND feedback_id IS NULL);
@@ -0,0 +1,43 @@
+-- Streak days are bucketed in the user's timezone, so switching zones back
+-- and forth could turn one late-night session into two streak days.
+-- The timezone can now change at most once every 7 days.
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS timezone_changed_at timestamp with time zone;
+
+-- Same as before, except that a change within 7 days of the last one is
+-- rejected (HINT 'timezone_change_too_soon'). Setting the current timezone
+-- again is a no-op and doesn't restart the wait.
+CREATE OR REPLACE FUNCTION public.set_user_timezone(p_timezone text)
+RETURNS text AS $$
+DECLARE
+  cooldown CONSTANT interval := interval '7 days';
+  v_user public.users%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', p_timezone;
+  END IF;
+
+  SELECT * INTO v_user
+  FROM public.users
+  WHERE user_id = auth.uid()::text
+  FOR UPDATE;
+
+  IF v_user.timezone IS NOT DISTINCT FROM p_timezone THEN
+    RETURN p_timezone;
+  END IF;
+
+  IF v_user.timezone IS NOT NULL AND v_user.timezone_changed_at > now() - cooldown THEN
+    RAISE EXCEPTION 'Your timezone can change again after %',
+      to_char((v_user.timezone_changed_at + cooldown) AT TIME ZONE 'utc', 'YYYY-MM-DD HH24:MI "UTC"')
+      USING HINT = 'timezone_change_too_soon';
+  END IF;
+
+  UPDATE public.users
+  SET timezone = p_timezone,
+      timezone_changed_at = now(),
+      updated_at = timezone('utc'::text, now())
+  WHERE user_id = auth.uid()::text;
+
+  RETURN p_timezone;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;